@@ -6,6 +6,7 @@ import ChatSummary from './pages/ChatSummary';
 import Settings from './pages/Settings';
 import { QueryClient, QueryClientProvider } from 'react-query';
 import { AnimatePresence } from 'framer-motion';
+import retentionService from './services/retentionService';
 
 // Create a client for React Query
 const queryClient = new QueryClient({
@@ -30,6 +31,12 @@ function App() {
     return () => clearTimeout(timer);
   }, []);
 
+  // Periodically purge data older than the configured retention period
+  useEffect(() => {
+    retentionService.start();
+    return () => retentionService.stop();
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
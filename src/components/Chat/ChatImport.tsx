@@ -1,4 +1,4 @@
-import React, { useState, useRef, ChangeEvent } from 'react';
+import React, { useState, useRef, useEffect, useMemo, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
 import {
   ArrowUpTrayIcon,
@@ -9,15 +9,34 @@ import {
   PencilSquareIcon,
 } from '@heroicons/react/24/outline';
 import { ChatMessage } from '../../types';
+import type {
+  ChatGroup,
+  ChatImporter,
+  ChatImportFormat,
+  ImportColumnMapping,
+  ImportParseResult,
+} from '../../types';
+import { detectImporter, getAcceptedExtensions, getImporters, SNIFF_SAMPLE_SIZE } from '../../utils/parsers';
+import { formatFileSize } from '../../utils/formatters';
+import importService from '../../services/importService';
+import wechatService from '../../services/wechatService';
+import type { ImportOutcome } from '../../services/importService';
+import ImportPreview from './ImportPreview';
 
 interface ChatImportProps {
-  onImportComplete: (messages: ChatMessage[]) => void;
+  onImportComplete: (messages: ChatMessage[], group: ChatGroup) => void;
+  // Preselected target group; messages already in it are skipped on re-import
+  groupId?: string;
   isProcessing?: boolean;
   error?: string | null;
 }
 
+// Target option for creating a new group from the import
+const NEW_GROUP = '__new__';
+
 const ChatImport: React.FC<ChatImportProps> = ({
   onImportComplete,
+  groupId,
   isProcessing = false,
   error = null,
 }) => {
@@ -26,9 +45,67 @@ const ChatImport: React.FC<ChatImportProps> = ({
   const [manualText, setManualText] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [importStatus, setImportStatus] = useState<'idle' | 'importing' | 'success' | 'error'>('idle');
+  const [importStatus, setImportStatus] = useState<'idle' | 'importing' | 'preview' | 'success' | 'error'>('idle');
   const [parsedMessages, setParsedMessages] = useState<ChatMessage[]>([]);
+  const [skippedLineCount, setSkippedLineCount] = useState(0);
+  const [mergeCounts, setMergeCounts] = useState<{ duplicates: number; conflicts: number } | null>(null);
+  const [includeConflicts, setIncludeConflicts] = useState(false);
+  const [detectedImporter, setDetectedImporter] = useState<ChatImporter | null>(null);
+  const [formatOverride, setFormatOverride] = useState<ChatImportFormat | 'auto'>('auto');
+  const [usedImporter, setUsedImporter] = useState<ChatImporter | null>(null);
+  const [progressBytes, setProgressBytes] = useState<{ loaded: number; total: number } | null>(null);
+  const [previewResult, setPreviewResult] = useState<ImportParseResult | null>(null);
+  const [previewHeaders, setPreviewHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ImportColumnMapping>({});
+  const [groups, setGroups] = useState<ChatGroup[]>([]);
+  const [targetGroupId, setTargetGroupId] = useState<string>(groupId ?? NEW_GROUP);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [existingMessages, setExistingMessages] = useState<ChatMessage[]>([]);
+  const [importedGroup, setImportedGroup] = useState<ChatGroup | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running import when the component unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Load the groups an import can be merged into
+  useEffect(() => {
+    wechatService.getGroups()
+      .then(setGroups)
+      .catch(error => console.error('Failed to load groups:', error));
+  }, []);
+
+  // Load the target group's messages so the preview can skip duplicates
+  useEffect(() => {
+    if (targetGroupId === NEW_GROUP) {
+      setExistingMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+    wechatService.getGroupMessages(targetGroupId)
+      .then(messages => {
+        if (!cancelled) setExistingMessages(messages);
+      })
+      .catch(error => console.error('Failed to load group messages:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [targetGroupId]);
+
+  // Detect the import format from the beginning of the file
+  const detectFileFormat = async (file: File) => {
+    try {
+      const sample = await file.slice(0, SNIFF_SAMPLE_SIZE).text();
+      setDetectedImporter(detectImporter(sample, file.name));
+    } catch (error) {
+      console.error('Format detection failed:', error);
+      setDetectedImporter(detectImporter('', file.name));
+    }
+  };
 
   // Handle file selection
   const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
@@ -36,9 +113,11 @@ const ChatImport: React.FC<ChatImportProps> = ({
     if (files && files.length > 0) {
       const file = files[0];
       setSelectedFile(file);
+      setNewGroupName(file.name.replace(/\.[^.]+$/, ''));
       setImportStatus('idle');
       // Reset any previous errors or progress
       setUploadProgress(0);
+      detectFileFormat(file);
     }
   };
 
@@ -49,8 +128,10 @@ const ChatImport: React.FC<ChatImportProps> = ({
     if (files && files.length > 0) {
       const file = files[0];
       setSelectedFile(file);
+      setNewGroupName(file.name.replace(/\.[^.]+$/, ''));
       setImportStatus('idle');
       setUploadProgress(0);
+      detectFileFormat(file);
     }
   };
 
@@ -63,9 +144,61 @@ const ChatImport: React.FC<ChatImportProps> = ({
   const handleManualTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setManualText(e.target.value);
     setImportStatus('idle');
+    setDetectedImporter(e.target.value.trim() ? detectImporter(e.target.value) : null);
+  };
+
+  // Parse the file in a worker, or the pasted text in place, into a preview
+  const runImport = async (mapping?: ImportColumnMapping) => {
+    setImportStatus('importing');
+    setIncludeConflicts(false);
+    setUploadProgress(0);
+    setProgressBytes(null);
+
+    try {
+      let outcome: ImportOutcome;
+      const groupId = targetGroupId === NEW_GROUP ? undefined : targetGroupId;
+
+      if (importMethod === 'file') {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        outcome = await importService.importFile(selectedFile!, {
+          format: formatOverride,
+          groupId,
+          columnMapping: mapping,
+          signal: controller.signal,
+          onProgress: (loaded, total) => {
+            setProgressBytes({ loaded, total });
+            setUploadProgress(total > 0 ? Math.floor((loaded / total) * 100) : 100);
+          },
+        });
+        abortControllerRef.current = null;
+      } else {
+        outcome = importService.importText(manualText, {
+          format: formatOverride,
+          groupId,
+          columnMapping: mapping,
+        });
+      }
+
+      setUsedImporter(outcome.importer);
+      setPreviewHeaders(outcome.headers);
+      setColumnMapping(outcome.columnMapping);
+      setPreviewResult(outcome.result);
+      setImportStatus('preview');
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        setImportStatus('idle');
+        setUploadProgress(0);
+        return;
+      }
+      console.error('Import failed:', error);
+      setImportStatus('error');
+    }
   };
 
-  // Process and parse the imported file or manual text
+  // Process and parse the imported file or manual text into a preview
   const handleProcessImport = async () => {
     if (importMethod === 'file' && !selectedFile) {
       setImportStatus('error');
@@ -77,106 +210,59 @@ const ChatImport: React.FC<ChatImportProps> = ({
       return;
     }
 
-    setImportStatus('importing');
+    await runImport();
+  };
 
-    try {
-      let importedMessages: ChatMessage[] = [];
+  // Stop the worker and discard everything parsed so far
+  const handleCancelImport = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
 
-      if (importMethod === 'file') {
-        // Simulate file processing with progress updates
-        await simulateFileProcessing();
+  // Re-parse the source with the new column mapping
+  const handleColumnMappingChange = (mapping: ImportColumnMapping) => {
+    runImport(mapping);
+  };
 
-        // In a real application, you would parse the file content here
-        // For example:
-        const fileContent = await readFileContent(selectedFile!);
-        importedMessages = parseMessageContent(fileContent);
-      } else {
-        // Parse manual text input
-        importedMessages = parseMessageContent(manualText);
-      }
+  // Compare the parsed messages with what the target group already contains
+  const mergeResult = useMemo(() => {
+    if (!previewResult || targetGroupId === NEW_GROUP || existingMessages.length === 0) return null;
+    return importService.mergeWithExisting(targetGroupId, existingMessages, previewResult.messages);
+  }, [previewResult, targetGroupId, existingMessages]);
+
+  // Only store the messages once the user has reviewed the preview
+  const handleConfirmImport = async () => {
+    if (!previewResult) return;
+    setIsSaving(true);
+
+    try {
+      const group = targetGroupId === NEW_GROUP
+        ? await wechatService.createGroup(newGroupName)
+        : groups.find(g => g.id === targetGroupId);
+      if (!group) throw new Error('群聊不存在');
 
-      setParsedMessages(importedMessages);
-      onImportComplete(importedMessages);
+      const result = await wechatService.importMessages(group.id, previewResult.messages, { includeConflicts });
+      setParsedMessages(result.added);
+      setSkippedLineCount(previewResult.errors.length);
+      setMergeCounts({ duplicates: result.duplicates.length, conflicts: result.conflicts.length });
+      setImportedGroup(group);
+      setGroups(await wechatService.getGroups());
+      setTargetGroupId(group.id);
+      onImportComplete(result.added, group);
+      setPreviewResult(null);
       setImportStatus('success');
     } catch (error) {
-      console.error('Import failed:', error);
+      console.error('Saving imported messages failed:', error);
       setImportStatus('error');
+    } finally {
+      setIsSaving(false);
     }
   };
 
-  // Simulate file processing with progress updates
-  const simulateFileProcessing = async (): Promise<void> => {
-    return new Promise((resolve) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += 10;
-        setUploadProgress(progress);
-        
-        if (progress >= 100) {
-          clearInterval(interval);
-          resolve();
-        }
-      }, 300);
-    });
-  };
-
-  // Read file content
-  const readFileContent = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          resolve(e.target.result as string);
-        } else {
-          reject(new Error('Failed to read file content'));
-        }
-      };
-      reader.onerror = () => reject(new Error('Error reading file'));
-      reader.readAsText(file);
-    });
-  };
-
-  // Parse message content into ChatMessage objects
-  const parseMessageContent = (content: string): ChatMessage[] => {
-    // This is a simplified example parser
-    // In a real app, you would implement a proper parser based on WeChat export format
-    const lines = content.split('\n').filter(line => line.trim().length > 0);
-    const messages: ChatMessage[] = [];
-    
-    lines.forEach((line, index) => {
-      // Simple parsing logic (for demonstration)
-      // Format expected: [time] sender: message
-      const match = line.match(/\[(.*?)\]\s*(.*?):\s*(.*)/);
-      
-      if (match) {
-        const [_, timeStr, sender, content] = match;
-        const timestamp = new Date();
-        
-        try {
-          // Try to parse time if in a recognizable format
-          const timeParts = timeStr.split(':');
-          if (timeParts.length >= 2) {
-            const hours = parseInt(timeParts[0]);
-            const minutes = parseInt(timeParts[1]);
-            timestamp.setHours(hours, minutes, 0, 0);
-          }
-        } catch (e) {
-          // Ignore time parsing errors
-        }
-        
-        messages.push({
-          id: `imported_${index}`,
-          sender,
-          senderId: `sender_${index}`,
-          content,
-          timestamp,
-          type: 'text',
-          groupId: 'imported_group',
-        });
-      }
-    });
-    
-    return messages;
+  const handleCancelPreview = () => {
+    setPreviewResult(null);
+    setImportStatus('idle');
+    setUploadProgress(0);
   };
 
   // Handle file selection via button click
@@ -196,6 +282,9 @@ const ChatImport: React.FC<ChatImportProps> = ({
     } else {
       setManualText('');
     }
+    handleCancelImport();
+    setDetectedImporter(null);
+    setPreviewResult(null);
     setImportStatus('idle');
     setUploadProgress(0);
   };
@@ -240,7 +329,7 @@ const ChatImport: React.FC<ChatImportProps> = ({
             ref={fileInputRef}
             onChange={handleFileSelect}
             className="hidden"
-            accept=".txt,.html,.csv"
+            accept={getAcceptedExtensions()}
           />
           
           {!selectedFile ? (
@@ -255,7 +344,7 @@ const ChatImport: React.FC<ChatImportProps> = ({
                 点击或拖拽文件至此处上传
               </p>
               <p className="text-sm text-gray-500 mt-1 dark:text-gray-500">
-                支持 .txt, .html, .csv 格式文件
+                支持 .txt, .csv, .html, .json 格式文件，自动识别格式
               </p>
             </div>
           ) : (
@@ -266,7 +355,7 @@ const ChatImport: React.FC<ChatImportProps> = ({
                   <div className="ml-3">
                     <p className="text-sm font-medium text-gray-900 dark:text-white">{selectedFile.name}</p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {(selectedFile.size / 1024).toFixed(2)} KB
+                      {formatFileSize(selectedFile.size)}
                     </p>
                   </div>
                 </div>
@@ -278,7 +367,7 @@ const ChatImport: React.FC<ChatImportProps> = ({
                 </button>
               </div>
               
-              {uploadProgress > 0 && uploadProgress < 100 && (
+              {importStatus === 'importing' && (
                 <div className="mt-3">
                   <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-600">
                     <div
@@ -286,9 +375,18 @@ const ChatImport: React.FC<ChatImportProps> = ({
                       style={{ width: `${uploadProgress}%` }}
                     ></div>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1 dark:text-gray-400">
-                    处理中... {uploadProgress}%
-                  </p>
+                  <div className="flex items-center justify-between mt-1">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      处理中... {uploadProgress}%
+                      {progressBytes && ` (${formatFileSize(progressBytes.loaded)} / ${formatFileSize(progressBytes.total)})`}
+                    </p>
+                    <button
+                      className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+                      onClick={handleCancelImport}
+                    >
+                      取消
+                    </button>
+                  </div>
                 </div>
               )}
             </div>
@@ -303,7 +401,7 @@ const ChatImport: React.FC<ChatImportProps> = ({
             <textarea
               value={manualText}
               onChange={handleManualTextChange}
-              placeholder="请粘贴聊天记录，每行格式为：[时间] 发送者: 消息内容"
+              placeholder="请粘贴微信电脑版导出的聊天记录，或每行格式为：[时间] 发送者: 消息内容"
               className="w-full h-60 p-4 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
             />
             {manualText && (
@@ -316,11 +414,73 @@ const ChatImport: React.FC<ChatImportProps> = ({
             )}
           </div>
           <p className="text-xs text-gray-500 mt-1 dark:text-gray-400">
-            示例：[10:30] 张三: 早上好，今天的会议几点开始？
+            示例：张三 2024-01-15 10:30:00 换行后接消息内容，或 [10:30] 张三: 早上好，今天的会议几点开始？
           </p>
         </div>
       )}
 
+      {/* Import format selection */}
+      {(detectedImporter || formatOverride !== 'auto') && (
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <label htmlFor="importFormat" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            解析格式
+          </label>
+          <select
+            id="importFormat"
+            value={formatOverride}
+            onChange={(e) => {
+              setFormatOverride(e.target.value as ChatImportFormat | 'auto');
+              setImportStatus('idle');
+            }}
+            className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="auto">
+              自动识别{detectedImporter ? `（${detectedImporter.name}）` : ''}
+            </option>
+            {getImporters().map(importer => (
+              <option key={importer.id} value={importer.id}>
+                {importer.name}
+              </option>
+            ))}
+          </select>
+          {formatOverride !== 'auto' && detectedImporter && detectedImporter.id !== formatOverride && (
+            <span className="text-xs text-yellow-600 dark:text-yellow-400">
+              已手动指定格式，自动识别结果为{detectedImporter.name}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Target group selection */}
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <label htmlFor="targetGroup" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          导入到
+        </label>
+        <select
+          id="targetGroup"
+          value={targetGroupId}
+          onChange={(e) => setTargetGroupId(e.target.value)}
+          disabled={importStatus === 'importing' || isSaving}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+        >
+          <option value={NEW_GROUP}>新建群聊</option>
+          {groups.map(group => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+        </select>
+        {targetGroupId === NEW_GROUP && (
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder="群聊名称"
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          />
+        )}
+      </div>
+
       {/* Status messages */}
       {importStatus === 'error' || error ? (
         <motion.div
@@ -345,42 +505,68 @@ const ChatImport: React.FC<ChatImportProps> = ({
           <CheckCircleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
           <div>
             <p className="font-medium">导入成功</p>
-            <p className="text-sm">成功导入 {parsedMessages.length} 条消息</p>
+            <p className="text-sm">
+              {usedImporter && `使用${usedImporter.name}解析，`}
+              {importedGroup && `已导入到「${importedGroup.name}」，`}
+              新增 {parsedMessages.length} 条消息
+              {mergeCounts && mergeCounts.duplicates > 0 && `，${mergeCounts.duplicates} 条重复消息已跳过`}
+              {mergeCounts && mergeCounts.conflicts > 0 && `，${mergeCounts.conflicts} 条冲突消息未导入`}
+              {skippedLineCount > 0 && `，${skippedLineCount} 行无法识别已跳过`}
+            </p>
           </div>
         </motion.div>
       ) : null}
 
+      {/* Preview before confirming the import */}
+      {importStatus === 'preview' && previewResult && usedImporter && (
+        <ImportPreview
+          result={previewResult}
+          importerName={usedImporter.name}
+          mergeResult={mergeResult}
+          includeConflicts={includeConflicts}
+          onIncludeConflictsChange={setIncludeConflicts}
+          headers={previewHeaders}
+          columnMapping={columnMapping}
+          onColumnMappingChange={usedImporter.getHeaders ? handleColumnMappingChange : undefined}
+          isConfirming={isSaving}
+          onConfirm={handleConfirmImport}
+          onCancel={handleCancelPreview}
+        />
+      )}
+
       {/* Action buttons */}
-      <div className="flex justify-end space-x-3">
-        <button
-          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
-          onClick={handleClearInput}
-        >
-          清除
-        </button>
-        <button
-          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-70 dark:focus:ring-offset-gray-800"
-          onClick={handleProcessImport}
-          disabled={
-            isProcessing ||
-            importStatus === 'importing' ||
-            (importMethod === 'file' && !selectedFile) ||
-            (importMethod === 'manual' && !manualText.trim())
-          }
-        >
-          {isProcessing || importStatus === 'importing' ? (
-            <>
-              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white inline-block" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              处理中...
-            </>
-          ) : (
-            '开始导入'
-          )}
-        </button>
-      </div>
+      {importStatus !== 'preview' && (
+        <div className="flex justify-end space-x-3">
+          <button
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+            onClick={handleClearInput}
+          >
+            清除
+          </button>
+          <button
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-70 dark:focus:ring-offset-gray-800"
+            onClick={handleProcessImport}
+            disabled={
+              isProcessing ||
+              importStatus === 'importing' ||
+              (importMethod === 'file' && !selectedFile) ||
+              (importMethod === 'manual' && !manualText.trim())
+            }
+          >
+            {isProcessing || importStatus === 'importing' ? (
+              <>
+                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white inline-block" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                处理中...
+              </>
+            ) : (
+              '解析并预览'
+            )}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
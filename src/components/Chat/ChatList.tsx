@@ -12,6 +12,8 @@ interface ChatListProps {
   hasMore?: boolean;
   onLoadMore?: () => void;
   emptyMessage?: string;
+  // Message to scroll to and highlight, e.g. when a summary citation is clicked
+  highlightedMessageId?: string | null;
 }
 
 /**
@@ -22,7 +24,8 @@ const ChatList: React.FC<ChatListProps> = ({
   isLoading = false,
   hasMore = false,
   onLoadMore,
-  emptyMessage = '没有消息记录'
+  emptyMessage = '没有消息记录',
+  highlightedMessageId = null
 }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
@@ -88,6 +91,15 @@ const ChatList: React.FC<ChatListProps> = ({
     setGroupedMessages(groups);
   }, [messages]);
 
+  // 滚动到高亮的消息，消息还没有加载时等分组更新后再滚动
+  useEffect(() => {
+    if (!highlightedMessageId || !scrollContainerRef.current) return;
+    const element = scrollContainerRef.current.querySelector(
+      `[data-message-id="${CSS.escape(highlightedMessageId)}"]`
+    );
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedMessageId, groupedMessages]);
+
   // 设置无限滚动
   useEffect(() => {
     if (!hasMore || !onLoadMore) return;
@@ -116,9 +128,11 @@ const ChatList: React.FC<ChatListProps> = ({
 
   // 渲染消息项
   const renderMessage = (message: ChatMessage) => {
+    const isHighlighted = message.id === highlightedMessageId;
     return (
       <motion.div 
         key={message.id}
+        data-message-id={message.id}
         initial={{ opacity: 0, y: 10 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.2 }}
@@ -147,7 +161,9 @@ const ChatList: React.FC<ChatListProps> = ({
               {formatMessageTime(message.timestamp)}
             </span>
           </div>
-          <div className="mt-1 px-4 py-2 bg-white rounded-lg shadow-sm dark:bg-gray-800">
+          <div className={`mt-1 px-4 py-2 rounded-lg shadow-sm transition-colors ${
+            isHighlighted ? 'ring-2 ring-amber-400 bg-amber-50 dark:bg-amber-900/30' : 'bg-white dark:bg-gray-800'
+          }`}>
             {message.type === 'text' ? (
               <p className="text-gray-700 dark:text-gray-300">{formatMessageContent(message.content)}</p>
             ) : message.type === 'image' ? (
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { ChatMessage as ChatMessageType } from '../../types';
 import { formatMessageContent, formatMessageTime } from '../../utils/formatters';
-import { UserCircleIcon, EllipsisHorizontalIcon } from '@heroicons/react/24/solid';
+import { UserCircleIcon, EllipsisHorizontalIcon, BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
 import { 
   ShareIcon, 
   BookmarkIcon,
@@ -19,6 +19,9 @@ interface ChatMessageProps {
   onDelete?: (messageId: string) => void;
   onCopy?: (content: string) => void;
   onReaction?: (messageId: string, reaction: string) => void;
+  onTogglePin?: (messageId: string, isPinned: boolean) => void;
+  // Highlight the message, e.g. when it is cited by a summary
+  isHighlighted?: boolean;
 }
 
 const ChatMessage: React.FC<ChatMessageProps> = ({
@@ -27,7 +30,9 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   onReply,
   onDelete,
   onCopy,
-  onReaction
+  onReaction,
+  onTogglePin,
+  isHighlighted = false
 }) => {
   const [showOptions, setShowOptions] = useState(false);
   const [showReactions, setShowReactions] = useState(false);
@@ -152,6 +157,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
 
   return (
     <motion.div
+      data-message-id={message.id}
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.2 }}
@@ -187,10 +193,12 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
             {formatMessageTime(message.timestamp)}
           </span>
         </div>
-        <div className={`mt-1 px-4 py-2 rounded-lg ${
-          isOwnMessage 
-            ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-100' 
-            : 'bg-white shadow-sm dark:bg-gray-800'
+        <div className={`mt-1 px-4 py-2 rounded-lg transition-colors ${
+          isHighlighted
+            ? 'ring-2 ring-amber-400 bg-amber-50 dark:bg-amber-900/30'
+            : isOwnMessage 
+              ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-100' 
+              : 'bg-white shadow-sm dark:bg-gray-800'
         }`}>
           {renderMessageContent()}
         </div>
@@ -261,11 +269,19 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                 <button
                   className="p-1.5 hover:bg-gray-100 rounded-full dark:hover:bg-gray-700"
                   onClick={() => {
-                    // Implementation would depend on bookmark functionality
+                    // Pinned messages are kept when the retention period purges old data
+                    if (onTogglePin) {
+                      onTogglePin(message.id, !message.isPinned);
+                    }
                     setShowOptions(false);
                   }}
+                  title={message.isPinned ? '取消固定' : '固定'}
                 >
-                  <BookmarkIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                  {message.isPinned ? (
+                    <BookmarkSolidIcon className="h-5 w-5 text-primary-500" />
+                  ) : (
+                    <BookmarkIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                  )}
                 </button>
                 {onDelete && (
                   <button
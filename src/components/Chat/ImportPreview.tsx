@@ -0,0 +1,231 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  TableCellsIcon,
+} from '@heroicons/react/24/outline';
+import type { ImportColumnMapping, ImportField, ImportMergeResult, ImportParseResult } from '../../types';
+import { truncateText } from '../../utils/formatters';
+
+interface ImportPreviewProps {
+  result: ImportParseResult;
+  importerName: string;
+  previewCount?: number;
+  // 仅表格类格式提供表头，用于列映射
+  headers?: string[];
+  columnMapping?: ImportColumnMapping;
+  onColumnMappingChange?: (mapping: ImportColumnMapping) => void;
+  // 导入到已有群聊时与现有消息的比对结果
+  mergeResult?: ImportMergeResult | null;
+  includeConflicts?: boolean;
+  onIncludeConflictsChange?: (include: boolean) => void;
+  isConfirming?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'sender', label: '发送者', required: true },
+  { field: 'timestamp', label: '时间', required: true },
+  { field: 'content', label: '内容', required: true },
+  { field: 'type', label: '类型', required: false },
+];
+
+const TYPE_LABELS: Record<string, string> = {
+  text: '文本',
+  image: '图片',
+  voice: '语音',
+  video: '视频',
+  file: '文件',
+  location: '位置',
+  system: '系统',
+};
+
+/**
+ * 导入预览组件 - 展示解析结果的前几条消息、列映射和无法解析的行，确认后才真正导入
+ */
+const ImportPreview: React.FC<ImportPreviewProps> = ({
+  result,
+  importerName,
+  previewCount = 20,
+  headers,
+  columnMapping = {},
+  onColumnMappingChange,
+  mergeResult,
+  includeConflicts = false,
+  onIncludeConflictsChange,
+  isConfirming = false,
+  onConfirm,
+  onCancel,
+}) => {
+  const { messages, errors } = result;
+  const previewMessages = messages.slice(0, previewCount);
+  const importCount = mergeResult
+    ? mergeResult.added.length + (includeConflicts ? mergeResult.conflicts.length : 0)
+    : messages.length;
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    if (!onColumnMappingChange) return;
+    const nextMapping = { ...columnMapping };
+    if (column) {
+      nextMapping[field] = column;
+    } else {
+      delete nextMapping[field];
+    }
+    onColumnMappingChange(nextMapping);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 space-y-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center text-lg font-medium text-gray-900 dark:text-white">
+          <TableCellsIcon className="mr-2 h-5 w-5 text-primary-500" />
+          导入预览
+        </h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {importerName} · 解析出 {messages.length} 条消息，{errors.length} 行无法解析
+        </span>
+      </div>
+
+      {/* Column mapping for tabular formats */}
+      {headers && headers.length > 0 && onColumnMappingChange && (
+        <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+          <p className="mb-3 text-sm font-medium text-gray-700 dark:text-gray-300">列映射</p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {FIELD_LABELS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label
+                  htmlFor={`mapping-${field}`}
+                  className="mb-1 block text-xs font-medium text-gray-500 dark:text-gray-400"
+                >
+                  {label}
+                  {required && <span className="text-red-500"> *</span>}
+                </label>
+                <select
+                  id={`mapping-${field}`}
+                  value={columnMapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">{required ? '请选择列' : '自动推断'}</option>
+                  {headers.map(header => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Comparison with the messages already in the target group */}
+      {mergeResult && (
+        <div className="rounded-lg border border-gray-200 p-4 text-sm dark:border-gray-700">
+          <div className="flex flex-wrap gap-x-6 gap-y-1">
+            <span className="text-green-600 dark:text-green-400">新增 {mergeResult.added.length} 条</span>
+            <span className="text-gray-500 dark:text-gray-400">重复 {mergeResult.duplicates.length} 条（将跳过）</span>
+            <span className="text-yellow-600 dark:text-yellow-400">冲突 {mergeResult.conflicts.length} 条</span>
+          </div>
+          {mergeResult.conflicts.length > 0 && onIncludeConflictsChange && (
+            <label className="mt-3 flex items-center text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeConflicts}
+                onChange={(e) => onIncludeConflictsChange(e.target.checked)}
+                className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              同时导入冲突消息（用导入的内容覆盖已被修改的同一条消息）
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Parsed messages preview */}
+      {previewMessages.length > 0 ? (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 text-sm dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">时间</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">发送者</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">类型</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400">内容</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white dark:divide-gray-700 dark:bg-gray-800">
+              {previewMessages.map(message => (
+                <tr key={message.id}>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-500 dark:text-gray-400">
+                    {format(message.timestamp, 'yyyy-MM-dd HH:mm:ss')}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-900 dark:text-white">{message.sender}</td>
+                  <td className="whitespace-nowrap px-3 py-2 text-gray-500 dark:text-gray-400">
+                    {TYPE_LABELS[message.type] ?? message.type}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                    {truncateText(message.content, 80)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {messages.length > previewCount && (
+            <p className="bg-gray-50 px-3 py-2 text-xs text-gray-500 dark:bg-gray-900 dark:text-gray-400">
+              仅显示前 {previewCount} 条，共 {messages.length} 条
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-lg border border-dashed border-gray-300 p-6 text-center text-sm text-gray-500 dark:border-gray-600 dark:text-gray-400">
+          没有解析出任何消息，请检查文件格式{headers ? '或列映射' : ''}
+        </div>
+      )}
+
+      {/* Error report */}
+      {errors.length > 0 && (
+        <div className="rounded-lg bg-yellow-50 p-4 dark:bg-yellow-900/20">
+          <p className="mb-2 flex items-center text-sm font-medium text-yellow-800 dark:text-yellow-300">
+            <ExclamationTriangleIcon className="mr-2 h-5 w-5" />
+            以下 {errors.length} 行无法解析，确认导入时将被跳过
+          </p>
+          <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+            {errors.map((error, index) => (
+              <li key={`${error.line}_${index}`} className="flex text-yellow-800 dark:text-yellow-200">
+                <span className="mr-2 w-16 flex-shrink-0 font-mono">第 {error.line} 行</span>
+                <span className="mr-2 flex-shrink-0 text-yellow-600 dark:text-yellow-400">{error.reason}</span>
+                <span className="truncate font-mono text-gray-600 dark:text-gray-400">{error.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
+          onClick={onCancel}
+        >
+          返回修改
+        </button>
+        <button
+          className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-70 dark:focus:ring-offset-gray-800"
+          onClick={onConfirm}
+          disabled={importCount === 0 || isConfirming}
+        >
+          <CheckCircleIcon className="mr-2 h-5 w-5" />
+          确认导入 {importCount} 条消息
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import {
+  UserGroupIcon,
+  LightBulbIcon,
+  ArrowsPointingInIcon,
+  ScissorsIcon,
+  PencilIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import type { IdentityMergeSuggestion, SenderIdentity } from '../../types';
+import identityService from '../../services/identityService';
+
+interface SenderIdentitiesProps {
+  groupId: string;
+  onChange?: () => void;
+}
+
+const CONFIDENCE_LABELS: Record<IdentityMergeSuggestion['confidence'], { label: string; className: string }> = {
+  high: { label: '很可能', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  medium: { label: '可能', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' },
+  low: { label: '不确定', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+/**
+ * 发送者身份管理组件 - 合并同一个人的多个名字，拆分误合并的名字，并展示自动合并建议
+ */
+const SenderIdentities: React.FC<SenderIdentitiesProps> = ({ groupId, onChange }) => {
+  const [identities, setIdentities] = useState<SenderIdentity[]>([]);
+  const [suggestions, setSuggestions] = useState<IdentityMergeSuggestion[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadIdentities = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextIdentities, nextSuggestions] = await Promise.all([
+        identityService.getIdentities(groupId),
+        identityService.getMergeSuggestions(groupId),
+      ]);
+      setIdentities(nextIdentities);
+      setSuggestions(nextSuggestions);
+    } catch (error) {
+      console.error('Failed to load sender identities:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    loadIdentities();
+  }, [loadIdentities]);
+
+  // Reload after every change so counts and suggestions stay in sync
+  const applyChange = async (change: Promise<void>) => {
+    try {
+      await change;
+    } catch (error) {
+      console.error('Failed to update sender identities:', error);
+      return;
+    }
+    setSelectedIds([]);
+    await loadIdentities();
+    onChange?.();
+  };
+
+  const toggleSelected = (identityId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(identityId) ? prev.filter(id => id !== identityId) : [...prev, identityId]
+    );
+  };
+
+  const handleMergeSelected = () => {
+    if (selectedIds.length < 2) return;
+    applyChange(identityService.mergeIdentities(groupId, selectedIds));
+  };
+
+  const handleSaveName = (identityId: string) => {
+    setEditingId(null);
+    applyChange(identityService.renameIdentity(groupId, identityId, editingName));
+  };
+
+  if (isLoading && identities.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-sm text-gray-500 dark:bg-gray-800 dark:text-gray-400">
+        加载中...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center text-xl font-semibold text-gray-800 dark:text-white">
+          <UserGroupIcon className="mr-2 h-6 w-6 text-primary-500" />
+          发送者身份
+        </h2>
+        <button
+          className="inline-flex items-center px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          onClick={handleMergeSelected}
+          disabled={selectedIds.length < 2}
+        >
+          <ArrowsPointingInIcon className="mr-1 h-4 w-4" />
+          合并所选（{selectedIds.length}）
+        </button>
+      </div>
+
+      {/* Automatic merge suggestions */}
+      {suggestions.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-4 rounded-lg border border-primary-100 bg-primary-50 p-4 dark:border-primary-900 dark:bg-primary-900/20"
+        >
+          <p className="mb-2 flex items-center text-sm font-medium text-primary-700 dark:text-primary-300">
+            <LightBulbIcon className="mr-2 h-5 w-5" />
+            以下名字可能属于同一个人
+          </p>
+          <ul className="space-y-2">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.identityIds.join('|')} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`rounded px-1.5 py-0.5 text-xs ${CONFIDENCE_LABELS[suggestion.confidence].className}`}>
+                  {CONFIDENCE_LABELS[suggestion.confidence].label}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">{suggestion.names.join(' / ')}</span>
+                <span className="text-gray-500 dark:text-gray-400">{suggestion.reason}</span>
+                <span className="ml-auto flex gap-2">
+                  <button
+                    className="text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                    onClick={() => applyChange(identityService.mergeIdentities(groupId, suggestion.identityIds))}
+                  >
+                    合并
+                  </button>
+                  <button
+                    className="text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                    onClick={() => applyChange(identityService.dismissSuggestion(groupId, suggestion.identityIds))}
+                  >
+                    忽略
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+
+      {/* Identity list */}
+      {identities.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">该群聊还没有消息</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {identities.map(identity => (
+            <li key={identity.id} className="py-3">
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(identity.id)}
+                  onChange={() => toggleSelected(identity.id)}
+                  className="mr-3 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {editingId === identity.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => handleSaveName(identity.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveName(identity.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="rounded border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                  />
+                ) : (
+                  <span className="font-medium text-gray-900 dark:text-white">{identity.displayName}</span>
+                )}
+                <button
+                  className="ml-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  onClick={() => {
+                    setEditingId(identity.id);
+                    setEditingName(identity.displayName);
+                  }}
+                  title="修改显示名"
+                >
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">{identity.messageCount} 条消息</span>
+              </div>
+
+              {/* Names merged into this identity, each can be split off again */}
+              {identity.sources.length > 1 && (
+                <div className="mt-2 ml-7 flex flex-wrap gap-2">
+                  {identity.sources.map(source => (
+                    <span
+                      key={source.senderId}
+                      className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                    >
+                      {source.names.join(' / ')}（{source.messageCount}）
+                      <button
+                        className="ml-1 text-gray-400 hover:text-red-500"
+                        onClick={() => applyChange(identityService.splitSenderId(groupId, source.senderId))}
+                        title="拆分"
+                      >
+                        <ScissorsIcon className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {identity.sources.length === 1 && identity.aliases.length > 1 && (
+                <p className="mt-1 ml-7 text-xs text-gray-500 dark:text-gray-400">
+                  曾用名：{identity.aliases.filter(alias => alias !== identity.displayName).join('、')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedIds.length > 0 && (
+        <button
+          className="mt-3 inline-flex items-center text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+          onClick={() => setSelectedIds([])}
+        >
+          <XMarkIcon className="mr-1 h-4 w-4" />
+          取消选择
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SenderIdentities;
@@ -10,7 +10,8 @@ import {
   ShareIcon,
   EllipsisVerticalIcon,
   CheckCircleIcon,
-  PhotoIcon
+  PhotoIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 
@@ -24,6 +25,7 @@ interface PosterItem {
   summaryId: string;
   status: 'completed' | 'failed';
   templateId: string;
+  isPinned?: boolean;
 }
 
 interface PosterGalleryProps {
@@ -32,6 +34,7 @@ interface PosterGalleryProps {
   onDownload?: (posterId: string) => void;
   onDelete?: (posterId: string) => void;
   onShare?: (posterId: string) => void;
+  onTogglePin?: (posterId: string, isPinned: boolean) => void;
 }
 
 const PosterGallery: React.FC<PosterGalleryProps> = ({
@@ -39,7 +42,8 @@ const PosterGallery: React.FC<PosterGalleryProps> = ({
   isLoading = false,
   onDownload,
   onDelete,
-  onShare
+  onShare,
+  onTogglePin
 }) => {
   const [selectedPosterId, setSelectedPosterId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -300,6 +304,20 @@ const PosterGallery: React.FC<PosterGalleryProps> = ({
                           </button>
                         )}
                         
+                        {onTogglePin && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onTogglePin(poster.id, !poster.isPinned);
+                              setIsActionMenuOpen(null);
+                            }}
+                            className="flex items-center w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-700 dark:hover:text-white"
+                          >
+                            <BookmarkIcon className="h-4 w-4 mr-2 text-gray-500 dark:text-gray-400" />
+                            {poster.isPinned ? '取消固定' : '固定'}
+                          </button>
+                        )}
+                        
                         {onDelete && (
                           <button
                             onClick={(e) => {
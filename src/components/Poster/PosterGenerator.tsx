@@ -15,6 +15,7 @@ import {
 import { ChatSummary } from '../../types';
 import { useAppContext } from '../../context/AppContext';
 import summaryService from '../../services/summaryService';
+import posterService from '../../services/posterService';
 import html2canvas from 'html2canvas';
 
 interface PosterGeneratorProps {
@@ -57,6 +58,8 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
   });
   
   const posterRef = useRef<HTMLDivElement>(null);
+  // Aborts the poster copy request that is in flight
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { addNotification } = useAppContext();
 
   // Available poster templates
@@ -113,10 +116,24 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
     },
   ];
 
+  // Start a poster copy request, aborting the previous one
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  };
+
+  // Stop generating poster copy
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Initialize with summary content if available
   useEffect(() => {
     if (summary) {
       setTitle(summary.title);
+      const controller = startRequest();
       
       // Generate poster content based on summary
       const generateContent = async () => {
@@ -124,20 +141,35 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
         try {
           const posterContent = await summaryService.generatePosterContent(
             summary.id,
-            { style: 'creative', maxLength: 150 }
+            { style: 'creative', maxLength: 150, signal: controller.signal }
           );
           setContent(posterContent);
         } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            // Stopped by the user: fall back to the summary; superseded or unmounted: leave state alone
+            if (abortControllerRef.current === controller) {
+              setContent(summary.content.substring(0, 300) + '...');
+            }
+            return;
+          }
           console.error('Failed to generate poster content:', error);
           // Use summary content as fallback
           setContent(summary.content.substring(0, 300) + '...');
           addNotification('error', '生成海报文案失败，已使用总结内容');
         } finally {
-          setIsGenerating(false);
+          if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            setIsGenerating(false);
+          }
         }
       };
       
       generateContent();
+      // Stop the request when the summary changes or the generator closes
+      return () => {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+        controller.abort();
+      };
     }
   }, [summary, addNotification]);
 
@@ -164,19 +196,29 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
   const handleRegenerateContent = async () => {
     if (!summary) return;
     
+    const controller = startRequest();
     setIsGenerating(true);
     try {
       const posterContent = await summaryService.generatePosterContent(
         summary.id,
-        { style: 'creative', maxLength: 150 }
+        { style: 'creative', maxLength: 150, signal: controller.signal }
       );
       setContent(posterContent);
       addNotification('success', '海报文案已重新生成');
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        if (abortControllerRef.current === controller) {
+          addNotification('info', '已停止生成海报文案');
+        }
+        return;
+      }
       console.error('Failed to regenerate content:', error);
       addNotification('error', '重新生成海报文案失败');
     } finally {
-      setIsGenerating(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+      }
     }
   };
 
@@ -196,6 +238,17 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
       
       const imageUrl = canvas.toDataURL('image/png');
       setPosterImage(imageUrl);
+
+      // Keep the poster so it is still available after a reload
+      if (summary) {
+        await posterService.savePoster({
+          summaryId: summary.id,
+          groupId: summary.groupId,
+          imageUrl,
+          templateId: selectedTemplate,
+          status: 'completed',
+        });
+      }
       
       if (onGenerated) {
         onGenerated(imageUrl);
@@ -329,14 +382,14 @@ const PosterGenerator: React.FC<PosterGeneratorProps> = ({
               </button>
               
               <button
-                onClick={handleRegenerateContent}
-                disabled={isGenerating || !summary}
+                onClick={isGenerating ? stopGenerating : handleRegenerateContent}
+                disabled={!summary}
                 className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
               >
                 {isGenerating ? (
                   <>
-                    <ArrowPathIcon className="h-5 w-5 mr-2 animate-spin" />
-                    生成中...
+                    <XMarkIcon className="h-5 w-5 mr-2" />
+                    停止生成
                   </>
                 ) : (
                   <>
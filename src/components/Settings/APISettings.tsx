@@ -6,42 +6,28 @@ import {
   ArrowPathIcon,
   KeyIcon,
   CogIcon,
-  ChartBarIcon,
-  DocumentTextIcon
+  BanknotesIcon,
+  DocumentTextIcon,
+  ServerIcon
 } from '@heroicons/react/24/outline';
 import deepseekService from '../../services/deepseekService';
+import { getProvider, getProviders, llmSettingsStore } from '../../services/llm';
 import { useAppContext } from '../../context/AppContext';
+import UsageStatistics from './UsageStatistics';
+import type { DeepseekBalance, LLMProviderConfig, LLMProviderId, LLMSettings } from '../../types';
 
 interface APISettingsProps {
   className?: string;
 }
 
-interface APIQuota {
-  used: number;
-  total: number;
-  remaining: number;
-}
-
-interface APISettings {
-  apiKey: string;
-  apiUrl: string;
-  model: string;
-  temperature: number;
-  maxTokens: number;
-}
-
 /**
- * API设置组件，用于配置和管理Deepseek API相关设置
+ * API设置组件，用于选择模型服务商并配置各服务商的连接和调用参数
  */
 const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
   // State for API settings
-  const [settings, setSettings] = useState<APISettings>({
-    apiKey: import.meta.env.VITE_DEEPSEEK_API_KEY || '',
-    apiUrl: import.meta.env.VITE_DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
-    model: 'deepseek-reasoner',
-    temperature: 0.7,
-    maxTokens: 1024,
-  });
+  const [settings, setSettings] = useState<LLMSettings>(() => llmSettingsStore.getSettings());
+  const [availableModels, setAvailableModels] = useState<Partial<Record<LLMProviderId, string[]>>>({});
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
 
   // State for UI and feedback
   const [isSaving, setIsSaving] = useState(false);
@@ -49,29 +35,54 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
   const [isTestSuccessful, setIsTestSuccessful] = useState<boolean | null>(null);
   const [testMessage, setTestMessage] = useState<string>('');
   const [showApiKey, setShowApiKey] = useState(false);
-  const [quota, setQuota] = useState<APIQuota | null>(null);
-  const [isLoadingQuota, setIsLoadingQuota] = useState(false);
+  const [balance, setBalance] = useState<DeepseekBalance | null>(null);
+  const [balanceError, setBalanceError] = useState<string>('');
+  const [isLoadingBalance, setIsLoadingBalance] = useState(false);
 
   const { addNotification } = useAppContext();
 
-  // Load settings from localStorage on component mount
+  const provider = getProvider(settings.provider);
+  // The mock provider is for development and tests; only offer it in dev builds or when already selected
+  const visibleProviders = getProviders().filter(item =>
+    item.id !== 'mock' || import.meta.env.DEV || settings.provider === 'mock'
+  );
+  const providerConfig = settings.providers[settings.provider];
+  // Models reported by the server, falling back to the provider's defaults
+  const models = Array.from(new Set([
+    ...(availableModels[settings.provider] ?? provider.defaultModels),
+    ...(providerConfig.model ? [providerConfig.model] : []),
+  ]));
+
+  // Account balance is only available for the Deepseek API
   useEffect(() => {
-    const savedSettings = localStorage.getItem('apiSettings');
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(prevSettings => ({
-          ...prevSettings,
-          ...parsed,
-        }));
-      } catch (error) {
-        console.error('Failed to parse saved API settings:', error);
-      }
-    }
-    
-    // Fetch API quota information
-    fetchQuota();
-  }, []);
+    if (settings.provider !== 'deepseek') return;
+    // Drop the request when switching provider or leaving the page
+    const controller = new AbortController();
+    fetchBalance(controller.signal);
+    return () => controller.abort();
+  }, [settings.provider]);
+
+  // Switch provider, keeping each provider's own configuration
+  const handleProviderChange = (providerId: LLMProviderId) => {
+    setSettings({ ...settings, provider: providerId });
+    setIsTestSuccessful(null);
+    setTestMessage('');
+  };
+
+  // Handle changes to the selected provider's connection settings
+  const handleProviderConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setSettings({
+      ...settings,
+      providers: {
+        ...settings.providers,
+        [settings.provider]: {
+          ...providerConfig,
+          [name as keyof LLMProviderConfig]: value,
+        },
+      },
+    });
+  };
 
   // Handle input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -103,7 +114,7 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
     
     try {
       // Save to localStorage (in a real app, you might save to backend too)
-      localStorage.setItem('apiSettings', JSON.stringify(settings));
+      llmSettingsStore.updateSettings(settings);
       
       // Update environment variables if possible
       // Note: In browser environment, you can't directly modify .env files
@@ -126,15 +137,17 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
     
     try {
       // Make a simple API call to test the connection
+      // Use the unsaved form values so the connection can be checked before saving
       const testPrompt = 'Hello, this is a test message to verify API connectivity.';
-      await deepseekService.summarizeChat(testPrompt, {
-        model: settings.model,
+      await provider.complete({
+        model: providerConfig.model,
+        messages: [{ role: 'user', content: testPrompt }],
         temperature: settings.temperature,
         maxTokens: 50, // Use smaller value for test
-      });
+      }, providerConfig);
       
       setIsTestSuccessful(true);
-      setTestMessage('API连接成功，服务正常');
+      setTestMessage(`${provider.name}连接成功，服务正常`);
       addNotification('success', 'API连接测试成功');
     } catch (error) {
       console.error('API connection test failed:', error);
@@ -146,18 +159,48 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
     }
   };
 
-  // Fetch API quota information
-  const fetchQuota = async () => {
-    setIsLoadingQuota(true);
+  // Fetch the model list from the selected provider
+  const fetchModels = async () => {
+    setIsLoadingModels(true);
+
+    try {
+      const modelList = await provider.listModels(providerConfig);
+      if (modelList.length === 0) {
+        addNotification('warning', `${provider.name}没有可用的模型`);
+        return;
+      }
+      setAvailableModels({ ...availableModels, [settings.provider]: modelList });
+      if (!modelList.includes(providerConfig.model)) {
+        setSettings({
+          ...settings,
+          providers: {
+            ...settings.providers,
+            [settings.provider]: { ...providerConfig, model: modelList[0] },
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch models:', error);
+      addNotification('error', `获取模型列表失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  // Fetch the Deepseek account balance
+  const fetchBalance = async (signal?: AbortSignal) => {
+    setIsLoadingBalance(true);
+    setBalanceError('');
     
     try {
-      const quotaInfo = await deepseekService.getApiQuota();
-      setQuota(quotaInfo);
+      setBalance(await deepseekService.getBalance(signal));
     } catch (error) {
-      console.error('Failed to fetch API quota:', error);
-      addNotification('error', '获取API配额信息失败');
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error('Failed to fetch account balance:', error);
+      setBalance(null);
+      setBalanceError(error instanceof Error ? error.message : '获取账户余额失败');
     } finally {
-      setIsLoadingQuota(false);
+      setIsLoadingBalance(false);
     }
   };
 
@@ -170,27 +213,53 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
     >
       <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">API设置</h2>
       
+      {/* Provider Selection */}
+      <div className="mb-8">
+        <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-4 flex items-center">
+          <ServerIcon className="w-5 h-5 mr-2 text-primary-500" />
+          模型服务商
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {visibleProviders.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => handleProviderChange(item.id)}
+              className={`text-left p-3 rounded-md border transition-colors ${
+                settings.provider === item.id
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-300 hover:border-primary-300 dark:border-gray-600'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{item.name}</p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{item.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* API Key Configuration */}
       <div className="mb-8">
         <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-4 flex items-center">
           <KeyIcon className="w-5 h-5 mr-2 text-primary-500" />
-          API密钥配置
+          连接配置
         </h3>
         
         <div className="space-y-4">
           <div>
             <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Deepseek API密钥
+              {provider.name} API密钥{!provider.requiresApiKey && '（可选）'}
             </label>
             <div className="relative">
               <input
                 id="apiKey"
                 name="apiKey"
                 type={showApiKey ? 'text' : 'password'}
-                value={settings.apiKey}
-                onChange={handleInputChange}
+                value={providerConfig.apiKey}
+                onChange={handleProviderConfigChange}
                 className="block w-full rounded-md border border-gray-300 py-2 pl-3 pr-10 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                placeholder="sk-..."
+                placeholder={provider.requiresApiKey ? 'sk-...' : '本地服务通常不需要密钥'}
               />
               <button
                 type="button"
@@ -201,7 +270,7 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
               </button>
             </div>
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              您可以从Deepseek官网获取API密钥。密钥将被安全地存储在您的浏览器中。
+              每个服务商的密钥分别保存，密钥将被安全地存储在您的浏览器中。
             </p>
           </div>
           
@@ -213,10 +282,10 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
               id="apiUrl"
               name="apiUrl"
               type="text"
-              value={settings.apiUrl}
-              onChange={handleInputChange}
+              value={providerConfig.apiUrl}
+              onChange={handleProviderConfigChange}
               className="block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-              placeholder="https://api.deepseek.com/v1"
+              placeholder={provider.defaultApiUrl}
             />
           </div>
         </div>
@@ -234,17 +303,28 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
             <label htmlFor="model" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
               模型
             </label>
-            <select
-              id="model"
-              name="model"
-              value={settings.model}
-              onChange={handleInputChange}
-              className="block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-            >
-              <option value="deepseek-reasoner">deepseek-reasoner</option>
-              <option value="deepseek-chat">deepseek-chat</option>
-              <option value="deepseek-coder">deepseek-coder</option>
-            </select>
+            <div className="flex gap-2">
+              <select
+                id="model"
+                name="model"
+                value={providerConfig.model}
+                onChange={handleProviderConfigChange}
+                className="block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              >
+                {models.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={fetchModels}
+                disabled={isLoadingModels}
+                title="从服务端获取模型列表"
+                className="inline-flex items-center px-3 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                <ArrowPathIcon className={`h-4 w-4 ${isLoadingModels ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
               选择用于生成总结的AI模型
             </p>
@@ -301,7 +381,7 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
         <div>
           <button
             onClick={testApiConnection}
-            disabled={isTesting || !settings.apiKey}
+            disabled={isTesting || (provider.requiresApiKey && !providerConfig.apiKey)}
             className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed`}
           >
             {isTesting ? (
@@ -335,64 +415,60 @@ const APISettings: React.FC<APISettingsProps> = ({ className = '' }) => {
         </div>
       </div>
       
-      {/* API Usage Statistics */}
-      <div className="mb-8">
-        <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-4 flex items-center">
-          <ChartBarIcon className="w-5 h-5 mr-2 text-primary-500" />
-          API使用统计
-        </h3>
+      {/* Deepseek account balance */}
+      {settings.provider === 'deepseek' && (
+        <div className="mb-8">
+          <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-4 flex items-center">
+            <BanknotesIcon className="w-5 h-5 mr-2 text-primary-500" />
+            账户余额
+          </h3>
         
-        {isLoadingQuota ? (
-          <div className="flex justify-center py-4">
-            <ArrowPathIcon className="animate-spin h-6 w-6 text-gray-400" />
-          </div>
-        ) : quota ? (
-          <div className="bg-gray-50 rounded-lg p-4 dark:bg-gray-700/50">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
-                <p className="text-sm text-gray-500 dark:text-gray-400">已使用</p>
-                <p className="text-xl font-bold text-gray-900 dark:text-white">{quota.used.toLocaleString()}</p>
-              </div>
-              <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
-                <p className="text-sm text-gray-500 dark:text-gray-400">剩余</p>
-                <p className="text-xl font-bold text-green-600 dark:text-green-400">{quota.remaining.toLocaleString()}</p>
-              </div>
-              <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
-                <p className="text-sm text-gray-500 dark:text-gray-400">总额度</p>
-                <p className="text-xl font-bold text-gray-900 dark:text-white">{quota.total.toLocaleString()}</p>
-              </div>
+          {isLoadingBalance ? (
+            <div className="flex justify-center py-4">
+              <ArrowPathIcon className="animate-spin h-6 w-6 text-gray-400" />
             </div>
-            
-            <div className="mt-4">
-              <div className="relative pt-1">
-                <div className="text-xs text-right mb-1 flex justify-between">
-                  <span className="text-gray-600 dark:text-gray-400">使用率:</span>
-                  <span className="font-medium text-gray-700 dark:text-gray-300">{Math.round((quota.used / quota.total) * 100)}%</span>
-                </div>
-                <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-gray-200 dark:bg-gray-600">
-                  <div 
-                    className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-primary-500"
-                    style={{ width: `${(quota.used / quota.total) * 100}%` }}
-                  ></div>
-                </div>
+          ) : balance ? (
+            <div className="bg-gray-50 rounded-lg p-4 dark:bg-gray-700/50">
+              {!balance.isAvailable && (
+                <p className="mb-3 text-sm text-red-600 dark:text-red-400">余额不足，无法调用API，请充值后再试</p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {balance.balances.map(item => (
+                  <React.Fragment key={item.currency}>
+                    <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">总余额（{item.currency}）</p>
+                      <p className="text-xl font-bold text-green-600 dark:text-green-400">{item.total.toLocaleString()}</p>
+                    </div>
+                    <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">充值余额</p>
+                      <p className="text-xl font-bold text-gray-900 dark:text-white">{item.toppedUp.toLocaleString()}</p>
+                    </div>
+                    <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
+                      <p className="text-sm text-gray-500 dark:text-gray-400">赠送余额</p>
+                      <p className="text-xl font-bold text-gray-900 dark:text-white">{item.granted.toLocaleString()}</p>
+                    </div>
+                  </React.Fragment>
+                ))}
               </div>
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                最近更新时间: {new Date().toLocaleString()}
+              <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
                 <button 
-                  onClick={fetchQuota} 
-                  className="ml-2 text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+                  onClick={() => fetchBalance()} 
+                  className="text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
                 >
                   刷新
                 </button>
               </p>
             </div>
-          </div>
-        ) : (
-          <div className="text-center py-4 text-gray-500 dark:text-gray-400">
-            无法获取API使用数据。请确保您的API密钥有效并且已连接到服务。
-          </div>
-        )}
-      </div>
+          ) : (
+            <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+              无法获取账户余额{balanceError && `：${balanceError}`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Token usage and spend recorded for every call */}
+      <UsageStatistics className="mb-8" />
       
       {/* API Documentation */}
       <div className="mb-6">
@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import {
+  DocumentTextIcon,
+  DocumentDuplicateIcon,
+  PlusIcon,
+  TrashIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ClockIcon
+} from '@heroicons/react/24/outline';
+import promptTemplateService, {
+  DEFAULT_TEMPLATE_ID,
+  SUMMARY_SECTIONS,
+  TEMPLATE_VARIABLES
+} from '../../services/promptTemplateService';
+import exportService from '../../services/exportService';
+import { useAppContext } from '../../context/AppContext';
+import type { PromptTemplate, PromptTemplateContent, SummarySection } from '../../types';
+import { SECTION_TITLES } from '../../utils/structuredSummary';
+import { formatDate } from '../../utils/dateUtils';
+
+interface PromptTemplateSettingsProps {
+  className?: string;
+}
+
+type TemplateDraft = Pick<PromptTemplate, 'name' | 'description'> & PromptTemplateContent;
+
+const VARIABLE_DESCRIPTIONS: Record<typeof TEMPLATE_VARIABLES[number], string> = {
+  groupName: '群聊名称',
+  timeRange: '总结的时间范围',
+  focusPoints: '总结选项中的关注点',
+  messages: '聊天记录（仅用户提示词）',
+};
+
+const toDraft = ({ name, description, systemPrompt, userPrompt, sections }: PromptTemplate): TemplateDraft => ({
+  name,
+  description,
+  systemPrompt,
+  userPrompt,
+  sections,
+});
+
+/**
+ * 提示词模板设置组件，用于创建、修改、分享总结使用的提示词模板，并查看和恢复历史版本
+ */
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ className = '' }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptTemplateService.getTemplates());
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [draft, setDraft] = useState<TemplateDraft>(() => toDraft(promptTemplateService.getTemplate()));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { addNotification } = useAppContext();
+
+  const selected = templates.find(template => template.id === selectedId) ?? templates[0];
+
+  useEffect(() => promptTemplateService.subscribe(setTemplates), []);
+
+  // Reset the form whenever another template is selected or the selected one changes
+  useEffect(() => {
+    setDraft(toDraft(selected));
+  }, [selected]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(selected));
+
+  // Run a library operation, selecting the resulting template and reporting errors
+  const runAction = (action: () => PromptTemplate | void, successMessage: string) => {
+    try {
+      const template = action();
+      if (template) setSelectedId(template.id);
+      addNotification('success', successMessage);
+    } catch (error) {
+      console.error('Prompt template operation failed:', error);
+      addNotification('error', error instanceof Error ? error.message : '操作失败');
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    if (isDirty && !window.confirm('当前模板有未保存的修改，是否放弃？')) return;
+    setSelectedId(id);
+  };
+
+  const handleCreate = () => {
+    const base = promptTemplateService.getTemplate(DEFAULT_TEMPLATE_ID);
+    runAction(() => promptTemplateService.createTemplate({ ...toDraft(base), name: '新模板', description: '' }), '已创建模板');
+  };
+
+  const handleSave = () => {
+    runAction(() => promptTemplateService.updateTemplate(selected.id, draft), '模板已保存');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`确定要删除模板“${selected.name}”吗？`)) return;
+    runAction(() => {
+      promptTemplateService.deleteTemplate(selected.id);
+      setSelectedId(DEFAULT_TEMPLATE_ID);
+    }, '模板已删除');
+  };
+
+  const handleRestore = (version: number) => {
+    if (!window.confirm(`将模板恢复为版本${version}的内容？当前内容会保留在历史版本中`)) return;
+    runAction(() => promptTemplateService.restoreVersion(selected.id, version), `已恢复版本${version}`);
+  };
+
+  const handleExport = () => {
+    try {
+      exportService.downloadFiles([promptTemplateService.exportTemplate(selected.id)]);
+    } catch (error) {
+      console.error('Failed to export prompt template:', error);
+      addNotification('error', '导出模板失败');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be chosen again
+    e.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    runAction(() => promptTemplateService.importTemplate(content), '模板已导入');
+  };
+
+  // Keep the order of sections that stay selected and append newly selected ones
+  const toggleSection = (section: SummarySection) => {
+    setDraft({
+      ...draft,
+      sections: draft.sections.includes(section)
+        ? draft.sections.filter(item => item !== section)
+        : [...draft.sections, section],
+    });
+  };
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDraft({ ...draft, [name]: value });
+  };
+
+  const inputClassName = 'block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 disabled:bg-gray-50 disabled:text-gray-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:disabled:bg-gray-800';
+  const buttonClassName = 'inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600';
+
+  return (
+    <motion.div
+      className={`bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800 ${className}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+          <DocumentTextIcon className="w-6 h-6 mr-2 text-primary-500" />
+          提示词模板
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button type="button" onClick={handleCreate} className={buttonClassName}>
+            <PlusIcon className="w-4 h-4 mr-1" />
+            新建
+          </button>
+          <button type="button" onClick={() => importInputRef.current?.click()} className={buttonClassName}>
+            <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+            导入
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Template list */}
+        <div className="space-y-2">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => handleSelect(template.id)}
+              className={`w-full text-left p-3 rounded-md border transition-colors ${
+                template.id === selected.id
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-300 hover:border-primary-300 dark:border-gray-600'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{template.name}</p>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {template.builtIn ? '内置' : `v${template.version}`}
+                </span>
+              </div>
+              {template.description && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{template.description}</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Template editor */}
+        <div className="md:col-span-2 space-y-4">
+          {selected.builtIn && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              内置模板不能修改，复制后可以在副本上修改。
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="templateName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                名称
+              </label>
+              <input
+                id="templateName"
+                name="name"
+                type="text"
+                value={draft.name}
+                onChange={handleDraftChange}
+                disabled={selected.builtIn}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="templateDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                说明
+              </label>
+              <input
+                id="templateDescription"
+                name="description"
+                type="text"
+                value={draft.description}
+                onChange={handleDraftChange}
+                disabled={selected.builtIn}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="systemPrompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              系统提示词
+            </label>
+            <textarea
+              id="systemPrompt"
+              name="systemPrompt"
+              rows={5}
+              value={draft.systemPrompt}
+              onChange={handleDraftChange}
+              disabled={selected.builtIn}
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              描述总结的角色和侧重点，输出格式以及长度、风格等总结选项的要求会自动附加在后面
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="userPrompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              用户提示词
+            </label>
+            <textarea
+              id="userPrompt"
+              name="userPrompt"
+              rows={3}
+              value={draft.userPrompt}
+              onChange={handleDraftChange}
+              disabled={selected.builtIn}
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {'不包含{{messages}}时，聊天记录附加在用户提示词后面'}
+            </p>
+          </div>
+
+          <div className="rounded-md bg-gray-50 p-3 dark:bg-gray-700/50">
+            <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">可用变量</p>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <li key={variable} className="text-xs text-gray-500 dark:text-gray-400">
+                  <code className="text-primary-600 dark:text-primary-400">{`{{${variable}}}`}</code>
+                  {' '}{VARIABLE_DESCRIPTIONS[variable]}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              总结部分
+            </label>
+            <div className="flex flex-wrap gap-3">
+              {SUMMARY_SECTIONS.map(section => (
+                <label key={section} className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={draft.sections.includes(section)}
+                    onChange={() => toggleSection(section)}
+                    disabled={selected.builtIn}
+                    className="rounded border-gray-300 text-primary-600 shadow-sm focus:border-primary-300 focus:ring focus:ring-primary-200 focus:ring-opacity-50 dark:border-gray-600 dark:bg-gray-700"
+                  />
+                  <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                    {SECTION_TITLES.zh[section]}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              总结按勾选的顺序输出：{draft.sections.map(section => SECTION_TITLES.zh[section]).join(' → ') || '未选择'}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+            {!selected.builtIn && (
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                保存
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => runAction(() => promptTemplateService.duplicateTemplate(selected.id), '已复制模板')}
+              className={buttonClassName}
+            >
+              <DocumentDuplicateIcon className="w-4 h-4 mr-1" />
+              复制
+            </button>
+            <button type="button" onClick={handleExport} className={buttonClassName}>
+              <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+              导出分享
+            </button>
+            {!selected.builtIn && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800"
+              >
+                <TrashIcon className="w-4 h-4 mr-1" />
+                删除
+              </button>
+            )}
+          </div>
+
+          {/* Version history */}
+          {!selected.builtIn && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-800 dark:text-white mb-2 flex items-center">
+                <ClockIcon className="w-4 h-4 mr-1 text-primary-500" />
+                版本历史
+              </h3>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                <li className="py-2 flex items-center justify-between text-sm">
+                  <span className="text-gray-900 dark:text-white">
+                    v{selected.version}（当前）
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(selected.updatedAt, 'yyyy-MM-dd HH:mm')}
+                  </span>
+                </li>
+                {[...selected.history].reverse().map(version => (
+                  <li key={version.version} className="py-2 flex items-center justify-between text-sm">
+                    <span className="text-gray-700 dark:text-gray-300">v{version.version}</span>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDate(version.updatedAt, 'yyyy-MM-dd HH:mm')}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(version.version)}
+                        className="text-xs text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                      >
+                        恢复
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default PromptTemplateSettings;
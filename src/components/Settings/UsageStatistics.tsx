@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ChartBarIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import usageService from '../../services/usageService';
+import { useAppContext } from '../../context/AppContext';
+import type { BudgetStatus, BudgetUsage, ModelPricing, UsageSettings, UsageSpend } from '../../types';
+
+interface UsageStatisticsProps {
+  className?: string;
+}
+
+type ChartPeriod = 'daily' | 'monthly';
+
+const CHART_DAYS = 30;
+const CHART_MONTHS = 12;
+
+const inputClassName = 'block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+// Small amounts still need a few decimals to be meaningful
+const formatCost = (currency: string, cost: number): string =>
+  `${currency}${cost >= 1 ? cost.toFixed(2) : cost.toFixed(4)}`;
+
+/**
+ * 用量统计组件，显示模型调用的每日和每月花费，并设置各模型的价格和花费预算
+ */
+const UsageStatistics: React.FC<UsageStatisticsProps> = ({ className = '' }) => {
+  const [settings, setSettings] = useState<UsageSettings>(() => usageService.getSettings());
+  const [draft, setDraft] = useState<UsageSettings>(() => usageService.getSettings());
+  const [chartPeriod, setChartPeriod] = useState<ChartPeriod>('daily');
+  const [spend, setSpend] = useState<UsageSpend[]>([]);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [usedModels, setUsedModels] = useState<string[]>([]);
+  const [version, setVersion] = useState(0);
+
+  const { addNotification } = useAppContext();
+
+  // Refresh whenever a call is recorded or the settings change
+  useEffect(() => usageService.subscribe(() => {
+    setSettings(usageService.getSettings());
+    setVersion(current => current + 1);
+  }), []);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    Promise.all([
+      chartPeriod === 'daily' ? usageService.getDailySpend(CHART_DAYS) : usageService.getMonthlySpend(CHART_MONTHS),
+      usageService.getBudgetStatus(),
+      usageService.getRecords(monthStart, now),
+    ])
+      .then(([spendData, budgetStatus, records]) => {
+        if (isCancelled) return;
+        setSpend(spendData);
+        setBudget(budgetStatus);
+        setUsedModels(Array.from(new Set(records.map(record => record.model))));
+      })
+      .catch(error => console.error('Failed to load usage:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [chartPeriod, version]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const maxCost = Math.max(...spend.map(item => item.cost), 0);
+  const periodTotal = spend.reduce((sum, item) => sum + item.cost, 0);
+  const unpricedModels = usedModels.filter(model => !settings.pricing.some(item => item.model === model));
+
+  const updatePricing = (index: number, updates: Partial<ModelPricing>) => {
+    setDraft({
+      ...draft,
+      pricing: draft.pricing.map((item, itemIndex) => itemIndex === index ? { ...item, ...updates } : item),
+    });
+  };
+
+  const parseBudget = (value: string): number | null => value === '' ? null : Math.max(0, Number(value));
+
+  const handleSave = () => {
+    const models = draft.pricing.map(item => item.model.trim());
+    if (models.some(model => !model)) {
+      addNotification('error', '请填写模型名称');
+      return;
+    }
+    if (new Set(models).size !== models.length) {
+      addNotification('error', '同一个模型只能设置一个价格');
+      return;
+    }
+
+    usageService.updateSettings({
+      ...draft,
+      pricing: draft.pricing.map((item, index) => ({ ...item, model: models[index] })),
+    });
+    addNotification('success', '价格和预算已保存');
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空所有用量记录吗？')) return;
+    try {
+      await usageService.clearRecords();
+      addNotification('success', '用量记录已清空');
+    } catch (error) {
+      console.error('Failed to clear usage records:', error);
+      addNotification('error', '清空用量记录失败');
+    }
+  };
+
+  const renderBudgetCard = (title: string, usage: BudgetUsage | undefined) => {
+    const ratio = usage?.limit ? Math.min(usage.spent / usage.limit, 1) : 0;
+    return (
+      <div className="p-3 bg-white rounded-md shadow-sm dark:bg-gray-800">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{title}</p>
+        <p className="text-xl font-bold text-gray-900 dark:text-white">
+          {formatCost(settings.currency, usage?.spent ?? 0)}
+          {usage?.limit !== null && usage?.limit !== undefined && (
+            <span className="ml-1 text-sm font-normal text-gray-500 dark:text-gray-400">
+              / {formatCost(settings.currency, usage.limit)}
+            </span>
+          )}
+        </p>
+        {usage?.limit ? (
+          <div className="mt-2 overflow-hidden h-1.5 rounded bg-gray-200 dark:bg-gray-600">
+            <div
+              className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= settings.alertThreshold ? 'bg-yellow-500' : 'bg-primary-500'}`}
+              style={{ width: `${ratio * 100}%` }}
+            ></div>
+          </div>
+        ) : (
+          <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">未设置预算</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={className}>
+      <h3 className="text-lg font-medium text-gray-800 dark:text-white mb-4 flex items-center">
+        <ChartBarIcon className="w-5 h-5 mr-2 text-primary-500" />
+        用量与花费
+      </h3>
+
+      {/* Budget alerts */}
+      {budget && budget.level !== 'ok' && (
+        <div className={`mb-4 flex items-start p-3 rounded-md text-sm ${
+          budget.level === 'exceeded'
+            ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+            : 'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'
+        }`}>
+          <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+          {budget.level === 'exceeded'
+            ? '已达到花费预算上限，定时任务会暂停执行，直到预算周期结束或调高预算；手动生成不受影响'
+            : `花费已达到预算的${Math.round(settings.alertThreshold * 100)}%`}
+        </div>
+      )}
+
+      <div className="bg-gray-50 rounded-lg p-4 dark:bg-gray-700/50">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderBudgetCard('今日花费', budget?.daily)}
+          {renderBudgetCard('本月花费', budget?.monthly)}
+        </div>
+
+        {/* Spend chart */}
+        <div className="mt-6">
+          <div className="flex justify-between items-center mb-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {chartPeriod === 'daily' ? `最近${CHART_DAYS}天` : `最近${CHART_MONTHS}个月`}共 {formatCost(settings.currency, periodTotal)}
+            </p>
+            <div className="flex space-x-1">
+              {(['daily', 'monthly'] as ChartPeriod[]).map(period => (
+                <button
+                  key={period}
+                  type="button"
+                  onClick={() => setChartPeriod(period)}
+                  className={`px-3 py-1 rounded-md text-xs ${
+                    chartPeriod === period
+                      ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                      : 'bg-white text-gray-600 dark:bg-gray-600 dark:text-gray-200'
+                  }`}
+                >
+                  {period === 'daily' ? '按天' : '按月'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end h-32 space-x-0.5">
+            {spend.map(item => (
+              <div
+                key={item.period}
+                className="flex-1 h-full flex items-end"
+                title={`${item.period}：${formatCost(settings.currency, item.cost)}，${item.totalTokens.toLocaleString()} tokens，${item.calls}次调用`}
+              >
+                <div
+                  className="w-full rounded-t bg-primary-500 hover:bg-primary-600"
+                  style={{ height: maxCost > 0 ? `${Math.max((item.cost / maxCost) * 100, item.cost > 0 ? 2 : 0)}%` : 0 }}
+                ></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-400 dark:text-gray-500">
+            <span>{spend[0]?.period}</span>
+            <span>{spend[spend.length - 1]?.period}</span>
+          </div>
+        </div>
+
+        {/* Budgets */}
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="dailyBudget" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              每日预算
+            </label>
+            <input
+              id="dailyBudget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="不限制"
+              value={draft.dailyBudget ?? ''}
+              onChange={e => setDraft({ ...draft, dailyBudget: parseBudget(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="monthlyBudget" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              每月预算
+            </label>
+            <input
+              id="monthlyBudget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="不限制"
+              value={draft.monthlyBudget ?? ''}
+              onChange={e => setDraft({ ...draft, monthlyBudget: parseBudget(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="alertThreshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              提醒比例（%）
+            </label>
+            <input
+              id="alertThreshold"
+              type="number"
+              min="1"
+              max="100"
+              value={Math.round(draft.alertThreshold * 100)}
+              onChange={e => {
+                const percent = Number(e.target.value);
+                if (percent >= 1 && percent <= 100) setDraft({ ...draft, alertThreshold: percent / 100 });
+              }}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="currency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              货币符号
+            </label>
+            <input
+              id="currency"
+              type="text"
+              value={draft.currency}
+              onChange={e => setDraft({ ...draft, currency: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {/* Per-model pricing */}
+        <div className="mt-6">
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">模型价格（每百万token）</p>
+          <div className="space-y-2">
+            {draft.pricing.map((item, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-center">
+                <input
+                  type="text"
+                  placeholder="模型名称"
+                  value={item.model}
+                  onChange={e => updatePricing(index, { model: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  title="输入价格"
+                  value={item.inputPrice}
+                  onChange={e => updatePricing(index, { inputPrice: Math.max(0, Number(e.target.value)) })}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  title="输出价格"
+                  value={item.outputPrice}
+                  onChange={e => updatePricing(index, { outputPrice: Math.max(0, Number(e.target.value)) })}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, pricing: draft.pricing.filter((_, itemIndex) => itemIndex !== index) })}
+                  className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-400"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setDraft({ ...draft, pricing: [...draft.pricing, { model: '', inputPrice: 0, outputPrice: 0 }] })}
+            className="mt-2 inline-flex items-center text-sm text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" />
+            添加模型
+          </button>
+          {unpricedModels.length > 0 && (
+            <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">
+              本月使用的以下模型没有设置价格，花费按0计算：{unpricedModels.join('、')}
+            </p>
+          )}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            默认价格仅供参考，请以服务商公布的价格为准；修改价格只影响之后的调用。服务没有返回用量时按内容长度估算。
+          </p>
+        </div>
+
+        <div className="mt-6 flex justify-between">
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+          >
+            清空用量记录
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            保存价格和预算
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageStatistics;
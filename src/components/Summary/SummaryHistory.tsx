@@ -8,8 +8,10 @@ import {
   TrashIcon,
   ArchiveBoxIcon,
   EllipsisVerticalIcon,
-  FolderArrowDownIcon
+  FolderArrowDownIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/outline';
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
 import { format } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
 import { ChatSummary } from '../../types';
@@ -21,6 +23,7 @@ interface SummaryHistoryProps {
   onDeleteSummary?: (summaryId: string) => void;
   onArchiveSummary?: (summaryId: string) => void;
   onExportSummary?: (summaryId: string) => void;
+  onTogglePin?: (summaryId: string, isPinned: boolean) => void;
 }
 
 /**
@@ -32,7 +35,8 @@ const SummaryHistory: React.FC<SummaryHistoryProps> = ({
   onSelectSummary,
   onDeleteSummary,
   onArchiveSummary,
-  onExportSummary
+  onExportSummary,
+  onTogglePin
 }) => {
   // State for filtering and searching
   const [searchTerm, setSearchTerm] = useState('');
@@ -277,7 +281,10 @@ const SummaryHistory: React.FC<SummaryHistoryProps> = ({
                 onClick={() => handleSelectSummary(summary)}
               >
                 <div className="flex justify-between">
-                  <h3 className="font-medium text-gray-800 dark:text-white truncate pr-10">
+                  <h3 className="flex items-center font-medium text-gray-800 dark:text-white truncate pr-10">
+                    {summary.isPinned && (
+                      <BookmarkSolidIcon className="h-4 w-4 mr-1 flex-shrink-0 text-primary-500" title="已固定，不会被自动清理" />
+                    )}
                     {summary.title}
                   </h3>
                   <div className="relative">
@@ -308,6 +315,19 @@ const SummaryHistory: React.FC<SummaryHistoryProps> = ({
                               导出总结
                             </button>
                           )}
+                          {onTogglePin && (
+                            <button
+                              className="flex items-center w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-600 dark:hover:text-white"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onTogglePin(summary.id, !summary.isPinned);
+                                setActionMenuOpen(null);
+                              }}
+                            >
+                              <BookmarkIcon className="h-4 w-4 mr-3 text-gray-400" />
+                              {summary.isPinned ? '取消固定' : '固定'}
+                            </button>
+                          )}
                           {onArchiveSummary && (
                             <button
                               className="flex items-center w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-600 dark:hover:text-white"
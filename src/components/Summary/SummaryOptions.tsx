@@ -10,6 +10,8 @@ import {
   CheckIcon,
   XMarkIcon
 } from '@heroicons/react/24/outline';
+import promptTemplateService, { DEFAULT_TEMPLATE_ID } from '../../services/promptTemplateService';
+import type { PromptTemplate, SummaryPromptOptions } from '../../types';
 
 interface SummaryOptionsProps {
   onOptionsChange: (options: SummaryOptionsType) => void;
@@ -17,16 +19,8 @@ interface SummaryOptionsProps {
   isLoading?: boolean;
 }
 
-export interface SummaryOptionsType {
-  summaryLength: 'short' | 'medium' | 'long';
-  summaryStyle: 'formal' | 'casual' | 'creative';
-  focusPoints: string[];
-  template: string;
-  language: 'zh' | 'en';
-  includeParticipants: boolean;
-  includeTimestamps: boolean;
-  detailLevel: 'brief' | 'detailed' | 'comprehensive';
-}
+// Every option is passed to summaryService and turned into prompt instructions
+export type SummaryOptionsType = Required<SummaryPromptOptions>;
 
 /**
  * 总结选项组件 - 用于配置总结生成的各项参数
@@ -41,7 +35,7 @@ const SummaryOptions: React.FC<SummaryOptionsProps> = ({
     summaryLength: 'medium',
     summaryStyle: 'formal',
     focusPoints: [],
-    template: 'standard',
+    template: DEFAULT_TEMPLATE_ID,
     language: 'zh',
     includeParticipants: true,
     includeTimestamps: true,
@@ -52,14 +46,10 @@ const SummaryOptions: React.FC<SummaryOptionsProps> = ({
   const [customFocusPoint, setCustomFocusPoint] = useState<string>('');
   const [isExpanded, setIsExpanded] = useState(false);
 
-  // Template options
-  const templates = [
-    { id: 'standard', name: '标准模板', description: '包含主要讨论内容、决策和后续行动的综合总结' },
-    { id: 'concise', name: '简洁模板', description: '仅包含关键点和决策的精简总结' },
-    { id: 'detailed', name: '详细模板', description: '包含全面细节和背景信息的详尽总结' },
-    { id: 'action', name: '行动导向', description: '重点突出待办事项和后续步骤的总结' },
-    { id: 'decision', name: '决策记录', description: '重点突出已做决策和结论的总结' },
-  ];
+  // Templates from the prompt template library, kept in sync with edits made in settings
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptTemplateService.getTemplates());
+
+  useEffect(() => promptTemplateService.subscribe(setTemplates), []);
 
   // Common focus points
   const commonFocusPoints = [
@@ -110,7 +100,7 @@ const SummaryOptions: React.FC<SummaryOptionsProps> = ({
       summaryLength: 'medium',
       summaryStyle: 'formal',
       focusPoints: [],
-      template: 'standard',
+      template: DEFAULT_TEMPLATE_ID,
       language: 'zh',
       includeParticipants: true,
       includeTimestamps: true,
@@ -260,13 +250,16 @@ const SummaryOptions: React.FC<SummaryOptionsProps> = ({
           >
             {templates.map((template) => (
               <option key={template.id} value={template.id}>
-                {template.name}
+                {template.builtIn ? template.name : `${template.name}（v${template.version}）`}
               </option>
             ))}
           </select>
           <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
             {templates.find(t => t.id === options.template)?.description || '选择总结内容的组织方式'}
           </p>
+          <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+            可以在设置页的提示词模板中创建和管理模板
+          </p>
         </div>
 
         {/* Focus Points */}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   ClipboardIcon, 
@@ -7,14 +7,28 @@ import {
   ChevronDownIcon,
   CheckIcon,
   DocumentArrowDownIcon,
-  PencilIcon
+  PencilIcon,
+  StopIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
 import { ChatSummary } from '../../types';
+import type { SummaryProgress } from '../../types';
 import { format } from 'date-fns';
+import { splitRenderedSummary } from '../../utils/structuredSummary';
 
 interface SummaryResultProps {
   summary: ChatSummary | null;
   isLoading?: boolean;
+  // Summary text received so far while the summary is streaming
+  streamingContent?: string;
+  // Per-chunk progress when a long chat is summarized in parts
+  progress?: SummaryProgress | null;
+  onStop?: () => void;
+  // Regenerate a summary that was returned from the cache
+  onRegenerate?: () => void;
+  // Jump to a cited message in the chat view
+  onCitationClick?: (messageId: string) => void;
   onCopy?: () => void;
   onShare?: () => void;
   onDownload?: () => void;
@@ -27,6 +41,11 @@ interface SummaryResultProps {
 const SummaryResult: React.FC<SummaryResultProps> = ({
   summary,
   isLoading = false,
+  streamingContent = '',
+  progress = null,
+  onStop,
+  onRegenerate,
+  onCitationClick,
   onCopy,
   onShare,
   onDownload,
@@ -35,6 +54,19 @@ const SummaryResult: React.FC<SummaryResultProps> = ({
   const [textSize, setTextSize] = useState<'sm' | 'base' | 'lg'>('base');
   const [showFormatOptions, setShowFormatOptions] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showReasoning, setShowReasoning] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<string | null>(null);
+
+  // Collapse the reasoning panel and clear the selected citation when another summary is shown
+  useEffect(() => {
+    setShowReasoning(false);
+    setActiveCitation(null);
+  }, [summary?.id]);
+
+  const handleCitationClick = (messageId: string) => {
+    setActiveCitation(messageId);
+    if (onCitationClick) onCitationClick(messageId);
+  };
 
   // Handle copy to clipboard
   const handleCopy = () => {
@@ -100,12 +132,61 @@ const SummaryResult: React.FC<SummaryResultProps> = ({
     }
   };
 
+  const progressText = !progress
+    ? '正在生成总结...'
+    : progress.phase === 'map'
+      ? `聊天记录较长，正在总结第 ${progress.current}/${progress.total} 段...`
+      : progress.total > 1
+        ? `正在合并分段总结（${progress.current}/${progress.total}）...`
+        : '正在合并分段总结...';
+
+  const stopButton = onStop && (
+    <button
+      onClick={onStop}
+      className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+    >
+      <StopIcon className="w-4 h-4 mr-1" />
+      停止生成
+    </button>
+  );
+
+  // Render the partial summary as it streams in
+  if (isLoading && streamingContent) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm dark:bg-gray-800 h-full flex flex-col">
+        <div className="border-b dark:border-gray-700 p-6 flex justify-between items-center">
+          <div className="flex items-center text-gray-500 dark:text-gray-400">
+            <div className="w-4 h-4 border-2 border-gray-200 border-t-primary-500 rounded-full animate-spin mr-2"></div>
+            {progressText}
+          </div>
+          {stopButton}
+        </div>
+        <div className="flex-1 p-6 overflow-auto">
+          <div
+            className={`prose prose-sm max-w-none dark:prose-invert ${getTextSizeClass()}`}
+            dangerouslySetInnerHTML={{ __html: formatContent(streamingContent) }}
+          ></div>
+          <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary-500 animate-pulse"></span>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800 min-h-[400px] flex items-center justify-center">
         <div className="flex flex-col items-center">
           <div className="w-12 h-12 border-4 border-gray-200 border-t-primary-500 rounded-full animate-spin mb-4"></div>
-          <p className="text-gray-500 dark:text-gray-400">正在生成总结...</p>
+          <p className="text-gray-500 dark:text-gray-400 mb-4">{progressText}</p>
+          {progress?.phase === 'map' && (
+            <div className="w-48 h-1.5 mb-4 bg-gray-200 rounded-full overflow-hidden dark:bg-gray-700">
+              <div
+                className="h-full bg-primary-500 transition-all"
+                style={{ width: `${(progress.current / progress.total) * 100}%` }}
+              ></div>
+            </div>
+          )}
+          {stopButton}
         </div>
       </div>
     );
@@ -125,6 +206,19 @@ const SummaryResult: React.FC<SummaryResultProps> = ({
     );
   }
 
+  // Match the rendered items back to their cited messages; summaries generated before
+  // citations existed, or edited afterwards, fall back to the plain content
+  const sources = summary.structured?.sources;
+  const citations = summary.citations ?? [];
+  const renderedSections = sources ? splitRenderedSummary(summary.content) : null;
+  const citedSections = renderedSections?.every(part => sources?.[part.section]?.length === part.items.length)
+    ? renderedSections
+    : null;
+  const citationNumbers = new Map(citations.map((citation, index) => [citation.messageId, index + 1]));
+  const unsupportedCount = citedSections
+    ? citedSections.reduce((count, part) => count + sources![part.section]!.filter(refs => refs.length === 0).length, 0)
+    : 0;
+
   return (
     <motion.div 
       className="bg-white rounded-lg shadow-sm dark:bg-gray-800 h-full flex flex-col"
@@ -244,14 +338,103 @@ const SummaryResult: React.FC<SummaryResultProps> = ({
             群组: {summary.groupName}
           </span>
         </div>
+
+        {/* The messages and options have not changed since this summary was generated */}
+        {summary.fromCache && (
+          <div className="mt-3 flex items-center justify-between px-3 py-2 text-sm text-blue-700 bg-blue-50 rounded-lg dark:bg-blue-900/30 dark:text-blue-300">
+            <span>聊天内容和选项都没有变化，显示的是之前生成的总结</span>
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                className="inline-flex items-center ml-4 font-medium hover:underline"
+              >
+                <ArrowPathIcon className="w-4 h-4 mr-1" />
+                仍然重新生成
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Summary content */}
       <div className="flex-1 p-6 overflow-auto">
-        <div 
-          className={`prose prose-sm max-w-none dark:prose-invert ${getTextSizeClass()}`}
-          dangerouslySetInnerHTML={{ __html: formatContent(summary.content) }}
-        ></div>
+        {citedSections ? (
+          <div className={`prose prose-sm max-w-none dark:prose-invert ${getTextSizeClass()}`}>
+            {unsupportedCount > 0 && (
+              <div className="not-prose flex items-start mb-4 px-3 py-2 text-sm text-amber-700 bg-amber-50 rounded-lg dark:bg-amber-900/30 dark:text-amber-300">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                <span>有 {unsupportedCount} 条内容没有找到支持它的聊天消息，可能是模型臆造的，请核对后再使用</span>
+              </div>
+            )}
+            {citedSections.map(part => (
+              <div key={part.section}>
+                <h2 className="text-lg font-semibold mt-4 mb-2 text-gray-800 dark:text-gray-200">{part.title}</h2>
+                <ul className="list-none pl-0">
+                  {part.items.map((item, index) => {
+                    const refs = sources![part.section]![index];
+                    return (
+                      <li key={index} className={`ml-4 ${refs.length === 0 ? 'text-amber-700 dark:text-amber-300' : ''}`}>
+                        {item}
+                        {refs.map(messageId => (
+                          <sup key={messageId}>
+                            <button
+                              onClick={() => handleCitationClick(messageId)}
+                              className="ml-0.5 text-primary-600 hover:underline dark:text-primary-400"
+                              title={citations[citationNumbers.get(messageId)! - 1]?.text}
+                            >
+                              [{citationNumbers.get(messageId)}]
+                            </button>
+                          </sup>
+                        ))}
+                        {refs.length === 0 && (
+                          <span
+                            className="inline-flex items-center ml-1 text-xs align-middle"
+                            title="没有找到支持这条内容的聊天消息"
+                          >
+                            <ExclamationTriangleIcon className="w-4 h-4 mr-0.5" />
+                            可能无依据
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div 
+            className={`prose prose-sm max-w-none dark:prose-invert ${getTextSizeClass()}`}
+            dangerouslySetInnerHTML={{ __html: formatContent(summary.content) }}
+          ></div>
+        )}
+
+        {/* Footnotes listing the cited messages */}
+        {citedSections && citations.length > 0 && (
+          <div className="mt-6 pt-4 border-t dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-800 dark:text-white mb-2">引用的消息</h3>
+            <ol className="space-y-1 text-sm">
+              {citations.map((citation, index) => (
+                <li key={citation.messageId}>
+                  <button
+                    onClick={() => handleCitationClick(citation.messageId)}
+                    className={`w-full flex items-start text-left px-2 py-1 rounded ${
+                      activeCitation === citation.messageId
+                        ? 'bg-amber-50 dark:bg-amber-900/30'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <span className="mr-2 text-primary-600 dark:text-primary-400">[{index + 1}]</span>
+                    <span className="mr-2 flex-shrink-0 text-gray-400 dark:text-gray-500">
+                      {format(citation.timestamp, 'MM-dd HH:mm')}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">{citation.text}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
         
         {/* Key points section */}
         {summary.keyPoints && summary.keyPoints.length > 0 && (
@@ -269,6 +452,29 @@ const SummaryResult: React.FC<SummaryResultProps> = ({
             </ul>
           </div>
         )}
+
+        {/* Reasoning trace from reasoning models, collapsed by default */}
+        {summary.reasoning && (
+          <div className="mt-6 border rounded-lg dark:border-gray-700">
+            <button
+              onClick={() => setShowReasoning(!showReasoning)}
+              className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-700/50"
+            >
+              模型的思考过程
+              <ChevronDownIcon className={`w-4 h-4 transition-transform ${showReasoning ? 'rotate-180' : ''}`} />
+            </button>
+            {showReasoning && (
+              <div className="px-4 pb-4">
+                <p className="mb-2 text-xs text-gray-400 dark:text-gray-500">
+                  推理模型在生成总结前的思考，仅供参考，不包含在海报和导出中
+                </p>
+                <div className="max-h-96 overflow-auto whitespace-pre-wrap text-sm text-gray-600 dark:text-gray-400">
+                  {summary.reasoning}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Footer with topics/tags */}
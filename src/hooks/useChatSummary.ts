@@ -1,10 +1,22 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import summaryService from '../services/summaryService';
 import wechatService from '../services/wechatService';
 import { ChatSummary, ChatGroup } from '../types';
+import type { LLMErrorKind, SummaryProgress, SummaryPromptOptions } from '../types';
+import { getLLMErrorKind } from '../services/llm';
 import { useAppContext } from '../context/AppContext';
 
+type SummaryGenerationOptions = SummaryPromptOptions & {
+  maxTokens?: number;
+  temperature?: number;
+  // Skip the cached summary and call the model even if nothing changed
+  regenerate?: boolean;
+};
+
+// Shown instead of the success message when the summary came from the cache
+const CACHED_SUMMARY_MESSAGE = '聊天内容和选项都没有变化，已显示之前生成的总结';
+
 interface UseChatSummaryOptions {
   groupId?: string;
   autoFetch?: boolean;
@@ -20,29 +32,21 @@ interface UseChatSummaryReturn {
   isLoading: boolean;
   isFetchingSummaries: boolean;
   isGenerating: boolean;
+  // Summary text received so far while a summary is streaming
+  streamingContent: string;
+  // Per-chunk progress when a long chat is summarized in parts
+  progress: SummaryProgress | null;
   
   // Error states
   error: Error | null;
+  // Why the model call failed (auth, quota, timeout, content...), null for other errors
+  errorKind: LLMErrorKind | null;
   
   // Actions
-  generateSummary: (startDate: Date, endDate: Date, options?: {
-    maxTokens?: number;
-    temperature?: number;
-    language?: 'zh' | 'en';
-    detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-  }) => Promise<ChatSummary>;
-  generateTodaySummary: (options?: {
-    maxTokens?: number;
-    temperature?: number;
-    language?: 'zh' | 'en';
-    detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-  }) => Promise<ChatSummary>;
-  generateYesterdaySummary: (options?: {
-    maxTokens?: number;
-    temperature?: number;
-    language?: 'zh' | 'en';
-    detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-  }) => Promise<ChatSummary>;
+  generateSummary: (startDate: Date, endDate: Date, options?: SummaryGenerationOptions) => Promise<ChatSummary>;
+  stopGeneration: () => void;
+  generateTodaySummary: (options?: SummaryGenerationOptions) => Promise<ChatSummary>;
+  generateYesterdaySummary: (options?: SummaryGenerationOptions) => Promise<ChatSummary>;
   deleteSummary: (summaryId: string) => Promise<boolean>;
   generatePoster: (summaryId: string, options?: {
     style?: 'formal' | 'casual' | 'creative';
@@ -61,6 +65,24 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
   // States
   const [currentSummary, setCurrentSummary] = useState<ChatSummary | null>(null);
   const [error, setError] = useState<Error | null>(null);
+  const [streamingContent, setStreamingContent] = useState('');
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  // Controllers of in-flight model requests, aborted by stopGeneration
+  const abortControllersRef = useRef(new Set<AbortController>());
+  // Latest group, so results that finish after switching groups are not shown
+  const groupIdRef = useRef(groupId);
+  groupIdRef.current = groupId;
+
+  // Run a request that stopGeneration, switching groups or unmounting can abort
+  const runAbortable = useCallback(async <T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    abortControllersRef.current.add(controller);
+    try {
+      return await task(controller.signal);
+    } finally {
+      abortControllersRef.current.delete(controller);
+    }
+  }, []);
 
   // Query for fetching group details
   const {
@@ -119,22 +141,54 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
       endDate: Date; 
       options?: any 
     }) => {
-      return summaryService.generateSummary(groupId, startDate, endDate, options);
+      // Stream the summary so the text shows up while it is being generated
+      setStreamingContent('');
+      setProgress(null);
+      try {
+        return await runAbortable(signal => summaryService.generateSummary(groupId, startDate, endDate, {
+          ...options,
+          onToken: (_token: string, content: string) => setStreamingContent(content),
+          onProgress: setProgress,
+          signal,
+        }));
+      } finally {
+        setProgress(null);
+      }
     },
     {
       onSuccess: (newSummary) => {
-        setCurrentSummary(newSummary);
+        setStreamingContent('');
         // Invalidate and refetch summaries
-        queryClient.invalidateQueries(['chatSummaries', groupId]);
-        addNotification('success', '总结生成成功');
+        queryClient.invalidateQueries(['chatSummaries', newSummary.groupId]);
+        // The user switched to another group while this one was finishing
+        if (newSummary.groupId !== groupIdRef.current) return;
+        setCurrentSummary(newSummary);
+        if (newSummary.fromCache) {
+          addNotification('info', CACHED_SUMMARY_MESSAGE);
+        } else {
+          addNotification('success', '总结生成成功');
+        }
       },
       onError: (err: Error) => {
+        setStreamingContent('');
+        if (err.name === 'AbortError') {
+          addNotification('info', '已停止生成总结');
+          return;
+        }
         setError(err);
         addNotification('error', `总结生成失败: ${err.message}`);
       },
     }
   );
 
+  // Abort summary and poster generation; nothing is saved for a stopped summary
+  const stopGeneration = useCallback(() => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  // Stop in-flight requests when switching groups or when the component using the hook unmounts
+  useEffect(() => stopGeneration, [groupId, stopGeneration]);
+
   // Mutation for deleting summary
   const {
     mutateAsync: deleteSummaryAsync,
@@ -173,13 +227,17 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
       summaryId: string; 
       options?: any 
     }) => {
-      return summaryService.generatePosterContent(summaryId, options);
+      return runAbortable(signal => summaryService.generatePosterContent(summaryId, { ...options, signal }));
     },
     {
       onSuccess: () => {
         addNotification('success', '海报文案生成成功');
       },
       onError: (err: Error) => {
+        if (err.name === 'AbortError') {
+          addNotification('info', '已停止生成海报文案');
+          return;
+        }
         setError(err);
         addNotification('error', `海报文案生成失败: ${err.message}`);
       },
@@ -221,7 +279,9 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
         const result = await generateSummaryAsync({ groupId, startDate, endDate, options });
         return result;
       } catch (err) {
-        setError(err instanceof Error ? err : new Error('Failed to generate summary'));
+        if (!(err instanceof Error && err.name === 'AbortError')) {
+          setError(err instanceof Error ? err : new Error('Failed to generate summary'));
+        }
         throw err;
       }
     },
@@ -235,19 +295,31 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
       }
       
       try {
-        const result = await summaryService.generateTodaySummary(groupId, options);
-        setCurrentSummary(result);
+        const result = await runAbortable(signal =>
+          summaryService.generateTodaySummary(groupId, { ...options, signal })
+        );
         // Invalidate and refetch summaries
         queryClient.invalidateQueries(['chatSummaries', groupId]);
-        addNotification('success', '今日总结生成成功');
+        if (groupId === groupIdRef.current) {
+          setCurrentSummary(result);
+          if (result.fromCache) {
+            addNotification('info', CACHED_SUMMARY_MESSAGE);
+          } else {
+            addNotification('success', '今日总结生成成功');
+          }
+        }
         return result;
       } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          addNotification('info', '已停止生成总结');
+          throw err;
+        }
         setError(err instanceof Error ? err : new Error('Failed to generate today summary'));
         addNotification('error', `今日总结生成失败: ${err instanceof Error ? err.message : 'Unknown error'}`);
         throw err;
       }
     },
-    [groupId, queryClient, addNotification]
+    [groupId, queryClient, addNotification, runAbortable]
   );
 
   const generateYesterdaySummary = useCallback(
@@ -257,19 +329,31 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
       }
       
       try {
-        const result = await summaryService.generateYesterdaySummary(groupId, options);
-        setCurrentSummary(result);
+        const result = await runAbortable(signal =>
+          summaryService.generateYesterdaySummary(groupId, { ...options, signal })
+        );
         // Invalidate and refetch summaries
         queryClient.invalidateQueries(['chatSummaries', groupId]);
-        addNotification('success', '昨日总结生成成功');
+        if (groupId === groupIdRef.current) {
+          setCurrentSummary(result);
+          if (result.fromCache) {
+            addNotification('info', CACHED_SUMMARY_MESSAGE);
+          } else {
+            addNotification('success', '昨日总结生成成功');
+          }
+        }
         return result;
       } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') {
+          addNotification('info', '已停止生成总结');
+          throw err;
+        }
         setError(err instanceof Error ? err : new Error('Failed to generate yesterday summary'));
         addNotification('error', `昨日总结生成失败: ${err instanceof Error ? err.message : 'Unknown error'}`);
         throw err;
       }
     },
-    [groupId, queryClient, addNotification]
+    [groupId, queryClient, addNotification, runAbortable]
   );
 
   const deleteSummary = useCallback(
@@ -304,8 +388,12 @@ export function useChatSummary(options: UseChatSummaryOptions = {}): UseChatSumm
     isLoading,
     isFetchingSummaries,
     isGenerating,
+    streamingContent,
+    progress,
     error,
+    errorKind: getLLMErrorKind(error),
     generateSummary,
+    stopGeneration,
     generateTodaySummary,
     generateYesterdaySummary,
     deleteSummary,
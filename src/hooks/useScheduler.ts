@@ -1,5 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
+import { taskRepository } from '../services/storage';
+import usageService from '../services/usageService';
+
+// 旧版本保存任务配置的localStorage键，读取后迁移到本地数据库
+const LEGACY_TASKS_KEY = 'scheduler_tasks';
 
 interface SchedulerTask {
   id: string;
@@ -36,36 +41,37 @@ export function useScheduler(options: SchedulerOptions = {}) {
   const { addNotification } = useAppContext();
   const timerRef = useRef<number | null>(null);
   
-  // 从localStorage加载任务配置
-  const loadTasks = useCallback(() => {
+  // 从本地数据库加载任务配置，首次加载时迁移localStorage中的旧配置
+  const loadTasks = useCallback(async () => {
     try {
-      const savedTasks = localStorage.getItem('scheduler_tasks');
-      if (savedTasks) {
-        const parsedTasks = JSON.parse(savedTasks);
+      const legacyTasks = localStorage.getItem(LEGACY_TASKS_KEY);
+      if (legacyTasks) {
+        const parsedTasks = JSON.parse(legacyTasks);
         // 转换字符串日期为Date对象
-        const processedTasks = parsedTasks.map((task: any) => ({
+        const processedTasks: SchedulerTask[] = parsedTasks.map((task: any) => ({
           ...task,
           nextRunTime: new Date(task.nextRunTime),
           lastRunTime: task.lastRunTime ? new Date(task.lastRunTime) : undefined,
           createdAt: new Date(task.createdAt),
           updatedAt: new Date(task.updatedAt)
         }));
-        setTasks(processedTasks);
+        await taskRepository.putMany(processedTasks);
+        localStorage.removeItem(LEGACY_TASKS_KEY);
       }
+
+      setTasks(await taskRepository.getAll());
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to load tasks'));
       addNotification('error', '加载任务配置失败');
     }
   }, [addNotification]);
   
-  // 保存任务配置到localStorage
+  // 保存任务配置到本地数据库
   const saveTasks = useCallback((updatedTasks: SchedulerTask[]) => {
-    try {
-      localStorage.setItem('scheduler_tasks', JSON.stringify(updatedTasks));
-    } catch (err) {
+    taskRepository.replaceAll(updatedTasks).catch(err => {
       setError(err instanceof Error ? err : new Error('Failed to save tasks'));
       addNotification('error', '保存任务配置失败');
-    }
+    });
   }, [addNotification]);
   
   // 添加新任务
@@ -248,16 +254,30 @@ export function useScheduler(options: SchedulerOptions = {}) {
     }
   }, [tasks, onTaskRun, updateTask, calculateNextRunTime, addNotification]);
   
-  // 检查并执行到期任务
-  const checkTasks = useCallback(() => {
+  // 检查并执行到期任务，花费达到预算上限时跳过本次执行
+  const checkTasks = useCallback(async () => {
     const now = new Date();
-    
-    tasks.forEach(task => {
-      if (task.isActive && task.nextRunTime <= now) {
-        runTask(task.id).catch(console.error);
-      }
+    const dueTasks = tasks.filter(task => task.isActive && task.nextRunTime <= now);
+    if (dueTasks.length === 0) return;
+
+    const budget = await usageService.getBudgetStatus(now).catch(err => {
+      console.error('Failed to check budget:', err);
+      return null;
+    });
+    if (budget?.level === 'exceeded') {
+      dueTasks.forEach(task => updateTask(task.id, {
+        lastRunTime: now,
+        lastRunStatus: 'failure',
+        nextRunTime: calculateNextRunTime(task)
+      }));
+      addNotification('warning', `已达到花费预算上限，跳过了${dueTasks.length}个定时任务`);
+      return;
+    }
+
+    dueTasks.forEach(task => {
+      runTask(task.id).catch(console.error);
     });
-  }, [tasks, runTask]);
+  }, [tasks, runTask, updateTask, calculateNextRunTime, addNotification]);
   
   // 启动调度器
   const startScheduler = useCallback(() => {
@@ -326,4 +346,4 @@ export function useScheduler(options: SchedulerOptions = {}) {
 }
 
 export default useScheduler;
-</file_content__>
+</file_content__>
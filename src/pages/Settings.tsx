@@ -1,8 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import {
   Cog6ToothIcon,
-  KeyIcon,
   PaintBrushIcon,
   BellIcon,
   DocumentDuplicateIcon,
@@ -14,22 +13,19 @@ import {
   ComputerDesktopIcon
 } from '@heroicons/react/24/outline';
 import { useAppContext } from '../context/AppContext';
-import deepseekService from '../services/deepseekService';
+import APISettings from '../components/Settings/APISettings';
+import PromptTemplateSettings from '../components/Settings/PromptTemplateSettings';
+import SenderIdentities from '../components/Chat/SenderIdentities';
+import retentionService from '../services/retentionService';
+import exportService from '../services/exportService';
+import backupService from '../services/backupService';
+import wechatService from '../services/wechatService';
+import type { BackupRestoreMode, ChatGroup, ExportFormat, RetentionPeriod, RetentionReport } from '../types';
+import { formatDate } from '../utils/dateUtils';
 
 // Settings page component
 const Settings: React.FC = () => {
-  const { theme, setTheme } = useAppContext();
-
-  // API settings
-  const [apiKey, setApiKey] = useState<string>('');
-  const [isSavingKey, setIsSavingKey] = useState(false);
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [apiKeyValid, setApiKeyValid] = useState<boolean | null>(null);
-  const [apiQuota, setApiQuota] = useState<{
-    used: number;
-    total: number;
-    remaining: number;
-  } | null>(null);
+  const { theme, setTheme, addNotification } = useAppContext();
 
   // UI settings
   const [selectedTheme, setSelectedTheme] = useState<'light' | 'dark' | 'system'>(theme || 'system');
@@ -43,22 +39,25 @@ const Settings: React.FC = () => {
   const [soundEnabled, setSoundEnabled] = useState(true);
 
   // Data management
-  const [exportFormat, setExportFormat] = useState<'json' | 'csv' | 'txt'>('json');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [exportGroupId, setExportGroupId] = useState<string>('all');
+  const [exportStartDate, setExportStartDate] = useState('');
+  const [exportEndDate, setExportEndDate] = useState('');
+  const [groups, setGroups] = useState<ChatGroup[]>([]);
+  const [identityGroupId, setIdentityGroupId] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('merge');
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
   const [clearingSummaries, setClearingSummaries] = useState(false);
-  const [dataRetentionPeriod, setDataRetentionPeriod] = useState<'7' | '30' | '90' | 'forever'>('30');
+  const [dataRetentionPeriod, setDataRetentionPeriod] = useState<RetentionPeriod>('forever');
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
 
-  // Get API key from environment or local storage on mount
+  // Get settings from localStorage on mount
   useEffect(() => {
-    const storedApiKey = localStorage.getItem('deepseek_api_key') || import.meta.env.VITE_DEEPSEEK_API_KEY || '';
-    setApiKey(storedApiKey);
-
-    // Check API key validity
-    if (storedApiKey) {
-      checkApiKeyValidity(storedApiKey);
-      fetchApiQuota();
-    }
-
-    // Get other settings from localStorage if available
     const storedTheme = localStorage.getItem('theme') as 'light' | 'dark' | 'system' || 'system';
     const storedFontSize = localStorage.getItem('fontSize') as 'small' | 'medium' | 'large' || 'medium';
     const storedAnimationsEnabled = localStorage.getItem('animationsEnabled') !== 'false';
@@ -66,8 +65,8 @@ const Settings: React.FC = () => {
     const storedSummaryNotifications = localStorage.getItem('summarySummaryNotifications') !== 'false';
     const storedPosterNotifications = localStorage.getItem('posterNotifications') !== 'false';
     const storedSoundEnabled = localStorage.getItem('soundEnabled') !== 'false';
-    const storedExportFormat = localStorage.getItem('exportFormat') as 'json' | 'csv' | 'txt' || 'json';
-    const storedRetentionPeriod = localStorage.getItem('dataRetentionPeriod') as '7' | '30' | '90' | 'forever' || '30';
+    const storedExportFormat = localStorage.getItem('exportFormat') as ExportFormat || 'json';
+    const storedRetentionPeriod = retentionService.getRetentionPeriod();
 
     setSelectedTheme(storedTheme);
     setFontSize(storedFontSize);
@@ -80,48 +79,18 @@ const Settings: React.FC = () => {
     setDataRetentionPeriod(storedRetentionPeriod);
   }, []);
 
-  // Check if API key is valid
-  const checkApiKeyValidity = async (key: string) => {
-    // This would typically involve making a test API call to verify the key
-    try {
-      setApiKeyValid(null); // Loading state
-      const response = await fetch('https://api.deepseek.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${key}`
-        }
-      });
-      setApiKeyValid(response.ok);
-      return response.ok;
-    } catch (error) {
-      console.error('Error checking API key:', error);
-      setApiKeyValid(false);
-      return false;
-    }
-  };
-
-  // Fetch API quota information
-  const fetchApiQuota = async () => {
-    try {
-      const quota = await deepseekService.getApiQuota();
-      setApiQuota(quota);
-    } catch (error) {
-      console.error('Error fetching API quota:', error);
-    }
-  };
-
-  // Save API key
-  const handleSaveApiKey = async () => {
-    setIsSavingKey(true);
-    const isValid = await checkApiKeyValidity(apiKey);
-
-    if (isValid) {
-      localStorage.setItem('deepseek_api_key', apiKey);
-      // Reload quota information
-      fetchApiQuota();
-    }
+  // Show the latest retention run and refresh when a new one completes
+  useEffect(() => {
+    setRetentionReport(retentionService.getLastReport());
+    return retentionService.subscribe(setRetentionReport);
+  }, []);
 
-    setIsSavingKey(false);
-  };
+  // Load groups for the export filter
+  useEffect(() => {
+    wechatService.getGroups()
+      .then(setGroups)
+      .catch(error => console.error('Error loading groups:', error));
+  }, []);
 
   // Handle theme change
   const handleThemeChange = (newTheme: 'light' | 'dark' | 'system') => {
@@ -188,9 +157,78 @@ const Settings: React.FC = () => {
   };
 
   // Handle data management
-  const handleExportData = () => {
-    // This would handle exporting data in the selected format
-    alert(`Exporting data in ${exportFormat} format`);
+  const handleExportFormatChange = (format: ExportFormat) => {
+    setExportFormat(format);
+    localStorage.setItem('exportFormat', format);
+  };
+
+  const handleExportData = async () => {
+    if (exportStartDate && exportEndDate && exportStartDate > exportEndDate) {
+      alert('开始日期不能晚于结束日期');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // Date inputs are local dates; the end date includes the whole day
+      const files = await exportService.createExport({
+        format: exportFormat,
+        groupIds: exportGroupId === 'all' ? undefined : [exportGroupId],
+        startDate: exportStartDate ? new Date(`${exportStartDate}T00:00:00`) : undefined,
+        endDate: exportEndDate ? new Date(`${exportEndDate}T23:59:59.999`) : undefined,
+      });
+      exportService.downloadFiles(files);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      alert('导出数据失败，请重试');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const file = await backupService.createBackup({ includeApiKey });
+      exportService.downloadFiles([file]);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('创建备份失败，请重试');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRestoreBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be chosen again
+    e.target.value = '';
+    if (!file) return;
+
+    const confirmMessage = restoreMode === 'replace'
+      ? '替换模式会清空当前所有数据和设置，再写入备份内容，是否继续？'
+      : '备份中的数据将与当前数据合并，相同的记录以备份为准，是否继续？';
+    if (!window.confirm(confirmMessage)) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await backupService.restoreBackup(await file.text(), restoreMode);
+      const { messages, groups, summaries, posters, scheduledTasks } = result.restored;
+      const skippedCount = Object.values(result.skipped).reduce((sum, count) => sum + count, 0);
+      alert(
+        `已恢复 ${groups} 个群聊、${messages} 条消息、${summaries} 条摘要、${posters} 张海报、` +
+        `${scheduledTasks} 个定时任务和 ${result.settings} 项设置` +
+        (skippedCount > 0 ? `，另有 ${skippedCount} 条格式不正确的记录已跳过` : '') +
+        '，页面将重新加载'
+      );
+      // Reload so every page picks up the restored data and settings
+      window.location.reload();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert(error instanceof Error ? `恢复备份失败：${error.message}` : '恢复备份失败');
+    } finally {
+      setIsRestoring(false);
+    }
   };
 
   const handleClearSummaries = () => {
@@ -202,9 +240,41 @@ const Settings: React.FC = () => {
     }, 1000);
   };
 
-  const handleChangeRetentionPeriod = (period: '7' | '30' | '90' | 'forever') => {
+  const handleChangeRetentionPeriod = async (period: RetentionPeriod) => {
+    if (period === dataRetentionPeriod) return;
+
+    // Ask before a shorter period deletes existing data
+    let preview: RetentionReport;
+    try {
+      preview = await retentionService.purgeExpired({ period, dryRun: true });
+    } catch (error) {
+      console.error('Error previewing expired data:', error);
+      addNotification('error', '无法统计将被清理的数据，保留期未修改');
+      return;
+    }
+    const { messages, summaries, posters } = preview.removed;
+    if (
+      messages + summaries + posters > 0 &&
+      !window.confirm(`缩短保留期将删除 ${messages} 条消息、${summaries} 条摘要和 ${posters} 张海报（已固定的内容会保留），是否继续？`)
+    ) {
+      return;
+    }
+
     setDataRetentionPeriod(period);
     localStorage.setItem('dataRetentionPeriod', period);
+    await handlePurgeNow();
+  };
+
+  const handlePurgeNow = async () => {
+    setIsPurging(true);
+    try {
+      await retentionService.purgeExpired();
+    } catch (error) {
+      console.error('Error purging expired data:', error);
+      addNotification('error', '清理过期数据失败');
+    } finally {
+      setIsPurging(false);
+    }
   };
 
   return (
@@ -220,103 +290,10 @@ const Settings: React.FC = () => {
       </div>
 
       {/* API Settings Section */}
-      <section className="bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800">
-        <div className="flex items-center mb-4">
-          <KeyIcon className="h-6 w-6 text-primary-500 mr-2" />
-          <h2 className="text-xl font-medium text-gray-900 dark:text-white">API 设置</h2>
-        </div>
+      <APISettings />
 
-        <div className="space-y-4">
-          <div>
-            <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Deepseek API 密钥
-            </label>
-            <div className="relative mt-1 rounded-md shadow-sm">
-              <input
-                type={showApiKey ? "text" : "password"}
-                id="apiKey"
-                name="apiKey"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="block w-full rounded-md border-gray-300 pr-10 focus:border-primary-500 focus:ring-primary-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
-                placeholder="sk-xxxxxxxxxxxxxxxxxxxxxxxx"
-              />
-              <button
-                type="button"
-                className="absolute inset-y-0 right-0 flex items-center pr-3"
-                onClick={() => setShowApiKey(!showApiKey)}
-              >
-                {showApiKey ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
-                    <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
-                    <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M3.707 2.293a1 1 0 00-1.414 1.414l14 14a1 1 0 001.414-1.414l-1.473-1.473A10.014 10.014 0 0019.542 10C18.268 5.943 14.478 3 10 3a9.958 9.958 0 00-4.512 1.074l-1.78-1.781zm4.261 4.26l1.514 1.515a2.003 2.003 0 012.45 2.45l1.514 1.514a4 4 0 00-5.478-5.478z" clipRule="evenodd" />
-                    <path d="M12.454 16.697L9.75 13.992a4 4 0 01-3.742-3.741L2.335 6.578A9.98 9.98 0 00.458 10c1.274 4.057 5.065 7 9.542 7 .847 0 1.669-.105 2.454-.303z" />
-                  </svg>
-                )}
-              </button>
-            </div>
-            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              设置您的 Deepseek API 密钥以启用摘要生成功能。
-              <a href="https://deepseek.com/api-keys" target="_blank" rel="noopener noreferrer" className="ml-1 text-primary-600 hover:text-primary-500 dark:text-primary-400">
-                获取 API 密钥
-              </a>
-            </p>
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div>
-              <span className="text-sm text-gray-700 dark:text-gray-300 inline-flex items-center">
-                API 状态：
-                {apiKeyValid === null ? (
-                  <span className="ml-2 text-gray-500 dark:text-gray-400">未验证</span>
-                ) : apiKeyValid ? (
-                  <span className="ml-2 text-green-500 flex items-center">
-                    <CheckIcon className="h-5 w-5 mr-1" />
-                    有效
-                  </span>
-                ) : (
-                  <span className="ml-2 text-red-500">无效</span>
-                )}
-              </span>
-            </div>
-            <button
-              type="button"
-              onClick={handleSaveApiKey}
-              disabled={isSavingKey || !apiKey}
-              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
-            >
-              {isSavingKey ? (
-                <>
-                  <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                  验证中...
-                </>
-              ) : (
-                '保存并验证'
-              )}
-            </button>
-          </div>
-
-          {apiQuota && (
-            <div className="mt-4 bg-gray-50 p-4 rounded-md dark:bg-gray-700">
-              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">API 配额使用情况</h3>
-              <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-600">
-                <div
-                  className="bg-primary-600 h-2.5 rounded-full"
-                  style={{ width: `${(apiQuota.used / apiQuota.total) * 100}%` }}
-                ></div>
-              </div>
-              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
-                <span>已使用: {apiQuota.used} 次请求</span>
-                <span>总计: {apiQuota.total} 次请求</span>
-              </div>
-            </div>
-          )}
-        </div>
-      </section>
+      {/* Prompt Template Section */}
+      <PromptTemplateSettings />
 
       {/* UI Settings Section */}
       <section className="bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800">
@@ -587,7 +564,27 @@ const Settings: React.FC = () => {
         </div>
       </section>
 
-      {/* Data Management Section */}
+      {/* Sender Identity Section, managed per group */}
+      {groups.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-end text-sm text-gray-700 dark:text-gray-300">
+            <label htmlFor="identity-group" className="mr-2">管理发送者身份的群聊</label>
+            <select
+              id="identity-group"
+              value={identityGroupId || groups[0].id}
+              onChange={(e) => setIdentityGroupId(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          </div>
+          <SenderIdentities groupId={identityGroupId || groups[0].id} />
+        </div>
+      )}
+
+            {/* Data Management Section */}
       <section className="bg-white rounded-lg shadow-sm p-6 dark:bg-gray-800">
         <div className="flex items-center mb-4">
           <DocumentDuplicateIcon className="h-6 w-6 text-primary-500 mr-2" />
@@ -601,7 +598,7 @@ const Settings: React.FC = () => {
                 导出数据
               </h3>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                将您的摘要数据导出为文件
+                导出群聊、消息、摘要和定时任务，JSON和TXT文件中的消息可以重新导入
               </p>
             </div>
             <div className="flex items-center space-x-2">
@@ -612,7 +609,7 @@ const Settings: React.FC = () => {
               ].map((format) => (
                 <button
                   key={format.value}
-                  onClick={() => setExportFormat(format.value as 'json' | 'csv' | 'txt')}
+                  onClick={() => handleExportFormatChange(format.value as ExportFormat)}
                   className={`px-3 py-1 text-xs rounded-md ${
                     exportFormat === format.value
                       ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
@@ -625,13 +622,41 @@ const Settings: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={exportGroupId}
+              onChange={(e) => setExportGroupId(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="all">全部群聊</option>
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={exportStartDate}
+              max={exportEndDate || undefined}
+              onChange={(e) => setExportStartDate(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+            <span className="text-gray-500 dark:text-gray-400">至</span>
+            <input
+              type="date"
+              value={exportEndDate}
+              min={exportStartDate || undefined}
+              onChange={(e) => setExportEndDate(e.target.value)}
+              className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <div>
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 数据保留期
               </h3>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                设置摘要数据的保留时间
+                默认永久保留；选择保留期后，超过保留期的消息、摘要和海报会被自动清理，已固定的内容除外
               </p>
             </div>
             <div className="flex items-center space-x-2">
@@ -643,7 +668,7 @@ const Settings: React.FC = () => {
               ].map((period) => (
                 <button
                   key={period.value}
-                  onClick={() => handleChangeRetentionPeriod(period.value as '7' | '30' | '90' | 'forever')}
+                  onClick={() => handleChangeRetentionPeriod(period.value as RetentionPeriod)}
                   className={`px-3 py-1 text-xs rounded-md ${
                     dataRetentionPeriod === period.value
                       ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
@@ -656,13 +681,107 @@ const Settings: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+            <p>
+              {retentionReport ? (
+                <>
+                  上次清理：{formatDate(retentionReport.runAt, 'yyyy-MM-dd HH:mm')}，删除了 {retentionReport.removed.messages} 条消息、
+                  {retentionReport.removed.summaries} 条摘要、{retentionReport.removed.posters} 张海报
+                  {retentionReport.keptPinned.messages + retentionReport.keptPinned.summaries + retentionReport.keptPinned.posters > 0 &&
+                    `，保留了 ${retentionReport.keptPinned.messages + retentionReport.keptPinned.summaries + retentionReport.keptPinned.posters} 项已固定的内容`}
+                </>
+              ) : (
+                '尚未执行过清理'
+              )}
+            </p>
+            <button
+              onClick={handlePurgeNow}
+              disabled={isPurging || dataRetentionPeriod === 'forever'}
+              className="ml-4 flex-shrink-0 text-primary-600 hover:text-primary-700 disabled:opacity-50 dark:text-primary-400"
+            >
+              {isPurging ? '清理中...' : '立即清理'}
+            </button>
+          </div>
+
+          <div className="pt-4 space-y-3 border-t border-gray-200 dark:border-gray-700">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                备份与恢复
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                将所有群聊、消息、摘要、海报、定时任务和设置打包为一个备份文件，可以在其他设备上恢复
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="inline-flex items-center text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeApiKey}
+                  onChange={(e) => setIncludeApiKey(e.target.checked)}
+                  className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                备份中包含API密钥
+              </label>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-500 dark:text-gray-400">恢复方式</span>
+                {[
+                  { value: 'merge', label: '合并' },
+                  { value: 'replace', label: '替换' },
+                ].map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setRestoreMode(mode.value as BackupRestoreMode)}
+                    className={`px-3 py-1 text-xs rounded-md ${
+                      restoreMode === mode.value
+                        ? 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200'
+                        : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleCreateBackup}
+                disabled={isBackingUp}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+              >
+                {isBackingUp ? '备份中...' : '创建备份'}
+              </button>
+              <button
+                onClick={() => backupInputRef.current?.click()}
+                disabled={isRestoring}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+              >
+                {isRestoring ? '恢复中...' : '从备份恢复'}
+              </button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleRestoreBackup}
+                className="hidden"
+              />
+            </div>
+          </div>
+
           <div className="pt-4 flex items-center justify-between border-t border-gray-200 dark:border-gray-700">
             <div>
               <button
                 onClick={handleExportData}
-                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-primary-700 bg-primary-100 hover:bg-primary-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 dark:bg-primary-900 dark:text-primary-200 dark:hover:bg-primary-800"
+                disabled={isExporting}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-primary-700 bg-primary-100 hover:bg-primary-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 dark:bg-primary-900 dark:text-primary-200 dark:hover:bg-primary-800"
               >
-                导出数据
+                {isExporting ? (
+                  <>
+                    <ArrowPathIcon className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                    导出中...
+                  </>
+                ) : (
+                  '导出数据'
+                )}
               </button>
             </div>
             <div>
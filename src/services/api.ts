@@ -1,9 +1,37 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { llmSettingsStore, parseRetryAfter } from './llm';
+import type { LLMProviderConfig } from '../types';
+import { getBackoffDelay, sleep } from '../utils/retry';
 
 // API基础URL配置，可以从环境变量中获取
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
-const DEEPSEEK_API_URL = import.meta.env.VITE_DEEPSEEK_API_URL || 'https://api.deepseek.com/v1';
-const DEEPSEEK_API_KEY = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
+
+// 限流和服务端错误的最多重试次数
+const MAX_RETRIES = 3;
+// 服务端要求等待的时间超过这个值时不再重试
+const MAX_RETRY_AFTER_MS = 60000;
+// 服务端出错时可以安全重试的请求方法；429表示请求未被处理，任何方法都可以重试
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { retryCount?: number };
+
+/**
+ * 计算失败请求的重试等待时间，不应重试时返回null
+ */
+const getRetryDelay = (error: AxiosError): number | null => {
+  const config = error.config as RetryableRequestConfig | undefined;
+  if (!config || (config.retryCount ?? 0) >= MAX_RETRIES) return null;
+
+  const status = error.response?.status;
+  const isIdempotent = IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase());
+  const shouldRetry = status === 429 || (isIdempotent && (status === undefined || status >= 500));
+  if (!shouldRetry) return null;
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'] ?? null);
+  if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) return null;
+  return Math.max(getBackoffDelay(config.retryCount ?? 0, 1000, 20000), retryAfter ?? 0);
+};
 
 // API响应数据接口
 export interface ApiResponseData<T = any> {
@@ -37,11 +65,6 @@ const createApiInstance = (baseURL: string, config?: AxiosRequestConfig): AxiosI
         config.headers = {};
       }
 
-      // 如果使用DeepSeek API，添加API密钥
-      if (config.baseURL === DEEPSEEK_API_URL && DEEPSEEK_API_KEY) {
-        config.headers['Authorization'] = `Bearer ${DEEPSEEK_API_KEY}`;
-      }
-
       // 添加其他自定义认证头，例如JWT令牌（如果有）
       // const token = localStorage.getItem('authToken');
       // if (token) {
@@ -61,7 +84,26 @@ const createApiInstance = (baseURL: string, config?: AxiosRequestConfig): AxiosI
       // 直接返回响应数据
       return response.data;
     },
-    (error: AxiosError) => {
+    async (error: AxiosError) => {
+      // 通过signal取消的请求以AbortError拒绝，调用方据此区分取消和失败
+      if (error.code === 'ERR_CANCELED') {
+        return Promise.reject(new DOMException('请求已取消', 'AbortError'));
+      }
+
+      // 限流、服务端错误和网络错误按指数退避重试，优先遵守服务端的Retry-After
+      const retryDelay = getRetryDelay(error);
+      if (retryDelay !== null) {
+        const config = error.config as RetryableRequestConfig;
+        config.retryCount = (config.retryCount ?? 0) + 1;
+        console.warn(`API请求失败，${Math.round(retryDelay / 1000)}秒后第${config.retryCount}次重试`);
+        try {
+          await sleep(retryDelay, config.signal as AbortSignal | undefined);
+        } catch (abortError) {
+          return Promise.reject(abortError);
+        }
+        return instance.request(config);
+      }
+
       // 处理错误响应
       if (error.response) {
         // 服务器返回错误状态码
@@ -81,6 +123,9 @@ const createApiInstance = (baseURL: string, config?: AxiosRequestConfig): AxiosI
           case 404:
             console.error('API Error: Resource not found');
             break;
+          case 429:
+            console.error('API Error: Too many requests');
+            break;
           case 500:
             console.error('API Error: Internal server error');
             break;
@@ -129,10 +174,23 @@ const createApiInstance = (baseURL: string, config?: AxiosRequestConfig): AxiosI
 // 创建默认API实例
 export const api = createApiInstance(API_BASE_URL);
 
-// 创建DeepSeek API实例
-export const deepseekApi = createApiInstance(DEEPSEEK_API_URL);
+// 创建DeepSeek API实例，端点和密钥来自API设置
+export const deepseekApi = createApiInstance(llmSettingsStore.getSettings().providers.deepseek.apiUrl);
+
+const applyDeepseekConfig = ({ apiUrl, apiKey }: LLMProviderConfig) => {
+  deepseekApi.defaults.baseURL = apiUrl;
+  if (apiKey) {
+    deepseekApi.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
+  } else {
+    delete deepseekApi.defaults.headers.common['Authorization'];
+  }
+};
+
+// 在设置中修改端点或密钥后立即生效
+applyDeepseekConfig(llmSettingsStore.getSettings().providers.deepseek);
+llmSettingsStore.subscribe(settings => applyDeepseekConfig(settings.providers.deepseek));
 
-// 通用请求方法
+// 通用请求方法，失败时返回包含错误信息的响应；通过config.signal取消时抛出AbortError
 export const apiRequest = {
   // GET请求
   get: async <T = any>(
@@ -147,6 +205,7 @@ export const apiRequest = {
       });
       return response as ApiResponseData<T>;
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') throw error;
       return error as ApiResponseData<T>;
     }
   },
@@ -161,6 +220,7 @@ export const apiRequest = {
       const response = await api.post<ApiResponseData<T>>(url, data, config);
       return response as ApiResponseData<T>;
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') throw error;
       return error as ApiResponseData<T>;
     }
   },
@@ -175,6 +235,7 @@ export const apiRequest = {
       const response = await api.put<ApiResponseData<T>>(url, data, config);
       return response as ApiResponseData<T>;
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') throw error;
       return error as ApiResponseData<T>;
     }
   },
@@ -188,6 +249,7 @@ export const apiRequest = {
       const response = await api.delete<ApiResponseData<T>>(url, config);
       return response as ApiResponseData<T>;
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') throw error;
       return error as ApiResponseData<T>;
     }
   },
@@ -202,6 +264,7 @@ export const apiRequest = {
       const response = await api.patch<ApiResponseData<T>>(url, data, config);
       return response as ApiResponseData<T>;
     } catch (error) {
+      if ((error as Error)?.name === 'AbortError') throw error;
       return error as ApiResponseData<T>;
     }
   },
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatGroup, ChatMessage } from '../types';
+import backupService, { BACKUP_FORMAT_ID, BACKUP_VERSION } from './backupService';
+import wechatService from './wechatService';
+import { groupRepository, messageRepository } from './storage';
+import { createMessageId } from '../utils/messageIdentity';
+
+const API_SETTINGS = JSON.stringify({
+  provider: 'deepseek',
+  providers: { deepseek: { apiUrl: 'https://api.deepseek.com/v1', apiKey: 'sk-local', model: 'deepseek-chat' } },
+});
+
+let group: ChatGroup;
+
+const createMessage = (minute: number, content: string): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 10, minute);
+  return {
+    id: createMessageId(group.id, 'a', timestamp, content),
+    sender: '张三',
+    senderId: 'a',
+    content,
+    timestamp,
+    type: 'text',
+    groupId: group.id,
+  };
+};
+
+/**
+ * 按版本1的格式生成备份，版本1中还没有用量记录和发送者身份
+ */
+const createVersionOneBackup = (stores: Record<string, unknown[]>): string => JSON.stringify({
+  format: BACKUP_FORMAT_ID,
+  version: 1,
+  createdAt: '2024-01-15T10:00:00.000Z',
+  stores: { messages: [], groups: [], summaries: [], posters: [], scheduledTasks: [], ...stores },
+  settings: { theme: 'dark' },
+});
+
+describe('backupService', () => {
+  beforeEach(async () => {
+    group = await wechatService.createGroup(`备份群${Math.random()}`);
+    await wechatService.importMessages(group.id, [createMessage(0, '早上好'), createMessage(1, '收到')]);
+    localStorage.setItem('apiSettings', API_SETTINGS);
+  });
+
+  it('leaves the API keys out of the backup unless asked to include them', async () => {
+    const withoutKey = JSON.parse((await backupService.createBackup()).content);
+    const withKey = JSON.parse((await backupService.createBackup({ includeApiKey: true })).content);
+
+    expect(withoutKey.version).toBe(BACKUP_VERSION);
+    expect(JSON.parse(withoutKey.settings.apiSettings).providers.deepseek).toEqual({
+      apiUrl: 'https://api.deepseek.com/v1',
+      model: 'deepseek-chat',
+    });
+    expect(JSON.parse(withKey.settings.apiSettings).providers.deepseek.apiKey).toBe('sk-local');
+  });
+
+  it('restores a backup over the local data in replace mode', async () => {
+    const backup = await backupService.createBackup();
+    await messageRepository.clear();
+    await groupRepository.delete(group.id);
+    localStorage.setItem('theme', 'dark');
+
+    const result = await backupService.restoreBackup(backup.content, 'replace');
+
+    expect(result.sourceVersion).toBe(BACKUP_VERSION);
+    expect(result.skipped.messages).toBe(0);
+    const messages = await wechatService.getGroupMessages(group.id);
+    expect(messages.map(message => message.content)).toEqual(['早上好', '收到']);
+    expect(messages[0].timestamp).toEqual(new Date(2024, 0, 15, 10, 0));
+    expect((await groupRepository.get(group.id))?.createdAt).toBeInstanceOf(Date);
+    // 设置被备份中的设置替换，备份中没有的密钥保留本地的值
+    expect(localStorage.getItem('theme')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('apiSettings')!).providers.deepseek.apiKey).toBe('sk-local');
+  });
+
+  it('adds only the missing messages to the message count in merge mode', async () => {
+    const backup = createVersionOneBackup({
+      messages: [createMessage(1, '收到'), createMessage(2, '明天见')],
+    });
+
+    const result = await backupService.restoreBackup(backup, 'merge');
+
+    expect(result.restored.messages).toBe(2);
+    expect((await groupRepository.get(group.id))?.messageCount).toBe(3);
+    expect(await wechatService.getGroupMessages(group.id)).toHaveLength(3);
+  });
+
+  it('upgrades a version 1 backup and skips malformed records', async () => {
+    const backup = createVersionOneBackup({
+      messages: [createMessage(3, '补充'), { id: 'no_time', groupId: group.id }, 'not a record'],
+    });
+
+    const result = await backupService.restoreBackup(backup, 'merge');
+
+    expect(result.sourceVersion).toBe(1);
+    expect(result.restored).toMatchObject({ messages: 1, usageRecords: 0, identityMappings: 0 });
+    expect(result.skipped.messages).toBe(2);
+    expect(localStorage.getItem('theme')).toBe('dark');
+  });
+
+  it('rejects files that are not backups or come from a newer version', async () => {
+    await expect(backupService.restoreBackup('{', 'merge')).rejects.toThrow('备份文件不是有效的JSON');
+    await expect(backupService.restoreBackup('{"format":"other"}', 'merge')).rejects.toThrow('不是本应用的备份文件');
+    await expect(
+      backupService.restoreBackup(JSON.stringify({ format: BACKUP_FORMAT_ID, version: BACKUP_VERSION + 1 }), 'merge')
+    ).rejects.toThrow('请升级应用后再恢复');
+  });
+});
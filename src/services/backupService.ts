@@ -0,0 +1,397 @@
+import type {
+  BackupArchive,
+  BackupRestoreMode,
+  BackupRestoreResult,
+  BackupStores,
+  ChatGroup,
+  ChatMessage,
+  ChatSummary,
+  ExportFile,
+  GeneratedPoster,
+  IdentityMapping,
+  ScheduledTask,
+  UsageRecord,
+} from '../types';
+import { openDatabase, requestToPromise, transactionToPromise, STORE_NAMES } from './storage';
+import { llmSettingsStore } from './llm';
+import promptTemplateService from './promptTemplateService';
+import usageService from './usageService';
+import identityService from './identityService';
+import { formatDate } from '../utils/dateUtils';
+import { isRecord } from '../utils/typeGuards';
+
+// 备份文件的格式标识，恢复时据此识别
+export const BACKUP_FORMAT_ID = 'wechat-chat-summary-backup';
+
+// 备份中包含的localStorage设置
+const SETTING_KEYS = [
+  'apiSettings',
+  'promptTemplates',
+  'usageSettings',
+  'scheduler_tasks',
+  'theme',
+  'themeSettings',
+  'fontSize',
+  'animationsEnabled',
+  'notificationsEnabled',
+  'summarySummaryNotifications',
+  'posterNotifications',
+  'soundEnabled',
+  'exportFormat',
+  'dataRetentionPeriod',
+];
+const API_SETTINGS_KEY = 'apiSettings';
+
+type JsonRecord = Record<string, unknown>;
+
+/**
+ * 按版本顺序排列的备份格式升级，第N项把备份从版本N升级到版本N+1
+ * 修改备份格式时只能追加新的升级步骤，旧版本的备份在恢复时依次升级到当前版本
+ */
+const migrations: ((archive: JsonRecord) => JsonRecord)[] = [
+  // 版本2增加了用量记录和发送者身份，旧备份中没有这些数据
+  archive => {
+    const stores = isRecord(archive.stores) ? archive.stores : {};
+    return {
+      ...archive,
+      stores: {
+        ...stores,
+        usageRecords: stores.usageRecords ?? [],
+        identityMappings: stores.identityMappings ?? [],
+      },
+    };
+  },
+];
+
+export const BACKUP_VERSION = migrations.length + 1;
+
+/**
+ * 将JSON中的日期字符串转换为Date对象，无效时返回null
+ */
+const toDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * JSON中的日期为字符串，恢复时按各类数据的日期字段转换回Date对象
+ * 缺少必需字段或日期无效的记录返回null，恢复时跳过
+ */
+const reviveRecords: { [K in keyof BackupStores]: (record: JsonRecord) => BackupStores[K][number] | null } = {
+  messages: record => {
+    const timestamp = toDate(record.timestamp);
+    if (!timestamp || typeof record.groupId !== 'string') return null;
+    return { ...record, timestamp } as unknown as ChatMessage;
+  },
+  groups: record => {
+    const createdAt = toDate(record.createdAt);
+    const lastActiveAt = toDate(record.lastActiveAt);
+    const members = record.members ?? [];
+    if (!createdAt || !lastActiveAt || !Array.isArray(members) || !members.every(isRecord)) return null;
+    return {
+      ...record,
+      members: members.map(member => ({ ...member, joinedAt: toDate(member.joinedAt) ?? createdAt })),
+      createdAt,
+      lastActiveAt,
+    } as unknown as ChatGroup;
+  },
+  summaries: record => {
+    const generatedAt = toDate(record.generatedAt);
+    const timeRange = isRecord(record.timeRange) ? record.timeRange : {};
+    const start = toDate(timeRange.start);
+    const end = toDate(timeRange.end);
+    const citations = record.citations;
+    if (!generatedAt || !start || !end || typeof record.groupId !== 'string') return null;
+    if (citations !== undefined && (!Array.isArray(citations) || !citations.every(isRecord))) return null;
+    return {
+      ...record,
+      generatedAt,
+      timeRange: { start, end },
+      citations: citations?.map(citation => ({ ...citation, timestamp: toDate(citation.timestamp) ?? start })),
+    } as unknown as ChatSummary;
+  },
+  posters: record => {
+    const createdAt = toDate(record.createdAt);
+    if (!createdAt) return null;
+    return { ...record, createdAt } as unknown as GeneratedPoster;
+  },
+  scheduledTasks: record => {
+    const nextRunTime = toDate(record.nextRunTime);
+    const createdAt = toDate(record.createdAt);
+    const updatedAt = toDate(record.updatedAt);
+    if (!nextRunTime || !createdAt || !updatedAt) return null;
+    return {
+      ...record,
+      nextRunTime,
+      lastRunTime: toDate(record.lastRunTime) ?? undefined,
+      createdAt,
+      updatedAt,
+    } as unknown as ScheduledTask;
+  },
+  usageRecords: record => {
+    const createdAt = toDate(record.createdAt);
+    if (!createdAt) return null;
+    return { ...record, createdAt } as unknown as UsageRecord;
+  },
+  identityMappings: record => {
+    const updatedAt = toDate(record.updatedAt);
+    const { links, displayNames, dismissedSuggestions } = record;
+    if (!updatedAt || !isRecord(links) || !isRecord(displayNames) || !Array.isArray(dismissedSuggestions)) return null;
+    return { ...record, updatedAt } as unknown as IdentityMapping;
+  },
+};
+
+/**
+ * 备份服务 - 将本地数据库的所有数据和设置打包为一个带版本号的备份文件，并从备份恢复
+ */
+class BackupService {
+  /**
+   * 创建备份
+   * API密钥默认不包含在备份中，分享给他人的备份不会泄露密钥
+   */
+  async createBackup(options: { includeApiKey?: boolean } = {}): Promise<ExportFile> {
+    const { includeApiKey = false } = options;
+    const db = await openDatabase();
+    // 在同一个只读事务中读取所有数据，保证备份内容一致
+    const transaction = db.transaction(STORE_NAMES, 'readonly');
+    const records = await Promise.all(
+      STORE_NAMES.map(storeName => requestToPromise<unknown[]>(transaction.objectStore(storeName).getAll()))
+    );
+    const stores = Object.fromEntries(
+      STORE_NAMES.map((storeName, index) => [storeName, records[index]])
+    ) as unknown as BackupStores;
+
+    const settings: Record<string, string> = {};
+    SETTING_KEYS.forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) settings[key] = value;
+    });
+    if (!includeApiKey && settings[API_SETTINGS_KEY]) {
+      settings[API_SETTINGS_KEY] = this.withApiKeys(settings[API_SETTINGS_KEY], {});
+    }
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT_ID,
+      version: BACKUP_VERSION,
+      createdAt: new Date(),
+      stores,
+      settings,
+    };
+
+    return {
+      fileName: `wechat-backup-${formatDate(archive.createdAt, 'yyyyMMdd-HHmm')}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(archive),
+    };
+  }
+
+  /**
+   * 解析并校验备份文件，旧版本的备份会升级到当前版本
+   * 格式不正确的记录会被跳过，skipped中为各类数据跳过的数量
+   */
+  parseBackup(content: string): {
+    archive: BackupArchive;
+    sourceVersion: number;
+    skipped: BackupRestoreResult['skipped'];
+  } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('备份文件不是有效的JSON');
+    }
+
+    if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT_ID) {
+      throw new Error('不是本应用的备份文件');
+    }
+
+    const sourceVersion = parsed.version;
+    if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 1) {
+      throw new Error('备份文件的版本号无效');
+    }
+    if (sourceVersion > BACKUP_VERSION) {
+      throw new Error(`备份文件由更新版本的应用创建（版本${sourceVersion}），请升级应用后再恢复`);
+    }
+
+    let data = parsed;
+    for (let version = sourceVersion; version < BACKUP_VERSION; version++) {
+      data = migrations[version - 1](data);
+    }
+
+    const archivedStores = isRecord(data.stores) ? data.stores : {};
+    const stores = {} as Record<keyof BackupStores, unknown[]>;
+    const skipped = {} as BackupRestoreResult['skipped'];
+    STORE_NAMES.forEach(storeName => {
+      const records = archivedStores[storeName] ?? [];
+      if (!Array.isArray(records)) {
+        throw new Error(`备份文件中的${storeName}数据格式不正确`);
+      }
+      const revived = records.map(record =>
+        isRecord(record) && typeof record.id === 'string' ? reviveRecords[storeName](record) : null
+      );
+      stores[storeName] = revived.filter(record => record !== null);
+      skipped[storeName] = records.length - stores[storeName].length;
+      if (skipped[storeName] > 0) {
+        console.warn(`备份文件中有${skipped[storeName]}条${storeName}数据格式不正确，已跳过`);
+      }
+    });
+
+    const settings: Record<string, string> = {};
+    Object.entries(isRecord(data.settings) ? data.settings : {}).forEach(([key, value]) => {
+      if (SETTING_KEYS.includes(key) && typeof value === 'string') settings[key] = value;
+    });
+
+    return {
+      archive: {
+        format: BACKUP_FORMAT_ID,
+        version: BACKUP_VERSION,
+        createdAt: toDate(data.createdAt) ?? new Date(),
+        stores: stores as unknown as BackupStores,
+        settings,
+      },
+      sourceVersion,
+      skipped,
+    };
+  }
+
+  /**
+   * 从备份恢复
+   * - merge：按ID合并，备份中的记录覆盖本地同ID的记录，本地其他数据保留
+   * - replace：清空本地数据和设置后写入备份内容
+   * 两种方式下，备份中没有API密钥时都保留本地的API密钥
+   */
+  async restoreBackup(content: string, mode: BackupRestoreMode): Promise<BackupRestoreResult> {
+    const { archive, sourceVersion, skipped } = this.parseBackup(content);
+
+    const db = await openDatabase();
+    // 所有数据在同一个事务中写入，任何一步失败都不会留下一半的数据
+    const transaction = db.transaction(STORE_NAMES, 'readwrite');
+    const mergedGroups = mode === 'merge' ? await this.getMergedGroups(transaction, archive.stores) : [];
+    // 读取完成后再等待事务，读取失败时直接抛出，不会留下无人处理的Promise
+    const completed = transactionToPromise(transaction);
+    STORE_NAMES.forEach(storeName => {
+      const store = transaction.objectStore(storeName);
+      if (mode === 'replace') store.clear();
+      (archive.stores[storeName] as { id: string }[]).forEach(record => store.put(record));
+    });
+    mergedGroups.forEach(group => transaction.objectStore('groups').put(group));
+    await completed;
+    identityService.reload();
+
+    this.restoreSettings(archive.settings, mode);
+
+    return {
+      mode,
+      sourceVersion,
+      restored: Object.fromEntries(
+        STORE_NAMES.map(storeName => [storeName, archive.stores[storeName].length])
+      ) as BackupRestoreResult['restored'],
+      skipped,
+      settings: Object.keys(archive.settings).length,
+    };
+  }
+
+  /**
+   * 计算合并后本地已有群聊的消息数：本地消息数加上备份中本地没有的消息数
+   * 本地没有的群聊直接使用备份中的记录
+   */
+  private async getMergedGroups(transaction: IDBTransaction, stores: BackupStores): Promise<ChatGroup[]> {
+    const groupIds = new Set([
+      ...stores.groups.map(group => group.id),
+      ...stores.messages.map(message => message.groupId),
+    ]);
+    const groupStore = transaction.objectStore('groups');
+    const messageIndex = transaction.objectStore('messages').index('groupId');
+    const mergedGroups: ChatGroup[] = [];
+
+    for (const groupId of groupIds) {
+      const localGroup = await requestToPromise<ChatGroup | undefined>(groupStore.get(groupId));
+      if (!localGroup) continue;
+
+      const localMessageIds = new Set(await requestToPromise(messageIndex.getAllKeys(groupId)));
+      const addedCount = stores.messages
+        .filter(message => message.groupId === groupId && !localMessageIds.has(message.id))
+        .length;
+      const archivedGroup = stores.groups.find(group => group.id === groupId);
+      mergedGroups.push({
+        ...(archivedGroup ?? localGroup),
+        messageCount: localGroup.messageCount + addedCount,
+      });
+    }
+
+    return mergedGroups;
+  }
+
+  /**
+   * 写入备份中的设置
+   */
+  private restoreSettings(settings: Record<string, string>, mode: BackupRestoreMode): void {
+    const localApiKeys = this.getApiKeys(localStorage.getItem(API_SETTINGS_KEY));
+
+    if (mode === 'replace') {
+      SETTING_KEYS.forEach(key => localStorage.removeItem(key));
+    }
+    Object.entries(settings).forEach(([key, value]) => localStorage.setItem(key, value));
+
+    // 备份中没有的API密钥保留本地的值
+    const restoredApiSettings = localStorage.getItem(API_SETTINGS_KEY);
+    const restoredApiKeys = this.getApiKeys(restoredApiSettings);
+    if (Object.keys(localApiKeys).some(id => !restoredApiKeys[id])) {
+      localStorage.setItem(
+        API_SETTINGS_KEY,
+        this.withApiKeys(restoredApiSettings ?? '{}', { ...localApiKeys, ...restoredApiKeys })
+      );
+    }
+    llmSettingsStore.reload();
+    promptTemplateService.reload();
+    usageService.reload();
+  }
+
+  /**
+   * 读取API设置中各服务商的密钥
+   * 旧格式只有Deepseek一个服务商，密钥直接保存在顶层
+   */
+  private getApiKeys(apiSettings: string | null): Record<string, string> {
+    if (!apiSettings) return {};
+    try {
+      const { apiKey, providers = {} } = JSON.parse(apiSettings);
+      const apiKeys: Record<string, string> = apiKey ? { deepseek: apiKey } : {};
+      Object.entries(providers as Record<string, { apiKey?: string }>).forEach(([id, config]) => {
+        if (config?.apiKey) apiKeys[id] = config.apiKey;
+      });
+      return apiKeys;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 用apiKeys替换API设置中的密钥，apiKeys中没有的密钥会被移除
+   */
+  private withApiKeys(apiSettings: string, apiKeys: Record<string, string>): string {
+    try {
+      const parsed: unknown = JSON.parse(apiSettings);
+      if (!isRecord(parsed)) return apiSettings;
+      const { providers, ...rest } = parsed;
+      delete rest.apiKey;
+      if (!isRecord(providers)) {
+        return JSON.stringify(apiKeys.deepseek ? { ...rest, apiKey: apiKeys.deepseek } : rest);
+      }
+
+      const ids = new Set([...Object.keys(providers), ...Object.keys(apiKeys)]);
+      const providersWithKeys = Object.fromEntries([...ids].map(id => {
+        const config: JsonRecord = isRecord(providers[id]) ? { ...providers[id] } : {};
+        delete config.apiKey;
+        return [id, apiKeys[id] ? { ...config, apiKey: apiKeys[id] } : config];
+      }));
+      return JSON.stringify({ ...rest, providers: providersWithKeys });
+    } catch {
+      return apiSettings;
+    }
+  }
+}
+
+// 导出服务实例
+const backupService = new BackupService();
+export default backupService;
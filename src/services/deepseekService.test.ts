@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import deepseekService from './deepseekService';
+import { LLMRequestError } from './llm';
+
+describe('deepseekService.getInputTokenBudget', () => {
+  it('leaves room for the system prompt and the generated summary', () => {
+    const small = deepseekService.getInputTokenBudget({ maxTokens: 1000 });
+    const large = deepseekService.getInputTokenBudget({ maxTokens: 4000 });
+
+    // 模拟服务的上下文窗口为64000 token
+    expect(small).toBeLessThan(64000 - 1000);
+    expect(small - large).toBe(3000);
+  });
+
+  it('reports a context window too small for the requested output', () => {
+    expect(() => deepseekService.getInputTokenBudget({ maxTokens: 62000 })).toThrow(LLMRequestError);
+    expect(() => deepseekService.getInputTokenBudget({ maxTokens: 62000 })).toThrow('上下文窗口（64000 token）');
+  });
+});
@@ -1,165 +1,306 @@
 import { deepseekApi } from './api';
-import { DeepseekRequest, DeepseekResponse } from '../types';
+import { getActiveProvider, LLMAuthError, LLMError, LLMRequestError } from './llm';
+import promptBuilder from './promptBuilder';
+import usageService from './usageService';
+import type {
+  DeepseekBalance,
+  DeepseekBalanceResponse,
+  LLMCompletion,
+  LLMCompletionRequest,
+  PromptContext,
+  SummaryPromptOptions,
+  UsageFeature,
+} from '../types';
+import { estimateTokens } from '../utils/tokenUtils';
+import { isRecord } from '../utils/typeGuards';
+
+// 估算存在误差，预留一部分token
+const TOKEN_SAFETY_MARGIN = 2000;
+// 聊天记录至少要有的token预算，再少时每块只能放下几条消息
+const MIN_INPUT_TOKENS = 1000;
+
+type SummarizeOptions = SummaryPromptOptions & {
+  // 群名和时间范围，用于渲染提示词模板中的变量
+  context?: PromptContext;
+  // 总结的群聊，记录在用量账本中
+  groupId?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+};
+
+// 用量记录中的功能和群聊
+type UsageContext = {
+  feature: UsageFeature;
+  groupId?: string;
+};
+
+type StreamOptions = {
+  onToken?: (token: string, content: string) => void;
+  signal?: AbortSignal;
+};
 
 /**
- * Deepseek API服务 - 用于提供AI文本总结功能
+ * AI文本总结服务 - 构建提示词，通过API设置中选择的模型服务商生成总结和海报文案
  */
 class DeepseekService {
-  private apiKey: string;
-  private defaultModel: string = 'deepseek-reasoner';
-  
-  constructor() {
-    this.apiKey = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
-    if (!this.apiKey) {
-      console.warn('警告: Deepseek API密钥未配置。请在.env文件中设置VITE_DEEPSEEK_API_KEY');
-    }
-  }
-
   /**
-   * 验证API密钥是否已配置
+   * 验证当前服务商的API密钥是否已配置，本地模型不需要密钥
    */
   private validateApiKey(): boolean {
-    if (!this.apiKey) {
-      throw new Error('Deepseek API密钥未配置。请在设置中添加有效的API密钥');
+    const { provider, config } = getActiveProvider();
+    if (provider.requiresApiKey && !config.apiKey) {
+      throw new LLMAuthError(`${provider.name} API密钥未配置。请在设置中添加有效的API密钥`);
     }
     return true;
   }
 
   /**
-   * 生成微信群聊内容摘要
+   * 重新抛出调用失败的错误
+   * 中止和模型服务的错误原样抛出，保留错误类型供界面区分失败原因；其他错误加上失败的操作
+   */
+  private rethrow(error: unknown, action: string): never {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
+    console.error(`${action}:`, error);
+    if (error instanceof LLMError) throw error;
+    throw new Error(`${action}: ${(error instanceof Error && error.message) || '未知错误'}`);
+  }
+
+  /**
+   * 生成微信群聊内容摘要，返回摘要内容和推理模型的思考过程，通过signal中止时抛出AbortError
    * @param messages 需要总结的消息内容
    * @param options 配置选项
    */
   async summarizeChat(
     messages: string,
-    options: {
-      model?: string;
-      maxTokens?: number;
-      temperature?: number;
-      language?: 'zh' | 'en';
-      detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-    } = {}
-  ): Promise<string> {
+    options: SummarizeOptions & { signal?: AbortSignal } = {}
+  ): Promise<LLMCompletion> {
+    const { signal, groupId, ...summarizeOptions } = options;
+
     try {
       this.validateApiKey();
 
-      const {
-        model = this.defaultModel,
-        maxTokens = 1024,
-        temperature = 0.7,
-        language = 'zh',
-        detailLevel = 'comprehensive'
-      } = options;
-
-      // 构建提示词系统消息
-      const systemPrompt = this.buildSystemPrompt(language, detailLevel);
-
-      // 准备请求体
-      const requestBody: DeepseekRequest = {
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: messages
-          }
-        ],
-        temperature,
-        max_tokens: maxTokens
-      };
+      const requestBody = this.buildSummaryRequest(messages, summarizeOptions);
+      return await this.requestCompletion(requestBody, { feature: 'summary', groupId }, signal);
+    } catch (error) {
+      this.rethrow(error, '摘要生成失败');
+    }
+  }
 
-      // 发送API请求
-      const response = await deepseekApi.post<DeepseekResponse>('/chat/completions', requestBody);
+  /**
+   * 以流式方式生成微信群聊内容摘要，每收到一段内容就回调onToken
+   * 返回完整的摘要内容和推理模型的思考过程；通过signal中止时抛出AbortError
+   * @param messages 需要总结的消息内容
+   * @param options 配置选项
+   */
+  async summarizeChatStream(
+    messages: string,
+    options: SummarizeOptions & StreamOptions = {}
+  ): Promise<LLMCompletion> {
+    const { onToken, signal, groupId, ...summarizeOptions } = options;
 
-      if (response.success === false) {
-        throw new Error(response.error?.message || '调用Deepseek API失败');
-      }
+    try {
+      this.validateApiKey();
 
-      // 处理响应
-      if (response.choices && response.choices.length > 0) {
-        return response.choices[0].message.content;
-      } else {
-        throw new Error('无法从Deepseek API响应中提取内容');
-      }
-    } catch (error: any) {
-      console.error('摘要生成失败:', error);
-      throw new Error(`摘要生成失败: ${error.message || '未知错误'}`);
+      const requestBody = this.buildSummaryRequest(messages, summarizeOptions);
+      return await this.requestCompletionStream(requestBody, { feature: 'summary', groupId }, onToken, signal);
+    } catch (error) {
+      this.rethrow(error, '摘要生成失败');
     }
   }
 
   /**
-   * 构建系统提示词
+   * 提取长聊天记录中一个分块的要点，用于分段总结
+   * @param messages 分块的消息内容
+   * @param options 配置选项，chunkIndex从1开始
    */
-  private buildSystemPrompt(language: 'zh' | 'en', detailLevel: 'brief' | 'detailed' | 'comprehensive'): string {
-    const languageText = language === 'zh' ? '中文' : 'English';
-    
-    let detailText = '';
-    switch (detailLevel) {
-      case 'brief':
-        detailText = language === 'zh' 
-          ? '请提供简短的总结，只包含主要话题和结论。' 
-          : 'Please provide a brief summary with only main topics and conclusions.';
-        break;
-      case 'detailed':
-        detailText = language === 'zh'
-          ? '请提供详细总结，包括主要讨论点和重要细节。'
-          : 'Please provide a detailed summary including main discussion points and important details.';
-        break;
-      case 'comprehensive':
-        detailText = language === 'zh'
-          ? '请提供全面详尽的总结，包括所有重要讨论点、决策、行动项和关键信息。'
-          : 'Please provide a comprehensive summary including all important discussion points, decisions, action items, and key information.';
-        break;
+  async summarizeChunk(
+    messages: string,
+    options: SummarizeOptions & {
+      chunkIndex: number;
+      chunkCount: number;
+      signal?: AbortSignal;
+    }
+  ): Promise<string> {
+    const { chunkIndex, chunkCount, signal, groupId, ...summarizeOptions } = options;
+
+    try {
+      this.validateApiKey();
+
+      const requestBody = this.buildSummaryRequest(messages, summarizeOptions);
+      requestBody.messages[0].content = promptBuilder.buildChunkPrompt(
+        summarizeOptions,
+        `${chunkIndex}/${chunkCount}`
+      );
+      const { content } = await this.requestCompletion(requestBody, { feature: 'summary', groupId }, signal);
+      return content;
+    } catch (error) {
+      this.rethrow(error, `第${chunkIndex}段总结失败`);
     }
-    
-    if (language === 'zh') {
-      return `你是一位专业的微信群聊总结助手。你的任务是分析下面的微信群聊记录，并生成一份结构化的总结。
-      
-请使用${languageText}回复，并按以下格式组织内容：
+  }
 
-## 主要讨论内容
-[概述群聊中讨论的主要话题和重点]
+  /**
+   * 将按时间顺序排列的分段要点合并
+   * isFinal为true时按完整总结的格式输出，否则输出合并后的要点，用于分段要点过多时逐层合并
+   * 返回合并的内容和推理模型的思考过程
+   * @param partials 各分段的要点
+   * @param options 配置选项，传入onToken时以流式方式生成
+   */
+  async mergeSummaries(
+    partials: string[],
+    options: SummarizeOptions & StreamOptions & { isFinal?: boolean } = {}
+  ): Promise<LLMCompletion> {
+    const { onToken, signal, groupId, isFinal = true, ...summarizeOptions } = options;
 
-## 重要决策和结论
-[列出群聊中达成的任何决策、共识或结论]
+    try {
+      this.validateApiKey();
 
-## 待办事项和后续行动
-[列出需要跟进的任何任务、行动项或约定]
+      const content = promptBuilder.formatPartials(partials, summarizeOptions);
+      const requestBody = this.buildSummaryRequest(content, summarizeOptions);
+      if (!isFinal) {
+        requestBody.messages[0].content = promptBuilder.buildChunkPrompt(summarizeOptions);
+      }
+      const usageContext: UsageContext = { feature: 'summary', groupId };
+      return onToken
+        ? await this.requestCompletionStream(requestBody, usageContext, onToken, signal)
+        : await this.requestCompletion(requestBody, usageContext, signal);
+    } catch (error) {
+      this.rethrow(error, '合并分段总结失败');
+    }
+  }
 
-## 值得注意的信息
-[包含群聊中提到的任何重要日期、数字、链接或其他关键信息]
+  /**
+   * 模型返回的结构化总结无效时，把原输出和校验错误发回模型，要求按格式重新输出
+   * @param content 模型原来的输出
+   * @param errors 校验错误
+   * @param options 配置选项
+   */
+  async fixStructuredSummary(
+    content: string,
+    errors: string[],
+    options: SummarizeOptions & { signal?: AbortSignal } = {}
+  ): Promise<string> {
+    const { signal, groupId, ...summarizeOptions } = options;
+    const language = summarizeOptions.language ?? 'zh';
 
-${detailText}
+    try {
+      this.validateApiKey();
 
-请确保总结客观、准确，不添加原始聊天中不存在的信息。`;
-    } else {
-      return `You are a professional WeChat group chat summarization assistant. Your task is to analyze the following WeChat group chat records and generate a structured summary.
-      
-Please respond in ${languageText} and organize the content in the following format:
+      const instruction = language === 'zh'
+        ? `下面的总结不符合要求的JSON格式，问题如下：\n${errors.map(error => `- ${error}`).join('\n')}\n\n请保留其中的所有信息，按格式重新输出JSON对象：\n\n${content}`
+        : `The summary below does not match the required JSON format. Problems:\n${errors.map(error => `- ${error}`).join('\n')}\n\nKeep all of its information and output the JSON object again in the required format:\n\n${content}`;
+      const requestBody = this.buildSummaryRequest(instruction, summarizeOptions);
+      const { content: fixedContent } = await this.requestCompletion(requestBody, { feature: 'summary', groupId }, signal);
+      return fixedContent;
+    } catch (error) {
+      this.rethrow(error, '修正总结格式失败');
+    }
+  }
 
-## Main Discussion Topics
-[Outline the main topics and key points discussed in the group chat]
+  /**
+   * 计算总结请求中聊天记录可用的token预算
+   * 上下文窗口需要同时容纳系统提示词、聊天记录和生成的总结，放不下最小预算时抛出错误
+   */
+  getInputTokenBudget(options: SummarizeOptions = {}): number {
+    const { provider, settings } = getActiveProvider();
+    const { maxTokens = settings.maxTokens, ...promptOptions } = options;
+    const promptTokens = estimateTokens(promptBuilder.buildSystemPrompt(promptOptions));
+    const budget = provider.contextWindow - maxTokens - promptTokens - TOKEN_SAFETY_MARGIN;
+    if (budget < MIN_INPUT_TOKENS) {
+      throw new LLMRequestError(
+        `${provider.name}的上下文窗口（${provider.contextWindow} token）放不下提示词、聊天记录和最多${maxTokens} token的总结，` +
+        '请在设置中减小最大生成令牌数或改用上下文更大的模型'
+      );
+    }
+    return budget;
+  }
 
-## Important Decisions and Conclusions
-[List any decisions, consensus, or conclusions reached in the group chat]
+  /**
+   * 构建摘要请求体
+   */
+  private buildSummaryRequest(messages: string, options: SummarizeOptions): LLMCompletionRequest {
+    const { provider, config, settings } = getActiveProvider();
+    const {
+      model = config.model || provider.defaultModels[0],
+      maxTokens = settings.maxTokens,
+      temperature = settings.temperature,
+      ...promptOptions
+    } = options;
+
+    return {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: promptBuilder.buildSystemPrompt(promptOptions)
+        },
+        {
+          role: 'user',
+          content: messages
+        }
+      ],
+      temperature,
+      maxTokens
+    };
+  }
 
-## Action Items and Follow-ups
-[List any tasks, action items, or commitments that need follow-up]
+  /**
+   * 通过当前服务商发送请求并返回生成的内容，同时记录用量
+   */
+  private async requestCompletion(
+    request: LLMCompletionRequest,
+    usageContext: UsageContext,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const { provider, config } = getActiveProvider();
+    const completion = await provider.complete(request, config, signal);
+    await this.recordUsage(request, completion, usageContext);
+    return completion;
+  }
 
-## Notable Information
-[Include any important dates, numbers, links, or other key information mentioned in the chat]
+  /**
+   * 通过当前服务商以流式方式发送请求，每收到一段内容就回调onToken，返回完整的内容，同时记录用量
+   */
+  private async requestCompletionStream(
+    request: LLMCompletionRequest,
+    usageContext: UsageContext,
+    onToken: StreamOptions['onToken'] = () => {},
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const { provider, config } = getActiveProvider();
+    const completion = await provider.completeStream(request, config, onToken, signal);
+    await this.recordUsage(request, completion, usageContext);
+    return completion;
+  }
 
-${detailText}
+  /**
+   * 在用量账本中记录一次调用，服务没有返回用量时按内容估算
+   * 记录失败不影响生成的结果
+   */
+  private async recordUsage(
+    request: LLMCompletionRequest,
+    completion: LLMCompletion,
+    usageContext: UsageContext
+  ): Promise<void> {
+    const { provider } = getActiveProvider();
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(completion.content);
 
-Please ensure the summary is objective, accurate, and does not add information that doesn't exist in the original chat.`;
+    try {
+      await usageService.recordUsage({
+        ...usageContext,
+        provider: provider.id,
+        model: request.model,
+        usage: completion.usage ?? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        isEstimated: !completion.usage,
+      });
+    } catch (error) {
+      console.error('记录用量失败:', error);
     }
   }
 
   /**
-   * 生成海报文案
+   * 生成海报文案，通过signal中止时抛出AbortError
    * @param summary 聊天总结内容
    * @param options 配置选项
    */
@@ -170,16 +311,21 @@ Please ensure the summary is objective, accurate, and does not add information t
       maxTokens?: number;
       temperature?: number;
       style?: 'formal' | 'casual' | 'creative';
+      groupId?: string;
+      signal?: AbortSignal;
     } = {}
   ): Promise<string> {
     try {
       this.validateApiKey();
 
+      const { provider, config } = getActiveProvider();
       const {
-        model = this.defaultModel,
+        model = config.model || provider.defaultModels[0],
         maxTokens = 512,
         temperature = 0.8,
-        style = 'formal'
+        style = 'formal',
+        groupId,
+        signal
       } = options;
 
       // 构建提示词
@@ -202,7 +348,7 @@ Please ensure the summary is objective, accurate, and does not add information t
       不要使用"群聊总结"、"微信记录"等词语，让文案看起来像是一篇独立的内容。`;
 
       // 准备请求体
-      const requestBody: DeepseekRequest = {
+      const requestBody: LLMCompletionRequest = {
         model,
         messages: [
           {
@@ -215,48 +361,46 @@ Please ensure the summary is objective, accurate, and does not add information t
           }
         ],
         temperature,
-        max_tokens: maxTokens
+        maxTokens
       };
 
-      // 发送API请求
-      const response = await deepseekApi.post<DeepseekResponse>('/chat/completions', requestBody);
-
-      if (response.success === false) {
-        throw new Error(response.error?.message || '调用Deepseek API失败');
-      }
-
-      // 处理响应
-      if (response.choices && response.choices.length > 0) {
-        return response.choices[0].message.content;
-      } else {
-        throw new Error('无法从Deepseek API响应中提取内容');
-      }
-    } catch (error: any) {
-      console.error('海报文案生成失败:', error);
-      throw new Error(`海报文案生成失败: ${error.message || '未知错误'}`);
+      // 只使用回答内容，思考过程不出现在海报中
+      const { content } = await this.requestCompletion(requestBody, { feature: 'poster', groupId }, signal);
+      return content;
+    } catch (error) {
+      this.rethrow(error, '海报文案生成失败');
     }
   }
 
   /**
-   * 获取API剩余配额信息
+   * 查询Deepseek账户余额，其他服务商没有余额接口
    */
-  async getApiQuota(): Promise<{ used: number; total: number; remaining: number }> {
+  async getBalance(signal?: AbortSignal): Promise<DeepseekBalance> {
+    const config = getActiveProvider().settings.providers.deepseek;
+    if (!config.apiKey) {
+      throw new LLMAuthError('Deepseek API密钥未配置');
+    }
+
+    // 余额接口不在/v1路径下
+    const baseUrl = (config.apiUrl || 'https://api.deepseek.com').replace(/\/+$/, '').replace(/\/v1$/, '');
     try {
-      this.validateApiKey();
-      
-      // 这里假设Deepseek API提供了查询配额的端点
-      // 在真实场景中需要根据实际API文档进行调整
-      const response = await deepseekApi.get('/quota');
-      
-      if (response.success === false) {
-        throw new Error(response.error?.message || '获取API配额信息失败');
-      }
-      
-      return response.data;
-    } catch (error: any) {
-      console.error('获取API配额信息失败:', error);
-      // 如果API不支持查询配额，返回模拟数据
-      return { used: 0, total: 1000, remaining: 1000 };
+      // 响应拦截器直接返回响应内容
+      const data = await deepseekApi.get<DeepseekBalanceResponse, DeepseekBalanceResponse>(`${baseUrl}/user/balance`, { signal });
+      return {
+        isAvailable: Boolean(data.is_available),
+        balances: (data.balance_infos ?? []).map(info => ({
+          currency: info.currency,
+          total: Number(info.total_balance),
+          granted: Number(info.granted_balance),
+          toppedUp: Number(info.topped_up_balance),
+        })),
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      console.error('获取账户余额失败:', error);
+      // 响应拦截器把错误响应转换为{ error: { message } }
+      const message = isRecord(error) && isRecord(error.error) ? error.error.message : undefined;
+      throw new Error(typeof message === 'string' && message ? message : '获取账户余额失败');
     }
   }
 }
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatGroup, ChatMessage } from '../types';
+import exportService from './exportService';
+import summaryService from './summaryService';
+import wechatService from './wechatService';
+import { taskRepository } from './storage';
+import { createMessageId } from '../utils/messageIdentity';
+import { detectImporter } from '../utils/parsers';
+import { getStableSenderId } from '../utils/parsers/common';
+
+let group: ChatGroup;
+let messages: ChatMessage[];
+
+const createMessage = (sender: string, minute: number, content: string): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 10, minute);
+  const senderId = getStableSenderId(sender);
+  return {
+    id: createMessageId(group.id, senderId, timestamp, content),
+    sender,
+    senderId,
+    content,
+    timestamp,
+    type: 'text',
+    groupId: group.id,
+  };
+};
+
+/**
+ * 导出后按文件内容识别格式并重新解析到同一个群聊
+ */
+const exportAndParse = async (format: 'json' | 'txt') => {
+  const [file] = await exportService.createExport({ format, groupIds: [group.id] });
+  return { file, result: detectImporter(file.content, file.fileName).parse(file.content, { groupId: group.id }) };
+};
+
+describe('exportService', () => {
+  beforeEach(async () => {
+    group = await wechatService.createGroup(`导出群${Math.random()}`);
+    messages = [
+      createMessage('张三', 0, '早上好'),
+      createMessage('李四', 1, '明天的安排：\n\n十点开会'),
+      createMessage('张三', 2, '收到'),
+    ];
+    await wechatService.importMessages(group.id, messages);
+    await summaryService.generateSummary(group.id, new Date(2024, 0, 15), new Date(2024, 0, 15));
+    await taskRepository.put({
+      id: `task_${group.id}`,
+      type: 'summary',
+      groupId: group.id,
+      frequency: 'daily',
+      nextRunTime: new Date(2024, 0, 16, 9, 0),
+      isActive: true,
+      createdAt: new Date(2024, 0, 15),
+      updatedAt: new Date(2024, 0, 15),
+    });
+  });
+
+  it.each(['json', 'txt'] as const)('re-imports the messages of a %s export unchanged', async format => {
+    const { result } = await exportAndParse(format);
+
+    expect(result.errors).toEqual([]);
+    expect(result.messages.map(({ id, sender, content, timestamp }) => ({ id, sender, content, timestamp }))).toEqual(
+      messages.map(({ id, sender, content, timestamp }) => ({ id, sender, content, timestamp }))
+    );
+
+    const imported = await wechatService.importMessages(group.id, result.messages);
+    expect(imported.added).toEqual([]);
+    expect(imported.duplicates).toHaveLength(messages.length);
+  });
+
+  it('keeps summaries and tasks in the TXT export as comments', async () => {
+    const { file } = await exportAndParse('txt');
+    const lines = file.content.split('\n');
+
+    expect(lines).toContain(`# 群聊：${group.name}（2 名成员）`);
+    expect(lines.some(line => line.startsWith('# 总结：'))).toBe(true);
+    expect(lines).toContain('# 定时任务：');
+    expect(lines.filter(line => line && !line.startsWith('#'))).toHaveLength(messages.length * 2 + 1);
+  });
+
+  it('exports the summaries and tasks of the selected groups to JSON', async () => {
+    const { file } = await exportAndParse('json');
+    const data = JSON.parse(file.content);
+
+    expect(data.groups.map((item: ChatGroup) => item.id)).toEqual([group.id]);
+    expect(data.summaries).toHaveLength(1);
+    expect(data.summaries[0].keyPoints.length).toBeGreaterThan(0);
+    expect(data.scheduledTasks).toHaveLength(1);
+  });
+
+  it('filters messages by date range', async () => {
+    const data = await exportService.collectData({
+      groupIds: [group.id],
+      startDate: new Date(2024, 0, 16),
+      endDate: new Date(2024, 0, 17),
+    });
+
+    expect(data.messages).toEqual([]);
+    expect(data.summaries).toEqual([]);
+  });
+});
@@ -0,0 +1,319 @@
+import type {
+  ChatGroup,
+  ChatMessage,
+  ChatSummary,
+  ExportFile,
+  ExportOptions,
+  ScheduledTask,
+} from '../types';
+import wechatService from './wechatService';
+import summaryService from './summaryService';
+import { taskRepository } from './storage';
+import { formatDate } from '../utils/dateUtils';
+
+// JSON导出文件的格式标识和版本，导入时据此识别
+export const EXPORT_FORMAT_ID = 'wechat-chat-summary-export';
+export const EXPORT_VERSION = 1;
+
+const DATE_TIME_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+// Excel需要BOM才能正确识别UTF-8编码的CSV
+const CSV_BOM = '\uFEFF';
+
+export interface ExportData {
+  groups: ChatGroup[];
+  messages: ChatMessage[];
+  summaries: ChatSummary[];
+  scheduledTasks: ScheduledTask[];
+}
+
+const TASK_FREQUENCY_LABELS: Record<ScheduledTask['frequency'], string> = {
+  hourly: '每小时',
+  daily: '每天',
+  weekly: '每周',
+  monthly: '每月',
+  custom: '自定义',
+};
+
+/**
+ * 转义CSV字段，包含逗号、引号或换行的字段用双引号包裹
+ */
+const escapeCsvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = value instanceof Date ? formatDate(value, DATE_TIME_FORMAT) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 将表头和数据行转换为CSV文本
+ */
+const toCsv = (headers: string[], rows: unknown[][]): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+  return CSV_BOM + lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * 数据导出服务 - 将群聊、消息、总结和定时任务导出为JSON、CSV或TXT文件
+ */
+class ExportService {
+  /**
+   * 按群聊和日期范围收集要导出的数据
+   * 消息按发送时间过滤，总结按其覆盖的时间范围是否与导出范围重叠过滤
+   */
+  async collectData(options: Omit<ExportOptions, 'format'> = {}): Promise<ExportData> {
+    const { groupIds, startDate, endDate } = options;
+
+    const allGroups = await wechatService.getGroups();
+    const groups = groupIds ? allGroups.filter(group => groupIds.includes(group.id)) : allGroups;
+    const messages: ChatMessage[] = [];
+    const summaries: ChatSummary[] = [];
+
+    for (const group of groups) {
+      const groupMessages = startDate || endDate
+        ? await wechatService.getMessagesByTimeRange(
+            group.id,
+            startDate ?? new Date(0),
+            endDate ?? new Date()
+          )
+        : await wechatService.getGroupMessages(group.id);
+      groupMessages.forEach(message => messages.push(message));
+
+      const groupSummaries = await summaryService.getSummaryHistory(group.id);
+      groupSummaries
+        .filter(summary =>
+          (!startDate || summary.timeRange.end >= startDate) &&
+          (!endDate || summary.timeRange.start <= endDate)
+        )
+        // 推理模型的思考过程只在总结页面查看，不导出
+        .forEach(summary => summaries.push({ ...summary, reasoning: undefined }));
+    }
+
+    const selectedGroupIds = new Set(groups.map(group => group.id));
+    const scheduledTasks = (await taskRepository.getAll())
+      .filter(task => selectedGroupIds.has(task.groupId));
+
+    return { groups, messages, summaries, scheduledTasks };
+  }
+
+  /**
+   * 生成导出文件
+   * JSON和TXT导出为单个文件；CSV每类数据导出为一个文件
+   */
+  async createExport(options: ExportOptions): Promise<ExportFile[]> {
+    const data = await this.collectData(options);
+    const baseName = `wechat-export-${formatDate(new Date(), 'yyyyMMdd-HHmm')}`;
+
+    switch (options.format) {
+      case 'json':
+        return [{
+          fileName: `${baseName}.json`,
+          mimeType: 'application/json',
+          content: this.toJson(data, options),
+        }];
+      case 'csv':
+        return this.toCsvFiles(data, baseName);
+      case 'txt':
+        return [{
+          fileName: `${baseName}.txt`,
+          mimeType: 'text/plain',
+          content: this.toText(data, options),
+        }];
+      default:
+        throw new Error(`不支持的导出格式: ${options.format}`);
+    }
+  }
+
+  /**
+   * 在浏览器中下载导出文件
+   */
+  downloadFiles(files: ExportFile[]): void {
+    files.forEach(file => {
+      const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  /**
+   * JSON导出，messages字段可以直接通过聊天记录导入功能重新导入
+   */
+  private toJson(data: ExportData, options: ExportOptions): string {
+    return JSON.stringify({
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_VERSION,
+      exportedAt: new Date(),
+      filters: {
+        groupIds: options.groupIds ?? null,
+        startDate: options.startDate ?? null,
+        endDate: options.endDate ?? null,
+      },
+      ...data,
+    }, null, 2);
+  }
+
+  /**
+   * CSV导出，消息表的列名与CSV导入格式一致，可以重新导入
+   */
+  private toCsvFiles(data: ExportData, baseName: string): ExportFile[] {
+    const groupNames = new Map(data.groups.map(group => [group.id, group.name]));
+    const files: ExportFile[] = [];
+    const addFile = (name: string, headers: string[], rows: unknown[][]) => {
+      files.push({ fileName: `${baseName}-${name}.csv`, mimeType: 'text/csv', content: toCsv(headers, rows) });
+    };
+
+    addFile(
+      'messages',
+      ['timestamp', 'sender', 'senderId', 'type', 'content', 'groupId', 'groupName', 'isPinned'],
+      data.messages.map(message => [
+        message.timestamp,
+        message.sender,
+        message.senderId,
+        message.type,
+        message.content,
+        message.groupId,
+        groupNames.get(message.groupId),
+        message.isPinned ? 1 : 0,
+      ])
+    );
+
+    addFile(
+      'summaries',
+      ['id', 'groupId', 'groupName', 'title', 'generatedAt', 'timeRangeStart', 'timeRangeEnd', 'messageCount', 'wordCount', 'keyPoints', 'topics', 'participants', 'content', 'isPinned'],
+      data.summaries.map(summary => [
+        summary.id,
+        summary.groupId,
+        summary.groupName,
+        summary.title,
+        summary.generatedAt,
+        summary.timeRange.start,
+        summary.timeRange.end,
+        summary.messageCount,
+        summary.wordCount,
+        summary.keyPoints.join('\n'),
+        summary.topics.join('、'),
+        summary.participants.map(participant => `${participant.name}(${participant.messageCount})`).join('、'),
+        summary.content,
+        summary.isPinned ? 1 : 0,
+      ])
+    );
+
+    addFile(
+      'groups',
+      ['id', 'name', 'description', 'memberCount', 'members', 'messageCount', 'createdAt', 'lastActiveAt'],
+      data.groups.map(group => [
+        group.id,
+        group.name,
+        group.description,
+        group.members.length,
+        group.members.map(member => member.name).join('、'),
+        group.messageCount,
+        group.createdAt,
+        group.lastActiveAt,
+      ])
+    );
+
+    if (data.scheduledTasks.length > 0) {
+      addFile(
+        'tasks',
+        ['id', 'type', 'groupId', 'groupName', 'frequency', 'customCron', 'isActive', 'nextRunTime', 'lastRunTime', 'lastRunStatus'],
+        data.scheduledTasks.map(task => [
+          task.id,
+          task.type,
+          task.groupId,
+          groupNames.get(task.groupId),
+          task.frequency,
+          task.customCron,
+          task.isActive ? 1 : 0,
+          task.nextRunTime,
+          task.lastRunTime,
+          task.lastRunStatus,
+        ])
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * TXT导出，消息部分采用微信电脑版的导出格式
+   * 群聊标题、总结和定时任务写成以#开头的注释行，重新导入时只读取消息
+   */
+  private toText(data: ExportData, options: ExportOptions): string {
+    const lines: string[] = [];
+    const comment = (text = '') => {
+      text.split('\n').forEach(line => lines.push(line ? `# ${line}` : '#'));
+    };
+    const divider = '='.repeat(40);
+    const separator = '-'.repeat(40);
+
+    comment('微信群聊数据导出');
+    comment(`导出日期：${formatDate(new Date())}`);
+    if (options.startDate || options.endDate) {
+      comment(`时间范围：${options.startDate ? formatDate(options.startDate) : '不限'} 至 ${options.endDate ? formatDate(options.endDate) : '不限'}`);
+    }
+    lines.push('');
+
+    data.groups.forEach(group => {
+      comment(divider);
+      comment(`群聊：${group.name}（${group.members.length} 名成员）`);
+      comment(divider);
+      lines.push('');
+
+      data.messages
+        .filter(message => message.groupId === group.id)
+        .forEach(message => {
+          lines.push(`${message.sender} ${formatDate(message.timestamp, DATE_TIME_FORMAT)}`);
+          lines.push(message.content);
+          lines.push('');
+        });
+
+      data.summaries
+        .filter(summary => summary.groupId === group.id)
+        .forEach(summary => {
+          comment(separator);
+          comment(`总结：${summary.title}（生成于 ${formatDate(summary.generatedAt, DATE_TIME_FORMAT)}）`);
+          comment(
+            `时间范围：${formatDate(summary.timeRange.start, DATE_TIME_FORMAT)} 至 ` +
+            `${formatDate(summary.timeRange.end, DATE_TIME_FORMAT)}（${summary.messageCount} 条消息）`
+          );
+          if (summary.participants.length > 0) {
+            comment(`参与者：${summary.participants.map(p => `${p.name}(${p.messageCount})`).join('、')}`);
+          }
+          if (summary.topics.length > 0) {
+            comment(`话题：${summary.topics.join('、')}`);
+          }
+          if (summary.keyPoints.length > 0) {
+            comment('关键点：');
+            summary.keyPoints.forEach(point => comment(`- ${point}`));
+          }
+          comment();
+          comment(summary.content.trim());
+          lines.push('');
+        });
+
+      const tasks = data.scheduledTasks.filter(task => task.groupId === group.id);
+      if (tasks.length > 0) {
+        comment(separator);
+        comment('定时任务：');
+        tasks.forEach(task => {
+          comment(
+            `- ${TASK_FREQUENCY_LABELS[task.frequency]}${task.type === 'summary' ? '生成总结' : '生成海报'}` +
+            `（${task.isActive ? '已启用' : '已停用'}，下次运行：${formatDate(task.nextRunTime, DATE_TIME_FORMAT)}）`
+          );
+        });
+        lines.push('');
+      }
+    });
+
+    return lines.join('\n');
+  }
+}
+
+// 导出服务实例
+const exportService = new ExportService();
+export default exportService;
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatGroup, ChatMessage } from '../types';
+import identityService from './identityService';
+import wechatService from './wechatService';
+import { createMessageId } from '../utils/messageIdentity';
+
+let group: ChatGroup;
+let messages: ChatMessage[];
+
+const createMessage = (senderId: string, sender: string, minute: number, content: string): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 10, minute);
+  return {
+    id: createMessageId(group.id, senderId, timestamp, content),
+    sender,
+    senderId,
+    content,
+    timestamp,
+    type: 'text',
+    groupId: group.id,
+  };
+};
+
+describe('identityService', () => {
+  beforeEach(async () => {
+    group = await wechatService.createGroup(`身份群${Math.random()}`);
+    messages = [
+      createMessage('a', '张三', 0, '早上好'),
+      createMessage('b', '李四', 1, '早'),
+      createMessage('c', '张三（产品部）', 2, '我来准备材料'),
+      createMessage('a', '张三', 3, '明天十点开会'),
+      createMessage('d', '李四', 4, '收到'),
+    ];
+    await wechatService.importMessages(group.id, messages);
+  });
+
+  it('lists identities by message count with their names and sources', async () => {
+    const identities = await identityService.getIdentities(group.id);
+
+    expect(identities.map(({ id, displayName, messageCount }) => ({ id, displayName, messageCount }))).toEqual([
+      { id: 'a', displayName: '张三', messageCount: 2 },
+      { id: 'b', displayName: '李四', messageCount: 1 },
+      { id: 'c', displayName: '张三（产品部）', messageCount: 1 },
+      { id: 'd', displayName: '李四', messageCount: 1 },
+    ]);
+  });
+
+  it('suggests merges ordered by confidence', async () => {
+    const suggestions = await identityService.getMergeSuggestions(group.id);
+
+    expect(suggestions.map(({ identityIds, confidence }) => ({ identityIds, confidence }))).toEqual([
+      { identityIds: ['b', 'd'], confidence: 'high' },
+      { identityIds: ['a', 'c'], confidence: 'medium' },
+    ]);
+  });
+
+  it('stops suggesting a dismissed merge', async () => {
+    await identityService.dismissSuggestion(group.id, ['d', 'b']);
+
+    expect((await identityService.getMergeSuggestions(group.id)).map(suggestion => suggestion.identityIds)).toEqual([['a', 'c']]);
+  });
+
+  it('resolves merged senders to one identity with the most recent name', async () => {
+    await identityService.mergeIdentities(group.id, ['c', 'a']);
+    const resolved = await identityService.resolveMessages(group.id, messages);
+
+    expect(resolved.map(message => `${message.senderId}:${message.sender}`)).toEqual([
+      'c:张三',
+      'b:李四',
+      'c:张三',
+      'c:张三',
+      'd:李四',
+    ]);
+    expect((await identityService.getIdentities(group.id))[0]).toMatchObject({
+      id: 'c',
+      aliases: ['张三', '张三（产品部）'],
+      messageCount: 3,
+    });
+  });
+
+  it('uses the display name chosen by the user until it is cleared', async () => {
+    await identityService.mergeIdentities(group.id, ['b', 'd'], ' 李经理 ');
+    expect((await identityService.resolveMessages(group.id, messages))[4]).toMatchObject({ senderId: 'b', sender: '李经理' });
+
+    await identityService.renameIdentity(group.id, 'b', '');
+    expect((await identityService.resolveMessages(group.id, messages))[4]).toMatchObject({ senderId: 'b', sender: '李四' });
+  });
+
+  it('splits a sender id back out of a merged identity', async () => {
+    await identityService.mergeIdentities(group.id, ['a', 'c', 'd'], '张三');
+
+    await identityService.splitSenderId(group.id, 'd');
+    expect((await identityService.getIdentities(group.id)).map(identity => identity.id).sort()).toEqual(['a', 'b', 'd']);
+
+    // 拆分身份本身的senderId时，剩余的senderId归入新的身份并保留手动指定的名字
+    await identityService.splitSenderId(group.id, 'a');
+    const identities = await identityService.getIdentities(group.id);
+    expect(identities.find(identity => identity.id === 'c')).toMatchObject({ displayName: '张三', messageCount: 1 });
+    expect(identities.map(identity => identity.id).sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('keeps the adjustments after the cache is reloaded', async () => {
+    await identityService.mergeIdentities(group.id, ['a', 'c']);
+    identityService.reload();
+
+    expect((await identityService.resolveMessages(group.id, messages))[2].senderId).toBe('a');
+  });
+});
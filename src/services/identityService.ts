@@ -0,0 +1,293 @@
+import type { ChatMessage, IdentityMapping, IdentityMergeSuggestion, SenderIdentity } from '../types';
+import wechatService from './wechatService';
+import { identityMappingRepository } from './storage';
+
+/**
+ * 规范化显示名，用于判断两个名字是否可能是同一个人
+ * 去掉括号中的备注（如“张三（产品部）”）、空白、标点和表情，并统一全半角与大小写
+ */
+const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFKC')
+    .replace(/[(（[【].*?[)）\]】]/g, '')
+    .replace(/[\s\p{P}\p{S}]/gu, '')
+    .toLowerCase();
+};
+
+/**
+ * 生成建议的唯一键，与身份顺序无关
+ */
+const getSuggestionKey = (identityIds: string[]): string => {
+  return [...identityIds].sort().join('|');
+};
+
+/**
+ * 解析原始senderId合并后对应的senderId
+ */
+const resolveLink = (mapping: IdentityMapping, senderId: string): string => {
+  return mapping.links[senderId] ?? senderId;
+};
+
+/**
+ * 发送者身份服务 - 将同一个人的多个显示名和senderId合并为一个身份
+ * 手动合并、拆分、改名和忽略的建议按群聊保存在本地数据库中，读取过的群聊缓存在内存中
+ */
+class IdentityService {
+  private mappings = new Map<string, IdentityMapping>();
+
+  /**
+   * 将消息的发送者替换为合并后的身份
+   * 未手动指定显示名的身份使用这批消息中最近一次出现的名字，改过名的人在同一次总结中只有一个名字
+   */
+  async resolveMessages(groupId: string, messages: ChatMessage[]): Promise<ChatMessage[]> {
+    const mapping = await this.getMapping(groupId);
+    const latestNames = new Map<string, { name: string; time: number }>();
+
+    messages.forEach(message => {
+      if (message.type === 'system') return;
+      const identityId = resolveLink(mapping, message.senderId);
+      const time = message.timestamp.getTime();
+      const latest = latestNames.get(identityId);
+      if (!latest || time >= latest.time) {
+        latestNames.set(identityId, { name: message.sender, time });
+      }
+    });
+
+    return messages.map(message => {
+      if (message.type === 'system') return message;
+      const identityId = resolveLink(mapping, message.senderId);
+      const sender = mapping.displayNames[identityId] ?? latestNames.get(identityId)?.name ?? message.sender;
+      if (identityId === message.senderId && sender === message.sender) return message;
+      return { ...message, senderId: identityId, sender };
+    });
+  }
+
+  /**
+   * 获取群聊中的所有发送者身份，按消息数量排序
+   */
+  async getIdentities(groupId: string): Promise<SenderIdentity[]> {
+    const [messages, mapping] = await Promise.all([
+      wechatService.getGroupMessages(groupId),
+      this.getMapping(groupId),
+    ]);
+    const identities = new Map<string, SenderIdentity>();
+    const latestTimes = new Map<string, number>();
+
+    messages.forEach(message => {
+      if (message.type === 'system') return;
+
+      const identityId = resolveLink(mapping, message.senderId);
+      let identity = identities.get(identityId);
+      if (!identity) {
+        identity = {
+          id: identityId,
+          groupId,
+          displayName: message.sender,
+          aliases: [],
+          sources: [],
+          messageCount: 0,
+        };
+        identities.set(identityId, identity);
+      }
+
+      identity.messageCount += 1;
+      if (!identity.aliases.includes(message.sender)) identity.aliases.push(message.sender);
+
+      let source = identity.sources.find(item => item.senderId === message.senderId);
+      if (!source) {
+        source = { senderId: message.senderId, names: [], messageCount: 0 };
+        identity.sources.push(source);
+      }
+      source.messageCount += 1;
+      if (!source.names.includes(message.sender)) source.names.push(message.sender);
+
+      const time = message.timestamp.getTime();
+      if (time >= (latestTimes.get(identityId) ?? -Infinity)) {
+        latestTimes.set(identityId, time);
+        identity.displayName = message.sender;
+      }
+    });
+
+    return Array.from(identities.values())
+      .map(identity => ({
+        ...identity,
+        displayName: mapping.displayNames[identity.id] ?? identity.displayName,
+      }))
+      .sort((a, b) => b.messageCount - a.messageCount);
+  }
+
+  /**
+   * 根据显示名推测可能是同一个人的身份
+   * - 相同的显示名对应不同的senderId（如分别从CSV和文本导入）：高
+   * - 规范化后名字相同（如“张三”和“张三（产品部）”）：中
+   * - 一个名字包含另一个名字：低
+   */
+  async getMergeSuggestions(groupId: string): Promise<IdentityMergeSuggestion[]> {
+    const [identities, mapping] = await Promise.all([
+      this.getIdentities(groupId),
+      this.getMapping(groupId),
+    ]);
+    const dismissed = new Set(mapping.dismissedSuggestions);
+    const suggestions: IdentityMergeSuggestion[] = [];
+
+    for (let i = 0; i < identities.length; i++) {
+      for (let j = i + 1; j < identities.length; j++) {
+        const a = identities[i];
+        const b = identities[j];
+        const identityIds = [a.id, b.id];
+        if (dismissed.has(getSuggestionKey(identityIds))) continue;
+
+        const names = [a.displayName, b.displayName];
+        const sharedAlias = a.aliases.find(alias => b.aliases.includes(alias));
+        if (sharedAlias) {
+          suggestions.push({ identityIds, names, reason: `都使用过“${sharedAlias}”这个名字`, confidence: 'high' });
+          continue;
+        }
+
+        const normalizedA = a.aliases.map(normalizeName).filter(Boolean);
+        const normalizedB = b.aliases.map(normalizeName).filter(Boolean);
+
+        if (normalizedA.some(name => normalizedB.includes(name))) {
+          suggestions.push({ identityIds, names, reason: '去掉备注和符号后名字相同', confidence: 'medium' });
+          continue;
+        }
+
+        const isContained = normalizedA.some(nameA =>
+          normalizedB.some(nameB =>
+            Math.min(nameA.length, nameB.length) >= 2 && (nameA.includes(nameB) || nameB.includes(nameA))
+          )
+        );
+        if (isContained) {
+          suggestions.push({ identityIds, names, reason: '一个名字包含另一个名字', confidence: 'low' });
+        }
+      }
+    }
+
+    const order = { high: 0, medium: 1, low: 2 };
+    return suggestions.sort((a, b) => order[a.confidence] - order[b.confidence]);
+  }
+
+  /**
+   * 将多个身份合并为一个，合并后使用第一个身份的senderId
+   */
+  async mergeIdentities(groupId: string, identityIds: string[], displayName?: string): Promise<void> {
+    if (identityIds.length < 2 && !displayName) return;
+
+    const mapping = await this.getMapping(groupId);
+    const [targetId] = identityIds;
+    const links = { ...mapping.links };
+
+    identityIds.forEach(identityId => {
+      if (identityId !== targetId) links[identityId] = targetId;
+    });
+    // 之前已合并到这些身份的senderId也指向新的身份
+    Object.entries(links).forEach(([senderId, linkedId]) => {
+      if (identityIds.includes(linkedId)) links[senderId] = targetId;
+    });
+
+    const displayNames = { ...mapping.displayNames };
+    identityIds.slice(1).forEach(identityId => delete displayNames[identityId]);
+    if (displayName?.trim()) {
+      displayNames[targetId] = displayName.trim();
+    }
+
+    await this.saveMapping({ ...mapping, links, displayNames });
+  }
+
+  /**
+   * 将一个原始senderId从所属身份中拆分出来，恢复为独立的身份
+   * 拆分的是身份本身的senderId时，剩余的senderId改为归入其中第一个
+   */
+  async splitSenderId(groupId: string, senderId: string): Promise<void> {
+    const mapping = await this.getMapping(groupId);
+    const links = { ...mapping.links };
+
+    if (senderId in links) {
+      delete links[senderId];
+      await this.saveMapping({ ...mapping, links });
+      return;
+    }
+
+    const remaining = Object.entries(links)
+      .filter(([, linkedId]) => linkedId === senderId)
+      .map(([linkedSenderId]) => linkedSenderId);
+    if (remaining.length === 0) return;
+
+    const [newTargetId, ...others] = remaining;
+    delete links[newTargetId];
+    others.forEach(otherId => {
+      links[otherId] = newTargetId;
+    });
+
+    const displayNames = { ...mapping.displayNames };
+    const manualName = displayNames[senderId];
+    if (manualName) {
+      delete displayNames[senderId];
+      displayNames[newTargetId] = manualName;
+    }
+
+    await this.saveMapping({ ...mapping, links, displayNames });
+  }
+
+  /**
+   * 手动指定身份的显示名，传入空字符串时恢复为最近使用的名字
+   */
+  async renameIdentity(groupId: string, identityId: string, displayName: string): Promise<void> {
+    const mapping = await this.getMapping(groupId);
+    const displayNames = { ...mapping.displayNames };
+    if (displayName.trim()) {
+      displayNames[identityId] = displayName.trim();
+    } else {
+      delete displayNames[identityId];
+    }
+    await this.saveMapping({ ...mapping, displayNames });
+  }
+
+  /**
+   * 忽略一条合并建议，之后不再提示
+   */
+  async dismissSuggestion(groupId: string, identityIds: string[]): Promise<void> {
+    const mapping = await this.getMapping(groupId);
+    const key = getSuggestionKey(identityIds);
+    if (mapping.dismissedSuggestions.includes(key)) return;
+    await this.saveMapping({ ...mapping, dismissedSuggestions: [...mapping.dismissedSuggestions, key] });
+  }
+
+  /**
+   * 清空内存中的缓存，下次使用时从数据库重新读取，用于数据被外部修改（如恢复备份）之后
+   */
+  reload(): void {
+    this.mappings.clear();
+  }
+
+  /**
+   * 获取群聊的身份调整，没有时返回空的调整
+   */
+  private async getMapping(groupId: string): Promise<IdentityMapping> {
+    let mapping = this.mappings.get(groupId);
+    if (!mapping) {
+      mapping = await identityMappingRepository.get(groupId) ?? {
+        id: groupId,
+        links: {},
+        displayNames: {},
+        dismissedSuggestions: [],
+        updatedAt: new Date(),
+      };
+      this.mappings.set(groupId, mapping);
+    }
+    return mapping;
+  }
+
+  /**
+   * 保存群聊的身份调整，写入数据库成功后才更新缓存
+   */
+  private async saveMapping(mapping: IdentityMapping): Promise<void> {
+    const saved = { ...mapping, updatedAt: new Date() };
+    await identityMappingRepository.put(saved);
+    this.mappings.set(saved.id, saved);
+  }
+}
+
+// 导出服务实例
+const identityService = new IdentityService();
+export default identityService;
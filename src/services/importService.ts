@@ -0,0 +1,158 @@
+import type {
+  ChatImporter,
+  ChatImportFormat,
+  ChatMessage,
+  ImportColumnMapping,
+  ImportMergeResult,
+  ImportParseResult,
+} from '../types';
+import { assignToGroup, mergeMessages } from '../utils/messageIdentity';
+import { detectImporter, getImporter, SNIFF_SAMPLE_SIZE } from '../utils/parsers';
+import type { ImportWorkerRequest, ImportWorkerResponse } from '../workers/importWorker';
+
+export interface ImportRequestOptions {
+  format?: ChatImportFormat | 'auto';
+  // 导入的目标群聊，参与消息ID的计算
+  groupId?: string;
+  columnMapping?: ImportColumnMapping;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ImportOutcome {
+  importer: ChatImporter;
+  result: ImportParseResult;
+  // 表格类格式的表头和实际使用的列映射，其他格式为空
+  headers: string[];
+  columnMapping: ImportColumnMapping;
+}
+
+/**
+ * 创建表示导入被取消的错误
+ */
+const createAbortError = (): Error => {
+  const error = new Error('导入已取消');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * 聊天记录导入服务 - 解析导入的文件或文本
+ */
+class ImportService {
+  /**
+   * 在Web Worker中分块读取并解析文件，按实际读取的字节数报告进度
+   * 通过signal取消时会立即终止Worker
+   */
+  importFile(file: File, options: ImportRequestOptions = {}): Promise<ImportOutcome> {
+    const { format = 'auto', groupId, columnMapping, onProgress, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+      const messages: ChatMessage[] = [];
+      let importer: ChatImporter | undefined;
+      let headers: string[] = [];
+      let usedMapping: ImportColumnMapping = {};
+
+      const cleanup = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', handleAbort);
+      };
+
+      const handleAbort = () => {
+        cleanup();
+        reject(createAbortError());
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+
+      worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+        const response = event.data;
+        switch (response.type) {
+          case 'detected':
+            importer = getImporter(response.format);
+            headers = response.headers;
+            usedMapping = response.columnMapping;
+            break;
+          case 'progress':
+            onProgress?.(response.loaded, response.total);
+            break;
+          case 'messages':
+            // 分批追加，避免大数组展开时超出调用栈
+            for (const message of response.messages) {
+              messages.push(message);
+            }
+            break;
+          case 'done':
+            cleanup();
+            if (!importer) {
+              reject(new Error('无法识别文件格式'));
+              return;
+            }
+            resolve({
+              importer,
+              result: { messages, errors: response.errors },
+              headers,
+              columnMapping: usedMapping,
+            });
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(response.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        cleanup();
+        reject(new Error(event.message || '文件解析失败'));
+      };
+
+      const request: ImportWorkerRequest = {
+        file,
+        format,
+        options: { groupId, columnMapping },
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * 在主线程中解析粘贴的文本，适用于内容较少的手动输入
+   */
+  importText(
+    content: string,
+    options: Pick<ImportRequestOptions, 'format' | 'groupId' | 'columnMapping'> = {}
+  ): ImportOutcome {
+    const { format = 'auto', groupId, columnMapping } = options;
+    const importer = (format !== 'auto' && getImporter(format)) || detectImporter(content);
+
+    const headers = importer.getHeaders ? importer.getHeaders(content.slice(0, SNIFF_SAMPLE_SIZE)) : [];
+    const usedMapping = columnMapping
+      ?? (importer.detectColumnMapping ? importer.detectColumnMapping(headers) : {});
+
+    return {
+      importer,
+      result: importer.parse(content, { groupId, columnMapping: usedMapping }),
+      headers,
+      columnMapping: usedMapping,
+    };
+  }
+
+  /**
+   * 将解析出的消息与目标群聊中已有的消息比对，区分新增、重复和冲突的消息
+   * 重复导入同一份或有重叠的聊天记录时，只有新增的消息需要写入
+   */
+  mergeWithExisting(groupId: string, existing: ChatMessage[], incoming: ChatMessage[]): ImportMergeResult {
+    return mergeMessages(existing, assignToGroup(incoming, groupId));
+  }
+}
+
+// 导出服务实例
+const importService = new ImportService();
+export default importService;
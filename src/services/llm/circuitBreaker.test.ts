@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+import { LLMAuthError, LLMCircuitOpenError, LLMServerError } from './errors';
+
+const fail = (error: Error) => () => Promise.reject(error);
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const trip = async (breaker: CircuitBreaker, times: number) => {
+    for (let i = 0; i < times; i++) {
+      await expect(breaker.execute(fail(new LLMServerError('down')))).rejects.toBeInstanceOf(LLMServerError);
+    }
+  };
+
+  it('opens after consecutive retryable failures and rejects without calling the service', async () => {
+    const breaker = new CircuitBreaker('测试', { failureThreshold: 3, cooldownMs: 1000 });
+    await trip(breaker, 3);
+    expect(breaker.getState()).toBe('open');
+
+    const operation = vi.fn(succeed);
+    const error = await breaker.execute(operation).catch(caught => caught);
+    expect(error).toBeInstanceOf(LLMCircuitOpenError);
+    expect(error.retryAfterMs).toBe(1000);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('counts only consecutive failures', async () => {
+    const breaker = new CircuitBreaker('测试', { failureThreshold: 3 });
+    await trip(breaker, 2);
+    await breaker.execute(succeed);
+    await trip(breaker, 2);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('treats a definite error from the service as the service being available', async () => {
+    const breaker = new CircuitBreaker('测试', { failureThreshold: 3 });
+    await trip(breaker, 2);
+    await expect(breaker.execute(fail(new LLMAuthError('bad key')))).rejects.toBeInstanceOf(LLMAuthError);
+    await trip(breaker, 2);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one trial request through after the cooldown and closes when it succeeds', async () => {
+    const breaker = new CircuitBreaker('测试', { failureThreshold: 1, cooldownMs: 1000 });
+    await trip(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => {
+      finishTrial = resolve;
+    }));
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(LLMCircuitOpenError);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the trial request fails', async () => {
+    const breaker = new CircuitBreaker('测试', { failureThreshold: 2, cooldownMs: 1000 });
+    await trip(breaker, 2);
+    vi.advanceTimersByTime(1000);
+    await trip(breaker, 1);
+    expect(breaker.getState()).toBe('open');
+  });
+});
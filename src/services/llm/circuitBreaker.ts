@@ -0,0 +1,79 @@
+import { LLMCircuitOpenError, LLMError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreakerOptions {
+  // 连续失败多少次后打开
+  failureThreshold?: number;
+  // 打开后经过多久允许试探请求
+  cooldownMs?: number;
+}
+
+/**
+ * 熔断器 - 服务连续出现可重试的失败（超时、限流、服务端错误等）时暂停请求，避免继续请求不可用的服务
+ * 冷却期过后只放行一个试探请求，成功则恢复，失败则重新进入冷却期
+ */
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private isTrialRunning = false;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  /**
+   * 获取熔断器当前的状态
+   */
+  getState(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * 通过熔断器执行请求，熔断器打开时直接抛出LLMCircuitOpenError
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.isTrialRunning)) {
+      const waitMs = state === 'open' ? this.cooldownMs - (Date.now() - this.openedAt!) : this.cooldownMs;
+      throw new LLMCircuitOpenError(
+        `${this.name}连续请求失败，已暂停请求，请在${Math.ceil(waitMs / 1000)}秒后重试`,
+        { retryAfterMs: waitMs }
+      );
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.isTrialRunning = true;
+    try {
+      const result = await operation();
+      this.reset();
+      return result;
+    } catch (error) {
+      if (error instanceof LLMError) {
+        if (error.retryable) {
+          this.failures++;
+          if (isTrial || this.failures >= this.failureThreshold) {
+            this.openedAt = Date.now();
+          }
+        } else {
+          // 服务端给出了明确的错误（如密钥无效），说明服务本身可用
+          this.reset();
+        }
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.isTrialRunning = false;
+    }
+  }
+
+  private reset(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+}
@@ -0,0 +1,175 @@
+import type { LLMErrorKind } from '../../types';
+import { isRecord } from '../../utils/typeGuards';
+
+interface LLMErrorOptions {
+  status?: number;
+  // 服务端通过Retry-After要求的等待时间
+  retryAfterMs?: number;
+}
+
+/**
+ * 模型服务调用失败的错误，kind表示失败原因，retryable表示稍后重试可能成功
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, retryable: boolean, options: LLMErrorOptions = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * API密钥未配置、无效或没有权限
+ */
+export class LLMAuthError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('auth', message, false, options);
+    this.name = 'LLMAuthError';
+  }
+}
+
+/**
+ * 账户余额或额度不足，充值前重试也不会成功
+ */
+export class LLMQuotaError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('quota', message, false, options);
+    this.name = 'LLMQuotaError';
+  }
+}
+
+/**
+ * 请求过于频繁被限流
+ */
+export class LLMRateLimitError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('rateLimit', message, true, options);
+    this.name = 'LLMRateLimitError';
+  }
+}
+
+/**
+ * 等待响应超时
+ */
+export class LLMTimeoutError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('timeout', message, true, options);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * 无法连接到服务或连接中断
+ */
+export class LLMNetworkError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('network', message, true, options);
+    this.name = 'LLMNetworkError';
+  }
+}
+
+/**
+ * 服务端错误（5xx）
+ */
+export class LLMServerError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('server', message, true, options);
+    this.name = 'LLMServerError';
+  }
+}
+
+/**
+ * 模型返回的内容为空、格式无效或被安全策略拦截
+ */
+export class LLMContentError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('content', message, false, options);
+    this.name = 'LLMContentError';
+  }
+}
+
+/**
+ * 请求本身有误（如参数无效、超出上下文长度），原样重试不会成功
+ */
+export class LLMRequestError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('request', message, false, options);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * 服务连续失败后熔断器打开，冷却期内直接拒绝请求
+ */
+export class LLMCircuitOpenError extends LLMError {
+  constructor(message: string, options?: LLMErrorOptions) {
+    super('circuitOpen', message, false, options);
+    this.name = 'LLMCircuitOpenError';
+  }
+}
+
+/**
+ * 解析Retry-After响应头，值可以是秒数或HTTP日期，无法解析时返回undefined
+ */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * 根据错误状态码和响应内容创建对应类型的错误
+ * @param providerName 服务商名称，用于错误信息
+ * @param status HTTP状态码
+ * @param body 解析后的响应内容
+ * @param retryAfter Retry-After响应头
+ */
+export const createHttpError = (
+  providerName: string,
+  status: number,
+  body: unknown,
+  retryAfter: string | null = null
+): LLMError => {
+  const data = isRecord(body) ? body : {};
+  const error = isRecord(data.error) ? data.error : {};
+  const detail = [error.message, data.message].find((message): message is string => typeof message === 'string' && message !== '');
+  const code = `${error.code ?? ''} ${error.type ?? ''}`;
+  const withDetail = (message: string) => detail ? `${message}（${detail}）` : message;
+  const options: LLMErrorOptions = { status, retryAfterMs: parseRetryAfter(retryAfter) };
+
+  if (status === 401 || status === 403) {
+    return new LLMAuthError(withDetail(`${providerName} API密钥无效或没有访问权限，请在设置中检查API密钥`), options);
+  }
+  if (status === 402 || code.includes('insufficient_quota')) {
+    return new LLMQuotaError(withDetail(`${providerName}账户余额或额度不足，请充值后再试`), options);
+  }
+  if (status === 429) {
+    return new LLMRateLimitError(withDetail(`${providerName}请求过于频繁，请稍后再试`), options);
+  }
+  if (status === 408 || status === 504) {
+    return new LLMTimeoutError(`${providerName}响应超时，请稍后再试`, options);
+  }
+  if (status >= 500) {
+    return new LLMServerError(withDetail(`${providerName}服务暂时不可用（${status}）`), options);
+  }
+  if (code.includes('content_filter') || code.includes('content_policy')) {
+    return new LLMContentError(withDetail('请求内容被服务商的安全策略拦截'), options);
+  }
+  return new LLMRequestError(detail || `请求失败（${status}）`, options);
+};
+
+/**
+ * 获取错误的失败原因，不是模型服务调用失败时返回null
+ */
+export const getLLMErrorKind = (error: unknown): LLMErrorKind | null =>
+  error instanceof LLMError ? error.kind : null;
@@ -0,0 +1,38 @@
+import type { LLMProvider, LLMProviderConfig, LLMSettings } from '../../types';
+import { getProvider } from './providers';
+import llmSettingsStore from './settingsStore';
+
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { OllamaProvider } from './ollamaProvider';
+export { MockProvider, MOCK_SCENARIOS } from './mockProvider';
+export type { MockScenario } from './mockProvider';
+export { CircuitBreaker } from './circuitBreaker';
+export {
+  LLMError,
+  LLMAuthError,
+  LLMQuotaError,
+  LLMRateLimitError,
+  LLMTimeoutError,
+  LLMNetworkError,
+  LLMServerError,
+  LLMContentError,
+  LLMRequestError,
+  LLMCircuitOpenError,
+  createHttpError,
+  getLLMErrorKind,
+  parseRetryAfter,
+} from './errors';
+export { getProvider, getProviders } from './providers';
+export { llmSettingsStore };
+
+/**
+ * 获取当前选择的服务商及其配置
+ */
+export const getActiveProvider = (): { provider: LLMProvider; config: LLMProviderConfig; settings: LLMSettings } => {
+  const settings = llmSettingsStore.getSettings();
+  return {
+    provider: getProvider(settings.provider),
+    config: settings.providers[settings.provider],
+    settings,
+  };
+};
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LLMCompletionRequest, LLMProviderConfig } from '../../types';
+import { MOCK_SCENARIOS, MockProvider } from './mockProvider';
+import type { MockScenario } from './mockProvider';
+import { LLMAuthError, LLMRateLimitError, LLMServerError, LLMTimeoutError } from './errors';
+
+const createProvider = () => new MockProvider({
+  id: 'mock',
+  name: '模拟服务',
+  description: '',
+  defaultApiUrl: 'http://mock.local/v1',
+  defaultModels: [...MOCK_SCENARIOS],
+  requiresApiKey: false,
+  contextWindow: 64000,
+});
+
+const config = (model: MockScenario): LLMProviderConfig => ({ apiUrl: 'http://mock.local/v1', apiKey: '', model });
+
+const request = (model: MockScenario): LLMCompletionRequest => ({
+  model,
+  messages: [
+    { role: 'system', content: '请提取要点' },
+    { role: 'user', content: '[1] 张三: 早上好\n[2] 李四: 今天开会' },
+  ],
+});
+
+// 可重试的失败会按退避时间重试，用假定时器跳过等待
+const settle = async <T>(promise: Promise<T>): Promise<T | unknown> => {
+  vi.useFakeTimers();
+  const result = promise.catch(error => error);
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe('MockProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('lists the scenarios as models', async () => {
+    await expect(createProvider().listModels(config('mock-success'))).resolves.toEqual([...MOCK_SCENARIOS].sort());
+  });
+
+  it('answers with fixed content and usage', async () => {
+    const completion = await createProvider().complete(request('mock-success'), config('mock-success'));
+
+    expect(completion.content).toBe('- 模拟要点：共2行内容\n- [1] 张三: 早上好\n- [2] 李四: 今天开会');
+    expect(completion.reasoning).toBeUndefined();
+    expect(completion.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('streams the same content token by token', async () => {
+    const provider = createProvider();
+    const { content } = await provider.complete(request('mock-success'), config('mock-success'));
+    const tokens: string[] = [];
+
+    const streamed = await provider.completeStream(request('mock-success'), config('mock-success'), token => tokens.push(token));
+
+    expect(streamed.content).toBe(content);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(content);
+    expect(streamed.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('keeps the reasoning of reasoning models out of the content', async () => {
+    const tokens: string[] = [];
+    const completion = await createProvider().completeStream(request('mock-reasoning'), config('mock-reasoning'), token => tokens.push(token));
+
+    expect(completion.reasoning).toMatch(/^模拟思考过程/);
+    expect(completion.content).not.toContain('模拟思考过程');
+    expect(tokens.join('')).toBe(completion.content);
+  });
+
+  it('succeeds after retrying a flaky request', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const completion = await settle(createProvider().complete(request('mock-flaky'), config('mock-flaky')));
+
+    expect(completion).toMatchObject({ content: expect.stringContaining('模拟要点') });
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry an invalid API key', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = await createProvider().complete(request('mock-unauthorized'), config('mock-unauthorized')).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMAuthError);
+    expect(error.retryable).toBe(false);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['mock-rate-limited', LLMRateLimitError],
+    ['mock-server-error', LLMServerError],
+    ['mock-timeout', LLMTimeoutError],
+  ] as const)('gives up on %s after the retries', async (scenario, ErrorType) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = await settle(createProvider().complete(request(scenario), config(scenario)));
+
+    expect(error).toBeInstanceOf(ErrorType);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as the rate limit asks before retrying', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    await settle(createProvider().complete(request('mock-rate-limited'), config('mock-rate-limited')));
+
+    // 第一次退避为0.5秒，短于Retry-After要求的1秒
+    expect(vi.mocked(console.warn).mock.calls[0][0]).toContain('1秒后第1次重试');
+  });
+
+  it('ends a stalled request with an AbortError when it is aborted', async () => {
+    const controller = new AbortController();
+    const promise = createProvider().completeStream(request('mock-stall'), config('mock-stall'), () => {}, controller.signal);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops reading the stream when it is aborted', async () => {
+    const controller = new AbortController();
+    const tokens: string[] = [];
+    const promise = createProvider().completeStream(request('mock-success'), config('mock-success'), token => {
+      tokens.push(token);
+      controller.abort();
+    }, controller.signal);
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(tokens).toHaveLength(1);
+  });
+});
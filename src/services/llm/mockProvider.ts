@@ -0,0 +1,212 @@
+import type { DeepseekResponse, DeepseekStreamChunk, LLMChatMessage, SummarySection } from '../../types';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { SUMMARY_SECTIONS } from '../promptTemplateService';
+import { estimateTokens } from '../../utils/tokenUtils';
+import { hashString } from '../../utils/hashUtils';
+import { sleep } from '../../utils/retry';
+
+// 模拟服务支持的场景，在API设置中作为模型选择
+export const MOCK_SCENARIOS = [
+  // 正常返回
+  'mock-success',
+  // 正常返回，并附带推理模型的思考过程
+  'mock-reasoning',
+  // 每个请求第一次返回503，重试后成功
+  'mock-flaky',
+  // 401，API密钥无效
+  'mock-unauthorized',
+  // 429，要求1秒后重试
+  'mock-rate-limited',
+  // 500
+  'mock-server-error',
+  // 504，网关超时
+  'mock-timeout',
+  // 不返回任何响应，直到请求被中止或超时
+  'mock-stall',
+] as const;
+
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+// 流式响应每段内容的字符数和两段之间的间隔
+const STREAM_CHUNK_SIZE = 8;
+const STREAM_DELAY_MS = 20;
+
+/**
+ * 本地模拟服务商 - 不发送网络请求，按场景在进程内返回固定的结果，用于离线开发和测试
+ * 模型名称即场景名称；请求仍然经过重试、熔断、超时、流式解析和用量记录的完整流程
+ */
+export class MockProvider extends OpenAICompatibleProvider {
+  // mock-flaky场景中已经失败过一次的请求
+  private failedRequests = new Set<string>();
+
+  protected async fetch(url: string, init: RequestInit): Promise<Response> {
+    // 与fetch一致，已经中止的请求直接以AbortError结束
+    if (init.signal?.aborted) {
+      throw new DOMException('请求已中止', 'AbortError');
+    }
+    if (url.endsWith('/models')) {
+      return this.jsonResponse(200, { data: MOCK_SCENARIOS.map(id => ({ id })) });
+    }
+
+    const body = JSON.parse(String(init.body));
+    const scenario: MockScenario = MOCK_SCENARIOS.includes(body.model) ? body.model : 'mock-success';
+    const requestKey = hashString(String(init.body));
+
+    switch (scenario) {
+      case 'mock-unauthorized':
+        return this.errorResponse(401, 'Authentication Fails, Your api key is invalid', 'authentication_error');
+      case 'mock-rate-limited':
+        return this.errorResponse(429, 'Rate limit reached', 'rate_limit_error', { 'Retry-After': '1' });
+      case 'mock-server-error':
+        return this.errorResponse(500, 'Internal server error', 'server_error');
+      case 'mock-timeout':
+        return this.errorResponse(504, 'Gateway timeout', 'server_error');
+      case 'mock-stall':
+        return this.stall(init.signal ?? undefined);
+      case 'mock-flaky':
+        if (!this.failedRequests.has(requestKey)) {
+          this.failedRequests.add(requestKey);
+          return this.errorResponse(503, 'Service temporarily unavailable', 'server_error');
+        }
+        this.failedRequests.delete(requestKey);
+        break;
+    }
+
+    const messages: LLMChatMessage[] = body.messages ?? [];
+    const content = this.createContent(messages);
+    const reasoning = scenario === 'mock-reasoning' ? this.createReasoning(messages) : undefined;
+    const promptTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(content) + estimateTokens(reasoning ?? '');
+    const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+    const id = `mock-${requestKey}`;
+
+    if (body.stream) {
+      return this.streamResponse(id, body.model, content, reasoning, body.stream_options?.include_usage ? usage : undefined, init.signal ?? undefined);
+    }
+
+    const response: DeepseekResponse = {
+      id,
+      model: body.model,
+      object: 'chat.completion',
+      created: 0,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content, reasoning_content: reasoning },
+        finish_reason: 'stop',
+      }],
+      usage,
+    };
+    return this.jsonResponse(200, response);
+  }
+
+  /**
+   * 根据请求生成固定的回答
+   * 系统提示词要求输出JSON总结时返回结构化总结，其余（分段要点、海报文案）返回文本
+   */
+  private createContent(messages: LLMChatMessage[]): string {
+    const systemPrompt = messages.find(message => message.role === 'system')?.content ?? '';
+    const userPrompt = messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+    const isEnglish = systemPrompt.startsWith('You are');
+    const lines = userPrompt.split('\n').map(line => line.trim()).filter(Boolean);
+    const excerpts = lines.slice(-3).map(line => line.length > 40 ? `${line.slice(0, 40)}…` : line);
+
+    const sections = SUMMARY_SECTIONS.filter(section => systemPrompt.includes(`"${section}"`));
+    if (sections.length > 0) {
+      // 引用摘录行开头的消息编号；notableInfo中有一条没有依据的内容，用于检查界面的标记
+      const refsOf = (line: string) => [...line.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1]));
+      const lastRefs = refsOf(lines[lines.length - 1] ?? '');
+      const summary: Record<SummarySection, unknown[]> = {
+        topics: [
+          { text: isEnglish ? `Mock summary of ${lines.length} lines` : `模拟总结：共${lines.length}行内容`, sources: lines.flatMap(refsOf) },
+          ...excerpts.map((excerpt, index) => ({ text: excerpt, sources: refsOf(lines[lines.length - excerpts.length + index]) })),
+        ],
+        decisions: [{ text: isEnglish ? 'Mock decision: proceed as planned' : '模拟决策：按计划推进', sources: lastRefs }],
+        actionItems: [{ task: isEnglish ? 'Mock task: share the meeting notes' : '模拟待办：整理并分享会议纪要', sources: lastRefs }],
+        notableInfo: [{ text: isEnglish ? 'Mock unsupported claim' : '模拟信息：没有依据的内容', sources: [] }],
+        openQuestions: [],
+      };
+      return JSON.stringify(Object.fromEntries(sections.map(section => [section, summary[section]])));
+    }
+
+    if (systemPrompt.includes('海报')) {
+      return `模拟海报文案：${excerpts[0] ?? '本周群聊精彩回顾'}`;
+    }
+
+    const title = isEnglish ? `Mock key points of ${lines.length} lines` : `模拟要点：共${lines.length}行内容`;
+    return [title, ...excerpts].map(line => `- ${line}`).join('\n');
+  }
+
+  private createReasoning(messages: LLMChatMessage[]): string {
+    const lineCount = messages.map(message => message.content).join('\n').split('\n').filter(Boolean).length;
+    return `模拟思考过程：请求共${lineCount}行，先找出讨论的话题，再整理决策和待办事项。`;
+  }
+
+  /**
+   * 以SSE格式逐段返回思考过程和回答，最后一个事件之前按需附带用量
+   */
+  private streamResponse(
+    id: string,
+    model: string,
+    content: string,
+    reasoning: string | undefined,
+    usage: DeepseekResponse['usage'] | undefined,
+    signal?: AbortSignal
+  ): Response {
+    const toChunk = (delta: DeepseekStreamChunk['choices'][number]['delta'], finishReason: string | null = null): DeepseekStreamChunk => ({
+      id,
+      model,
+      object: 'chat.completion.chunk',
+      created: 0,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+    const split = (text: string) => text.match(new RegExp(`[\\s\\S]{1,${STREAM_CHUNK_SIZE}}`, 'g')) ?? [];
+
+    const events: unknown[] = [
+      toChunk({ role: 'assistant', content: '' }),
+      ...split(reasoning ?? '').map(token => toChunk({ reasoning_content: token })),
+      ...split(content).map(token => toChunk({ content: token })),
+      toChunk({}, 'stop'),
+      ...(usage ? [{ id, model, object: 'chat.completion.chunk', created: 0, choices: [], usage }] : []),
+    ];
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for (const event of events) {
+            await sleep(STREAM_DELAY_MS, signal);
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  /**
+   * 一直不返回响应，请求中止（包括超时）时以AbortError结束
+   */
+  private stall(signal?: AbortSignal): Promise<Response> {
+    return new Promise((_resolve, reject) => {
+      const onAbort = () => reject(new DOMException('请求已中止', 'AbortError'));
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private errorResponse(status: number, message: string, type: string, headers: Record<string, string> = {}): Response {
+    return this.jsonResponse(status, { error: { message: `${message} (mock)`, type } }, headers);
+  }
+
+  private jsonResponse(status: number, data: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+}
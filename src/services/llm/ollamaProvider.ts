@@ -0,0 +1,24 @@
+import type { LLMProviderConfig } from '../../types';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+
+/**
+ * 本地模型服务商 - Ollama和llama.cpp的/v1接口都兼容OpenAI格式
+ * 模型列表优先使用Ollama的/api/tags接口，包含所有已下载的模型
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  async listModels(config: LLMProviderConfig): Promise<string[]> {
+    const baseUrl = (config.apiUrl || this.defaultApiUrl).replace(/\/+$/, '').replace(/\/v1$/, '');
+
+    try {
+      const response = await fetch(`${baseUrl}/api/tags`, { headers: this.getHeaders(config) });
+      if (response.ok) {
+        const data = await response.json();
+        return (data.models ?? []).map((model: { name: string }) => model.name).sort();
+      }
+    } catch {
+      // 不是Ollama（如llama.cpp），改用OpenAI兼容的模型列表接口
+    }
+
+    return super.listModels(config);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { LLMProviderConfig } from '../../types';
+import { LLMAuthError, LLMContentError } from './errors';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+
+type FetchHandler = (url: string, init: RequestInit) => Response;
+
+/**
+ * 不经过网络的服务商，请求交给测试提供的处理函数
+ */
+class TestProvider extends OpenAICompatibleProvider {
+  readonly requests: { url: string; init: RequestInit }[] = [];
+  private handler: FetchHandler;
+
+  constructor(handler: FetchHandler) {
+    super({
+      id: 'openai',
+      name: '测试服务',
+      description: '',
+      defaultApiUrl: 'https://llm.example.com/v1',
+      defaultModels: ['test-model'],
+      requiresApiKey: true,
+      contextWindow: 8000,
+    });
+    this.handler = handler;
+  }
+
+  protected fetch(url: string, init: RequestInit): Promise<Response> {
+    this.requests.push({ url, init });
+    return Promise.resolve(this.handler(url, init));
+  }
+}
+
+const config: LLMProviderConfig = { apiUrl: 'https://llm.example.com/v1/', apiKey: 'sk-test', model: 'test-model' };
+const request = { model: 'test-model', messages: [{ role: 'user' as const, content: 'hi' }] };
+
+/**
+ * 以SSE事件流返回各段数据；传入onCancel时流保持打开，只有读取方取消才会结束
+ */
+const createStreamResponse = (events: string[], onCancel?: () => void): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach(event => controller.enqueue(encoder.encode(`data: ${event}\n\n`)));
+      if (!onCancel) controller.close();
+    },
+    cancel() {
+      onCancel?.();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content }, finish_reason: null }] });
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends the API key and separates reasoning from the content', async () => {
+    const provider = new TestProvider(() => Response.json({
+      choices: [{ message: { content: '<think>先看看</think>总结内容' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }));
+
+    const completion = await provider.complete(request, config);
+
+    expect(completion).toEqual({
+      content: '总结内容',
+      reasoning: '先看看',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    });
+    expect(provider.requests[0].url).toBe('https://llm.example.com/v1/chat/completions');
+    expect((provider.requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+  });
+
+  it('omits the authorization header without an API key', async () => {
+    const provider = new TestProvider(() => Response.json({ data: [{ id: 'b' }, { id: 'a' }] }));
+
+    expect(await provider.listModels({ ...config, apiKey: '' })).toEqual(['a', 'b']);
+    expect(provider.requests[0].init.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('does not retry an invalid API key', async () => {
+    const provider = new TestProvider(() => Response.json({ error: { message: 'bad key' } }, { status: 401 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(provider.complete(request, config)).rejects.toBeInstanceOf(LLMAuthError);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('streams the content and reports the usage from the last chunk', async () => {
+    const provider = new TestProvider(() => createStreamResponse([
+      delta('早上'),
+      delta('好'),
+      JSON.stringify({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } }),
+      '[DONE]',
+    ]));
+    const tokens: string[] = [];
+
+    const completion = await provider.completeStream(request, config, token => tokens.push(token));
+
+    expect(tokens).toEqual(['早上', '好']);
+    expect(completion).toEqual({ content: '早上好', usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } });
+  });
+
+  it('stops reading and removes its abort listener after a malformed chunk', async () => {
+    const onCancel = vi.fn();
+    const provider = new TestProvider(() => createStreamResponse([delta('早'), '{not json'], onCancel));
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await expect(provider.completeStream(request, config, () => {}, controller.signal)).rejects.toBeInstanceOf(LLMContentError);
+
+    expect(onCancel).toHaveBeenCalled();
+    expect(removeListener.mock.calls.map(([type]) => type)).toEqual(addListener.mock.calls.map(([type]) => type));
+  });
+});
@@ -0,0 +1,329 @@
+import type {
+  DeepseekResponse,
+  DeepseekStreamChunk,
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderId,
+  LLMUsage,
+} from '../../types';
+import { createSseParser } from '../../utils/sseParser';
+import { splitReasoning } from '../../utils/reasoning';
+import { withRetry } from '../../utils/retry';
+import { CircuitBreaker } from './circuitBreaker';
+import { createHttpError, LLMContentError, LLMError, LLMNetworkError, LLMTimeoutError } from './errors';
+
+// 等待响应的超时时间，非流式请求包括读取完整的响应
+const REQUEST_TIMEOUT_MS = 120000;
+// 流式响应中两段内容之间允许的最长间隔
+const STREAM_IDLE_TIMEOUT_MS = 60000;
+
+export type LLMProviderDefinition = Pick<
+  LLMProvider,
+  'id' | 'name' | 'description' | 'defaultApiUrl' | 'defaultModels' | 'requiresApiKey' | 'contextWindow'
+>;
+
+/**
+ * OpenAI兼容接口的模型服务商 - 使用/chat/completions和/models接口
+ * Deepseek、OpenAI以及大多数第三方和本地推理服务都兼容这一接口
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderId;
+  readonly name: string;
+  readonly description: string;
+  readonly defaultApiUrl: string;
+  readonly defaultModels: string[];
+  readonly requiresApiKey: boolean;
+  readonly contextWindow: number;
+  // 每个API端点一个熔断器
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+
+  constructor(definition: LLMProviderDefinition) {
+    this.id = definition.id;
+    this.name = definition.name;
+    this.description = definition.description;
+    this.defaultApiUrl = definition.defaultApiUrl;
+    this.defaultModels = definition.defaultModels;
+    this.requiresApiKey = definition.requiresApiKey;
+    this.contextWindow = definition.contextWindow;
+  }
+
+  /**
+   * 获取服务端可用的模型列表
+   */
+  async listModels(config: LLMProviderConfig): Promise<string[]> {
+    const data = await this.send(config, undefined, async signal => {
+      const response = await this.request('/models', config, { method: 'GET', signal });
+      return response.json();
+    });
+    return (data.data ?? []).map((model: { id: string }) => model.id).sort();
+  }
+
+  /**
+   * 发送请求并返回生成的内容、思考过程和用量
+   * 推理模型的思考过程不计入内容，无论服务以reasoning_content返回还是放在内容开头的<think>标签中
+   */
+  async complete(request: LLMCompletionRequest, config: LLMProviderConfig, signal?: AbortSignal): Promise<LLMCompletion> {
+    const data: DeepseekResponse = await this.send(config, signal, async attemptSignal => {
+      const response = await this.request('/chat/completions', config, {
+        method: 'POST',
+        body: JSON.stringify(this.toRequestBody(request, false)),
+        signal: attemptSignal,
+      });
+      return response.json();
+    });
+
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new LLMContentError('生成的内容被服务商的安全策略拦截');
+    }
+    const { content, reasoning } = splitReasoning(choice?.message?.content ?? '');
+    if (content) {
+      return {
+        content,
+        reasoning: choice.message.reasoning_content?.trim() || reasoning,
+        usage: this.toUsage(data.usage),
+      };
+    }
+    throw new LLMContentError(`无法从${this.name}响应中提取内容`);
+  }
+
+  /**
+   * 以流式方式发送请求，每收到一段内容就回调onToken，返回完整的内容、思考过程和用量
+   * 思考过程不回调onToken
+   */
+  async completeStream(
+    request: LLMCompletionRequest,
+    config: LLMProviderConfig,
+    onToken: (token: string, content: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    // 只重试建立连接的过程，开始接收内容后再重试会重复回调已收到的内容
+    const response = await this.send(config, signal, attemptSignal => this.request('/chat/completions', config, {
+      method: 'POST',
+      headers: { 'Accept': 'text/event-stream' },
+      body: JSON.stringify(this.toRequestBody(request, true)),
+      signal: attemptSignal,
+    }));
+    if (!response.body) {
+      throw new LLMContentError(`${this.name}不支持流式响应`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    // 包含<think>标签的原始内容
+    let rawContent = '';
+    let content = '';
+    let reasoning = '';
+    let usage: LLMUsage | undefined;
+    let isDone = false;
+
+    const parser = createSseParser(data => {
+      if (isDone) return;
+      // 流的最后一个事件为[DONE]
+      if (data === '[DONE]') {
+        isDone = true;
+        return;
+      }
+
+      let chunk: DeepseekStreamChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        throw new LLMContentError(`${this.name}返回了无法解析的流式响应`);
+      }
+      usage = this.toUsage(chunk.usage) ?? usage;
+      if (chunk.choices[0]?.finish_reason === 'content_filter') {
+        throw new LLMContentError('生成的内容被服务商的安全策略拦截');
+      }
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.reasoning_content) {
+        reasoning += delta.reasoning_content;
+      }
+      if (delta?.content) {
+        rawContent += delta.content;
+        const visibleContent = splitReasoning(rawContent).content;
+        if (visibleContent.length > content.length) {
+          const token = visibleContent.slice(content.length);
+          content = visibleContent;
+          onToken(token, content);
+        }
+      }
+    });
+
+    // 连接建立后用户中止时取消读取，读取结束后移除监听
+    const onAbort = () => {
+      reader.cancel().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      while (!isDone) {
+        if (signal?.aborted) throw new DOMException('请求已取消', 'AbortError');
+        const { done, value } = await this.readChunk(reader);
+        if (signal?.aborted) throw new DOMException('请求已取消', 'AbortError');
+        if (done) break;
+        parser.write(decoder.decode(value, { stream: true }));
+      }
+      parser.write(decoder.decode());
+      parser.end();
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // 收到[DONE]、解析出错或中止后不再读取剩余的响应
+      await reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+
+    if (!content) {
+      throw new LLMContentError(`无法从${this.name}响应中提取内容`);
+    }
+    return { content, reasoning: reasoning.trim() || splitReasoning(rawContent).reasoning, usage };
+  }
+
+  /**
+   * 读取流式响应的下一段，超过STREAM_IDLE_TIMEOUT_MS没有新内容时视为超时
+   */
+  private readChunk(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<ReadableStreamReadResult<Uint8Array>> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reader.cancel().catch(() => {});
+        reject(new LLMTimeoutError(`${this.name}响应中断，超过${STREAM_IDLE_TIMEOUT_MS / 1000}秒没有收到新内容`));
+      }, STREAM_IDLE_TIMEOUT_MS);
+
+      reader.read().then(
+        result => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+        (error: unknown) => {
+          clearTimeout(timer);
+          // 用户主动中止时原样抛出
+          reject(error instanceof Error && error.name === 'AbortError' ? error : new LLMNetworkError(`与${this.name}的连接中断`));
+        }
+      );
+    });
+  }
+
+  /**
+   * 请求头，配置了API密钥时添加认证信息
+   */
+  protected getHeaders(config: LLMProviderConfig): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+    };
+  }
+
+  /**
+   * 通过熔断器发送请求，可重试的错误（网络错误、超时、限流、服务端错误）按指数退避重试
+   * 每次尝试单独计时，operation收到的signal在超时或用户中止时触发
+   */
+  protected async send<T>(
+    config: LLMProviderConfig,
+    signal: AbortSignal | undefined,
+    operation: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const circuitBreaker = this.getCircuitBreaker(config);
+
+    return withRetry(() => circuitBreaker.execute(async () => {
+      const controller = new AbortController();
+      let isTimedOut = false;
+      const timer = setTimeout(() => {
+        isTimedOut = true;
+        controller.abort();
+      }, REQUEST_TIMEOUT_MS);
+      // 请求结束后移除，流式响应的读取过程由completeStream单独监听中止
+      const onAbort = () => controller.abort();
+      if (signal?.aborted) controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        return await operation(controller.signal);
+      } catch (error) {
+        if (isTimedOut && error instanceof Error && error.name === 'AbortError') {
+          throw new LLMTimeoutError(`${this.name}超过${REQUEST_TIMEOUT_MS / 1000}秒没有响应`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }), {
+      signal,
+      shouldRetry: error => error instanceof LLMError && error.retryable,
+      getRetryAfter: error => error instanceof LLMError ? error.retryAfterMs : undefined,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`${this.name}请求失败，${Math.round(delayMs / 1000)}秒后第${attempt}次重试:`, (error as Error).message);
+      },
+    });
+  }
+
+  /**
+   * 发送单次请求，网络错误和错误状态码转换为对应类型的错误
+   * 使用fetch而不是axios，因为axios在浏览器中无法逐块读取流式响应
+   */
+  protected async request(path: string, config: LLMProviderConfig, init: RequestInit): Promise<Response> {
+    const url = `${(config.apiUrl || this.defaultApiUrl).replace(/\/+$/, '')}${path}`;
+
+    let response: Response;
+    try {
+      response = await this.fetch(url, {
+        ...init,
+        headers: { ...this.getHeaders(config), ...(init.headers as Record<string, string> | undefined) },
+      });
+    } catch (error) {
+      // 中止（用户取消或超时）时原样抛出，由调用方区分
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      console.error(`${this.name} API Error: No response received`, error);
+      throw new LLMNetworkError(`无法连接到${this.name}，请检查API端点和网络连接`);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error(`${this.name} API Error: ${response.status}`, errorData);
+      throw createHttpError(this.name, response.status, errorData, response.headers.get('Retry-After'));
+    }
+
+    return response;
+  }
+
+  /**
+   * 发送HTTP请求，子类可以替换为不经过网络的实现（如本地模拟服务）
+   */
+  protected fetch(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+
+  private getCircuitBreaker(config: LLMProviderConfig): CircuitBreaker {
+    const apiUrl = config.apiUrl || this.defaultApiUrl;
+    let circuitBreaker = this.circuitBreakers.get(apiUrl);
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(this.name);
+      this.circuitBreakers.set(apiUrl, circuitBreaker);
+    }
+    return circuitBreaker;
+  }
+
+  private toRequestBody(request: LLMCompletionRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+      // 流式响应默认不包含用量，需要单独开启
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private toUsage(usage: DeepseekResponse['usage'] | null | undefined): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import type { LLMProvider, LLMProviderId } from '../../types';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { MockProvider, MOCK_SCENARIOS } from './mockProvider';
+
+// 可选的模型服务商
+const providers: Record<LLMProviderId, LLMProvider> = {
+  deepseek: new OpenAICompatibleProvider({
+    id: 'deepseek',
+    name: 'Deepseek',
+    description: 'Deepseek官方API',
+    defaultApiUrl: import.meta.env.VITE_DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
+    defaultModels: ['deepseek-reasoner', 'deepseek-chat'],
+    requiresApiKey: true,
+    contextWindow: 64000,
+  }),
+  openai: new OpenAICompatibleProvider({
+    id: 'openai',
+    name: 'OpenAI兼容接口',
+    description: 'OpenAI或任何兼容OpenAI接口的服务',
+    defaultApiUrl: 'https://api.openai.com/v1',
+    defaultModels: ['gpt-4o-mini', 'gpt-4o'],
+    requiresApiKey: true,
+    contextWindow: 128000,
+  }),
+  ollama: new OllamaProvider({
+    id: 'ollama',
+    name: '本地模型',
+    description: '本机运行的Ollama或llama.cpp，聊天记录不会离开本机',
+    defaultApiUrl: 'http://localhost:11434/v1',
+    defaultModels: ['qwen2.5:7b', 'llama3.1:8b'],
+    requiresApiKey: false,
+    contextWindow: 8192,
+  }),
+  mock: new MockProvider({
+    id: 'mock',
+    name: '模拟服务',
+    description: '离线开发和测试用，不联网，按场景返回固定的结果或错误',
+    defaultApiUrl: 'http://mock.local/v1',
+    defaultModels: [...MOCK_SCENARIOS],
+    requiresApiKey: false,
+    contextWindow: 64000,
+  }),
+};
+
+/**
+ * 获取所有模型服务商
+ */
+export const getProviders = (): LLMProvider[] => Object.values(providers);
+
+/**
+ * 根据ID获取模型服务商
+ */
+export const getProvider = (id: LLMProviderId): LLMProvider => providers[id] ?? providers.deepseek;
@@ -0,0 +1,132 @@
+import type { LLMProvider, LLMProviderConfig, LLMProviderId, LLMSettings } from '../../types';
+import { getProviders } from './providers';
+
+// API设置在localStorage中的键
+const API_SETTINGS_KEY = 'apiSettings';
+// 旧版设置页单独保存的Deepseek API密钥
+const LEGACY_API_KEY_KEY = 'deepseek_api_key';
+
+type SettingsListener = (settings: LLMSettings) => void;
+
+/**
+ * API设置存储 - 保存各模型服务商的配置，修改后立即通知订阅的服务，无需重新构建
+ */
+class LLMSettingsStore {
+  private settings: LLMSettings | null = null;
+  private listeners = new Set<SettingsListener>();
+
+  constructor() {
+    // 其他标签页修改设置时同步
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === API_SETTINGS_KEY || event.key === null) {
+          this.reload();
+        }
+      });
+    }
+  }
+
+  /**
+   * 获取当前的API设置
+   */
+  getSettings(): LLMSettings {
+    if (!this.settings) {
+      this.settings = this.load();
+    }
+    return this.settings;
+  }
+
+  /**
+   * 保存API设置并通知订阅者
+   */
+  updateSettings(settings: LLMSettings): void {
+    localStorage.setItem(API_SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.removeItem(LEGACY_API_KEY_KEY);
+    this.settings = settings;
+    this.listeners.forEach(listener => listener(settings));
+  }
+
+  /**
+   * 从localStorage重新读取设置并通知订阅者，用于设置被外部修改（如恢复备份）之后
+   */
+  reload(): void {
+    this.settings = this.load();
+    this.listeners.forEach(listener => listener(this.settings as LLMSettings));
+  }
+
+  /**
+   * 订阅设置变更，返回取消订阅的函数
+   */
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 服务商的默认配置，Deepseek的API密钥可以通过环境变量提供
+   */
+  private getDefaultConfig(provider: LLMProvider): LLMProviderConfig {
+    return {
+      apiUrl: provider.defaultApiUrl,
+      apiKey: provider.id === 'deepseek' ? import.meta.env.VITE_DEEPSEEK_API_KEY || '' : '',
+      model: provider.defaultModels[0],
+    };
+  }
+
+  /**
+   * 默认的服务商，可以通过环境变量VITE_LLM_PROVIDER指定（如离线开发时使用mock）
+   */
+  private getDefaultProvider(): LLMProviderId {
+    const provider = import.meta.env.VITE_LLM_PROVIDER;
+    return getProviders().some(item => item.id === provider) ? provider : 'deepseek';
+  }
+
+  /**
+   * 读取API设置
+   * 兼容只有Deepseek配置的旧格式（apiKey、apiUrl、model直接保存在顶层）和旧版设置页保存的密钥
+   */
+  private load(): LLMSettings {
+    const settings: LLMSettings = {
+      provider: this.getDefaultProvider(),
+      providers: Object.fromEntries(
+        getProviders().map(provider => [provider.id, this.getDefaultConfig(provider)])
+      ) as Record<LLMProviderId, LLMProviderConfig>,
+      temperature: 0.7,
+      maxTokens: 1024,
+    };
+
+    try {
+      const legacyApiKey = localStorage.getItem(LEGACY_API_KEY_KEY);
+      if (legacyApiKey) {
+        settings.providers.deepseek.apiKey = legacyApiKey;
+      }
+
+      const stored = JSON.parse(localStorage.getItem(API_SETTINGS_KEY) || '{}');
+      if (stored.providers) {
+        (Object.keys(settings.providers) as LLMProviderId[]).forEach(id => {
+          settings.providers[id] = { ...settings.providers[id], ...stored.providers[id] };
+        });
+      } else {
+        const { apiKey, apiUrl, model } = stored;
+        settings.providers.deepseek = {
+          apiKey: apiKey || settings.providers.deepseek.apiKey,
+          apiUrl: apiUrl || settings.providers.deepseek.apiUrl,
+          model: model || settings.providers.deepseek.model,
+        };
+      }
+      if (stored.provider in settings.providers) settings.provider = stored.provider;
+      if (typeof stored.temperature === 'number') settings.temperature = stored.temperature;
+      if (typeof stored.maxTokens === 'number') settings.maxTokens = stored.maxTokens;
+    } catch (error) {
+      console.error('读取API设置失败:', error);
+    }
+
+    return settings;
+  }
+}
+
+// 导出服务实例
+const llmSettingsStore = new LLMSettingsStore();
+export default llmSettingsStore;
@@ -0,0 +1,56 @@
+import type { GeneratedPoster } from '../types';
+import { posterRepository } from './storage';
+
+/**
+ * 海报服务 - 保存和查询生成的海报图片
+ */
+class PosterService {
+  /**
+   * 保存生成的海报
+   */
+  async savePoster(poster: Omit<GeneratedPoster, 'id' | 'createdAt'>): Promise<GeneratedPoster> {
+    return posterRepository.put({
+      ...poster,
+      id: `poster_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * 获取海报列表，指定群聊时只返回该群聊的海报，按生成时间倒序
+   */
+  async getPosters(groupId?: string): Promise<GeneratedPoster[]> {
+    const posters = groupId
+      ? await posterRepository.getAllByIndex('groupId', groupId)
+      : await posterRepository.getAll();
+    return posters.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * 获取根据指定总结生成的海报
+   */
+  async getPostersBySummary(summaryId: string): Promise<GeneratedPoster[]> {
+    const posters = await posterRepository.getAllByIndex('summaryId', summaryId);
+    return posters.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * 固定或取消固定海报，固定的海报不会被数据保留期清理
+   */
+  async setPosterPinned(posterId: string, isPinned: boolean): Promise<GeneratedPoster | null> {
+    const poster = await posterRepository.get(posterId);
+    if (!poster) return null;
+    return posterRepository.put({ ...poster, isPinned });
+  }
+
+  /**
+   * 删除海报
+   */
+  async deletePoster(posterId: string): Promise<void> {
+    await posterRepository.delete(posterId);
+  }
+}
+
+// 导出服务实例
+const posterService = new PosterService();
+export default posterService;
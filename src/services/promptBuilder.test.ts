@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../types';
+import promptBuilder from './promptBuilder';
+
+const createMessage = (sender: string, timestamp: Date, content: string, type: ChatMessage['type'] = 'text'): ChatMessage => ({
+  id: `${sender}_${timestamp.getTime()}`,
+  sender,
+  senderId: sender,
+  content,
+  timestamp,
+  type,
+  groupId: 'group_1',
+});
+
+const messages = [
+  createMessage('张三', new Date(2024, 0, 15, 9, 30), '明天十点开会'),
+  createMessage('李四', new Date(2024, 0, 15, 23, 50), 'photo.jpg', 'image'),
+  createMessage('张三', new Date(2024, 0, 16, 8, 5), '会议改到下午'),
+];
+
+describe('promptBuilder.buildSystemPrompt', () => {
+  it('asks for the output language', () => {
+    expect(promptBuilder.buildSystemPrompt()).toContain('请使用中文填写内容');
+    expect(promptBuilder.buildSystemPrompt({ language: 'en' })).toContain('Please write the content in English');
+  });
+
+  it('turns each summary option into an instruction', () => {
+    const prompt = promptBuilder.buildSystemPrompt({
+      detailLevel: 'brief',
+      summaryLength: 'short',
+      summaryStyle: 'casual',
+      focusPoints: ['预算', '排期'],
+      includeParticipants: false,
+      includeTimestamps: false,
+    });
+
+    expect(prompt).toContain('请提供简短的总结');
+    expect(prompt).toContain('总结全文约100-200字');
+    expect(prompt).toContain('使用轻松、口语化的表达');
+    expect(prompt).toContain('请特别关注以下方面：预算、排期。');
+    expect(prompt).toContain('不要在总结中提及任何参与者的名字');
+    expect(prompt).toContain('聊天记录不包含发送时间');
+    expect(prompt).not.toContain('"owner"');
+  });
+
+  it('lays out the JSON format in the order of the template sections', () => {
+    const prompt = promptBuilder.buildSystemPrompt({ template: 'action' });
+    const fields = [...prompt.matchAll(/^ {2}"(\w+)":/gm)].map(match => match[1]);
+
+    expect(fields).toEqual(['actionItems', 'openQuestions', 'decisions']);
+    expect(prompt).toContain('"owner": "负责人，没有则省略"');
+  });
+
+  it('fills in the group name and time range', () => {
+    const prompt = promptBuilder.buildSystemPrompt({
+      context: { groupName: '产品讨论群', startDate: new Date(2024, 0, 15, 9, 0), endDate: new Date(2024, 0, 15, 18, 0) },
+    });
+
+    expect(prompt).toContain('分析微信群聊「产品讨论群」的聊天记录');
+    expect(promptBuilder.buildSystemPrompt()).toContain('分析微信群聊「群聊」的聊天记录');
+  });
+});
+
+describe('promptBuilder.formatMessages', () => {
+  it('numbers the messages and adds a date line when they span several days', () => {
+    const lines = promptBuilder.formatMessages(messages).split('\n');
+
+    expect(lines).toEqual(expect.arrayContaining([
+      '[2024-01-15]',
+      '[1] 09:30 张三: 明天十点开会',
+      '[2] 23:50 李四: [图片]',
+      '[2024-01-16]',
+      '[3] 08:05 张三: 会议改到下午',
+    ]));
+    expect(lines.indexOf('[2024-01-16]')).toBe(lines.indexOf('[2] 23:50 李四: [图片]') + 1);
+  });
+
+  it('places the messages where the user prompt asks for them', () => {
+    const text = promptBuilder.formatMessages(messages.slice(0, 1), {
+      context: { groupName: '产品讨论群', startDate: new Date(2024, 0, 15, 9, 0), endDate: new Date(2024, 0, 15, 18, 0) },
+    });
+
+    expect(text).toBe('以下是微信群聊「产品讨论群」在2024-01-15 09:00至2024-01-15 18:00期间的消息记录，请根据这些内容生成总结：\n\n[1] 09:30 张三: 明天十点开会');
+  });
+
+  it('leaves out times and date lines when timestamps are excluded', () => {
+    const text = promptBuilder.formatMessages(messages, { includeTimestamps: false });
+
+    expect(text).toContain('[1] 张三: 明天十点开会\n[2] 李四: [图片]\n[3] 张三: 会议改到下午');
+    expect(text).not.toContain('[2024-01-15]');
+  });
+});
+
+describe('promptBuilder.formatChunk', () => {
+  it('states the time range of the chunk and continues the numbering', () => {
+    const text = promptBuilder.formatChunk(messages.slice(1), {}, 2);
+
+    expect(text.split('\n')).toEqual([
+      '以下是2024-01-15 23:50至2024-01-16 08:05的微信群聊消息记录：',
+      '',
+      '[2024-01-15]',
+      '[2] 23:50 李四: [图片]',
+      '[2024-01-16]',
+      '[3] 08:05 张三: 会议改到下午',
+      '',
+    ]);
+  });
+
+  it('uses a generic header without timestamps in English', () => {
+    const text = promptBuilder.formatChunk(messages.slice(0, 1), { includeTimestamps: false, language: 'en' });
+
+    expect(text).toBe('Below is a WeChat group chat record:\n\n[1] 张三: 明天十点开会\n');
+  });
+});
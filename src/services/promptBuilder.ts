@@ -0,0 +1,372 @@
+import type { ChatMessage, PromptContext, SummaryPromptOptions, SummarySection } from '../types';
+import promptTemplateService from './promptTemplateService';
+import { formatMessageContent } from '../utils/formatters';
+import { formatDate } from '../utils/dateUtils';
+
+type Language = 'zh' | 'en';
+
+// context用于渲染模板变量，没有时使用通用的说法
+type PromptOptions = SummaryPromptOptions & { context?: PromptContext };
+
+const DETAIL_INSTRUCTIONS: Record<NonNullable<SummaryPromptOptions['detailLevel']>, Record<Language, string>> = {
+  brief: {
+    zh: '请提供简短的总结，只包含主要话题和结论。',
+    en: 'Please provide a brief summary with only main topics and conclusions.',
+  },
+  detailed: {
+    zh: '请提供详细总结，包括主要讨论点和重要细节。',
+    en: 'Please provide a detailed summary including main discussion points and important details.',
+  },
+  comprehensive: {
+    zh: '请提供全面详尽的总结，包括所有重要讨论点、决策、行动项和关键信息。',
+    en: 'Please provide a comprehensive summary including all important discussion points, decisions, action items, and key information.',
+  },
+};
+
+// 与总结选项中对各长度的说明保持一致
+const LENGTH_INSTRUCTIONS: Record<NonNullable<SummaryPromptOptions['summaryLength']>, Record<Language, string>> = {
+  short: {
+    zh: '总结全文约100-200字，每个部分最多列出3条，每条一句话。',
+    en: 'Keep the whole summary to about 100-200 words, with at most 3 one-sentence items per section.',
+  },
+  medium: {
+    zh: '总结全文约300-500字，每个部分列出3到6条，每条简明扼要。',
+    en: 'Keep the whole summary to about 300-500 words, with 3 to 6 concise items per section.',
+  },
+  long: {
+    zh: '总结全文约600-1000字，每个部分尽量完整地列出相关内容，每条可以包含必要的背景和细节。',
+    en: 'Write about 600-1000 words, listing each section as completely as possible; items may include necessary background and details.',
+  },
+};
+
+const STYLE_INSTRUCTIONS: Record<NonNullable<SummaryPromptOptions['summaryStyle']>, Record<Language, string>> = {
+  formal: {
+    zh: '使用正式、客观的书面语。',
+    en: 'Use a formal and objective tone.',
+  },
+  casual: {
+    zh: '使用轻松、口语化的表达。',
+    en: 'Use a relaxed, conversational tone.',
+  },
+  creative: {
+    zh: '使用生动、有吸引力的表达，但不要夸大或虚构内容。',
+    en: 'Use vivid, engaging wording without exaggerating or inventing anything.',
+  },
+};
+
+const SECTION_SCHEMAS: Record<Exclude<SummarySection, 'actionItems'>, Record<Language, string>> = {
+  topics: {
+    zh: '群聊中讨论的主要话题和重点',
+    en: 'main topics and key points discussed in the group chat',
+  },
+  decisions: {
+    zh: '达成的决策、共识或结论',
+    en: 'decisions, consensus or conclusions reached',
+  },
+  notableInfo: {
+    zh: '提到的重要日期、数字、链接或其他关键信息',
+    en: 'important dates, numbers, links or other key information mentioned',
+  },
+  openQuestions: {
+    zh: '尚未解决或有待确认的问题',
+    en: 'questions that remain unresolved or need confirmation',
+  },
+};
+
+const SOURCES_SCHEMA: Record<Language, string> = {
+  zh: '"sources": [支持这条内容的消息编号]',
+  en: '"sources": [numbers of the messages supporting this item]',
+};
+
+// 总结和分段提取要点时都要求注明依据的消息，用于在界面中核对总结内容
+const CITATION_INSTRUCTIONS: Record<'summary' | 'chunk', Record<Language, string>> = {
+  summary: {
+    zh: '聊天记录和要点中方括号里的数字（如[12]）是消息编号。每一条内容都要在sources中列出直接支持它的消息编号，找不到依据的内容不要写入总结。',
+    en: 'Numbers in square brackets (e.g. [12]) in the chat record and key points are message numbers. List the numbers of the messages that directly support each item in its sources; leave out anything you cannot support.',
+  },
+  chunk: {
+    zh: '聊天记录和要点中方括号里的数字（如[12]）是消息编号。每条要点后用方括号注明依据的消息编号，如[3][15]，合并要点时保留原有的编号。',
+    en: 'Numbers in square brackets (e.g. [12]) in the chat record and key points are message numbers. End each key point with the numbers of the messages it is based on, e.g. [3][15], and keep existing numbers when merging key points.',
+  },
+};
+
+/**
+ * 提示词构建 - 把总结选项转换为提示词中的要求和聊天记录的格式
+ */
+class PromptBuilder {
+  /**
+   * 获取模板输出的总结部分，按展示顺序排列
+   */
+  getSections(template?: string): SummarySection[] {
+    return promptTemplateService.getTemplate(template).sections;
+  }
+
+  /**
+   * 构建总结的系统提示词：模板的系统提示词，加上JSON格式说明和各选项的要求
+   */
+  buildSystemPrompt(options: PromptOptions = {}): string {
+    const {
+      language = 'zh',
+      detailLevel = 'comprehensive',
+      summaryLength = 'medium',
+      summaryStyle = 'formal',
+    } = options;
+
+    const template = promptTemplateService.getTemplate(options.template, language);
+    const requirements = [
+      DETAIL_INSTRUCTIONS[detailLevel][language],
+      LENGTH_INSTRUCTIONS[summaryLength][language],
+      STYLE_INSTRUCTIONS[summaryStyle][language],
+      ...this.buildContentRequirements(options),
+      CITATION_INSTRUCTIONS.summary[language],
+    ];
+
+    if (language === 'zh') {
+      return `${this.renderTemplate(template.systemPrompt, options)}
+
+请使用中文填写内容，只输出一个JSON对象，不要输出其他文字或代码块标记。JSON格式如下：
+
+${this.buildSummarySchema(options)}
+
+${requirements.join('\n')}
+
+请确保总结客观、准确，不添加原始聊天中不存在的信息。`;
+    }
+
+    return `${this.renderTemplate(template.systemPrompt, options)}
+
+Please write the content in English and output a single JSON object only, without any other text or code fences. The JSON format is:
+
+${this.buildSummarySchema(options)}
+
+${requirements.join('\n')}
+
+Please ensure the summary is objective, accurate, and does not add information that doesn't exist in the original chat.`;
+  }
+
+  /**
+   * 构建分段要点提取的系统提示词
+   * @param part 分块序号，如“2/5”，合并要点时不传
+   */
+  buildChunkPrompt(options: SummaryPromptOptions = {}, part?: string): string {
+    const { language = 'zh' } = options;
+    const requirements = [...this.buildContentRequirements(options), CITATION_INSTRUCTIONS.chunk[language]].join('\n');
+
+    if (language === 'zh') {
+      const source = part ? `一段较长群聊记录中的第${part}部分` : '同一个群聊按时间顺序分段整理的要点';
+      return `你是一位专业的微信群聊总结助手。下面是${source}。
+请提取其中的要点，包括讨论的话题、达成的决策和结论、待办事项、未解决的问题，以及提到的重要日期、数字和链接。
+${requirements}
+请使用中文，只输出简洁的要点列表，不添加原始内容中不存在的信息。`;
+    }
+
+    const source = part
+      ? `part ${part} of a long WeChat group chat record`
+      : 'key points of one WeChat group chat, organized in chronological parts';
+    return `You are a professional WeChat group chat summarization assistant. Below is ${source}.
+Extract the key points, including topics discussed, decisions and conclusions, action items, open questions, and any important dates, numbers and links.
+${requirements}
+Respond in English with a concise list of key points only, and do not add information that is not in the original content.`;
+  }
+
+  /**
+   * 将分段要点拼接为合并请求的内容，按模板的用户提示词组织
+   */
+  formatPartials(partials: string[], options: PromptOptions = {}): string {
+    const { language = 'zh' } = options;
+    const intro = language === 'zh'
+      ? '以下是同一个群聊按时间顺序分段整理的要点，请将它们合并为一份完整的总结：'
+      : 'Below are key points of one group chat in chronological parts. Please merge them into one complete summary:';
+    const sections = partials.map((partial, index) =>
+      `### ${language === 'zh' ? `第${index + 1}部分` : `Part ${index + 1}`}\n${partial.trim()}`
+    );
+    return this.buildUserPrompt([intro, ...sections].join('\n\n'), options);
+  }
+
+  /**
+   * 将消息列表格式化为文本，按模板的用户提示词组织，消息从1开始编号
+   * 传入的消息应已经过身份合并并按时间排序，同一个人只以一个名字出现；消息跨天时插入日期行
+   */
+  formatMessages(messages: ChatMessage[], options: PromptOptions = {}): string {
+    const { includeTimestamps = true } = options;
+    const spansDays = messages.length > 0
+      && formatDate(messages[0].timestamp) !== formatDate(messages[messages.length - 1].timestamp);
+    const lines = includeTimestamps && spansDays
+      ? this.formatDatedLines(messages, options, 1)
+      : messages.map((message, index) => this.formatMessageLine(message, options, index + 1));
+    return this.buildUserPrompt(lines.join('\n'), options);
+  }
+
+  /**
+   * 将一个分块的消息格式化为文本，分块可能跨天，包含时间时开头注明时间范围
+   * @param firstRef 分块第一条消息在全部消息中的编号，各分块的编号连续
+   */
+  formatChunk(messages: ChatMessage[], options: SummaryPromptOptions = {}, firstRef: number = 1): string {
+    const { includeTimestamps = true, language = 'zh' } = options;
+    const start = formatDate(messages[0].timestamp, 'yyyy-MM-dd HH:mm');
+    const end = formatDate(messages[messages.length - 1].timestamp, 'yyyy-MM-dd HH:mm');
+    const header = language === 'zh'
+      ? (includeTimestamps ? `以下是${start}至${end}的微信群聊消息记录：` : '以下是一段微信群聊消息记录：')
+      : (includeTimestamps ? `Below is the WeChat group chat record from ${start} to ${end}:` : 'Below is a WeChat group chat record:');
+    const lines = includeTimestamps
+      ? this.formatDatedLines(messages, options, firstRef)
+      : messages.map((message, index) => this.formatMessageLine(message, options, firstRef + index));
+
+    return `${header}\n\n${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 将单条消息格式化为一行文本，includeTimestamps为false时不包含时间
+   * @param ref 消息编号，模型通过编号引用消息，不传时不加编号
+   */
+  formatMessageLine(message: ChatMessage, options: SummaryPromptOptions = {}, ref?: number): string {
+    const { includeTimestamps = true } = options;
+    const time = message.timestamp.toLocaleTimeString('zh-CN', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+    let line = ref === undefined ? '' : `[${ref}] `;
+    line += includeTimestamps ? `${time} ${message.sender}: ` : `${message.sender}: `;
+
+    switch (message.type) {
+      case 'text':
+        line += formatMessageContent(message.content);
+        break;
+      case 'image':
+        line += '[图片]';
+        break;
+      case 'voice':
+        line += '[语音]';
+        break;
+      case 'video':
+        line += '[视频]';
+        break;
+      case 'file':
+        line += `[文件] ${message.content}`;
+        break;
+      case 'location':
+        line += '[位置]';
+        break;
+      case 'system':
+        line += `[系统消息] ${message.content}`;
+        break;
+      default:
+        line += message.content;
+    }
+
+    return line;
+  }
+
+  /**
+   * 格式化消息，开头和每次跨天时插入日期行，消息行只包含时分
+   */
+  private formatDatedLines(messages: ChatMessage[], options: SummaryPromptOptions, firstRef: number): string[] {
+    const lines: string[] = [];
+    messages.forEach((message, index) => {
+      const previous = messages[index - 1];
+      if (!previous || formatDate(previous.timestamp) !== formatDate(message.timestamp)) {
+        lines.push(`[${formatDate(message.timestamp)}]`);
+      }
+      lines.push(this.formatMessageLine(message, options, firstRef + index));
+    });
+    return lines;
+  }
+
+  /**
+   * 渲染模板的用户提示词，模板中没有{{messages}}时把聊天记录放在最后
+   */
+  private buildUserPrompt(content: string, options: PromptOptions): string {
+    const { userPrompt } = promptTemplateService.getTemplate(options.template, options.language);
+    const prompt = this.renderTemplate(userPrompt, options, content);
+    return /\{\{\s*messages\s*\}\}/.test(userPrompt) ? prompt : `${prompt}\n\n${content}`;
+  }
+
+  /**
+   * 替换模板中的变量，不认识的变量原样保留
+   */
+  private renderTemplate(text: string, options: PromptOptions, messages = ''): string {
+    const { language = 'zh', focusPoints = [], context } = options;
+    const variables: Record<string, string> = language === 'zh'
+      ? {
+        groupName: context?.groupName ?? '群聊',
+        timeRange: context
+          ? `${formatDate(context.startDate, 'yyyy-MM-dd HH:mm')}至${formatDate(context.endDate, 'yyyy-MM-dd HH:mm')}`
+          : '所选时间范围',
+        focusPoints: focusPoints.length > 0 ? focusPoints.join('、') : '无',
+        messages,
+      }
+      : {
+        groupName: context?.groupName ?? 'the group',
+        timeRange: context
+          ? `${formatDate(context.startDate, 'yyyy-MM-dd HH:mm')} to ${formatDate(context.endDate, 'yyyy-MM-dd HH:mm')}`
+          : 'the selected time range',
+        focusPoints: focusPoints.length > 0 ? focusPoints.join(', ') : 'none',
+        messages,
+      };
+
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+  }
+
+  /**
+   * 关注点、参与者和时间相关的要求，总结和分段提取要点时都需要遵守
+   */
+  private buildContentRequirements(options: SummaryPromptOptions): string[] {
+    const {
+      language = 'zh',
+      focusPoints = [],
+      includeParticipants = true,
+      includeTimestamps = true,
+    } = options;
+    const requirements: string[] = [];
+
+    if (focusPoints.length > 0) {
+      requirements.push(language === 'zh'
+        ? `请特别关注以下方面：${focusPoints.join('、')}。`
+        : `Pay particular attention to: ${focusPoints.join(', ')}.`);
+    }
+    requirements.push(includeParticipants
+      ? (language === 'zh'
+        ? '提到观点、决策和任务时注明相关的参与者。'
+        : 'Name the participants involved when mentioning opinions, decisions and tasks.')
+      : (language === 'zh'
+        ? '不要在总结中提及任何参与者的名字。'
+        : 'Do not mention any participant by name.'));
+    if (!includeTimestamps) {
+      requirements.push(language === 'zh'
+        ? '聊天记录不包含发送时间，不要推测具体的时间。'
+        : 'The chat record has no timestamps; do not guess specific times.');
+    }
+
+    return requirements;
+  }
+
+  /**
+   * 结构化总结的JSON格式说明，只包含模板中的部分，字段名固定为英文
+   */
+  private buildSummarySchema(options: SummaryPromptOptions): string {
+    const { language = 'zh', template, includeParticipants = true } = options;
+
+    const fields = this.getSections(template).map(section => {
+      if (section !== 'actionItems') {
+        return `"${section}": [{"text": "${SECTION_SCHEMAS[section][language]}", ${SOURCES_SCHEMA[language]}}]`;
+      }
+
+      const owner = language === 'zh'
+        ? ', "owner": "负责人，没有则省略"'
+        : ', "owner": "person responsible, omit if unknown"';
+      return language === 'zh'
+        ? `"actionItems": [{"task": "需要跟进的任务或约定"${includeParticipants ? owner : ''}, "due": "截止时间，没有则省略", ${SOURCES_SCHEMA.zh}}]`
+        : `"actionItems": [{"task": "task or commitment to follow up"${includeParticipants ? owner : ''}, "due": "deadline, omit if unknown", ${SOURCES_SCHEMA.en}}]`;
+    });
+
+    const emptyHint = language === 'zh' ? '没有内容的部分使用空数组。' : 'Use an empty array for any section without content.';
+    return `{\n${fields.map(field => `  ${field}`).join(',\n')}\n}\n${emptyHint}`;
+  }
+}
+
+// 导出服务实例
+const promptBuilder = new PromptBuilder();
+export default promptBuilder;
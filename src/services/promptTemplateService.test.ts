@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { PromptTemplate } from '../types';
+import promptTemplateService, { DEFAULT_TEMPLATE_ID } from './promptTemplateService';
+
+const createTemplate = (): PromptTemplate => promptTemplateService.createTemplate({
+  name: ' 站会 ',
+  description: '每日站会',
+  systemPrompt: '总结「{{groupName}}」的站会',
+  userPrompt: '',
+  sections: ['openQuestions', 'actionItems', 'actionItems'],
+});
+
+describe('promptTemplateService', () => {
+  beforeEach(() => {
+    promptTemplateService.reload();
+  });
+
+  it('provides the built-in templates in the requested language', () => {
+    const templates = promptTemplateService.getTemplates('en');
+
+    expect(templates.map(template => template.id)).toEqual(['standard', 'concise', 'detailed', 'action', 'decision']);
+    expect(templates.every(template => template.builtIn)).toBe(true);
+    expect(promptTemplateService.getTemplate('action', 'en').systemPrompt).toContain('Be action-oriented');
+  });
+
+  it('falls back to the standard template for an unknown id', () => {
+    expect(promptTemplateService.getTemplate('deleted').id).toBe(DEFAULT_TEMPLATE_ID);
+  });
+
+  it('validates and normalizes a new template', () => {
+    const template = createTemplate();
+
+    expect(template).toMatchObject({
+      name: '站会',
+      userPrompt: '{{messages}}',
+      sections: ['openQuestions', 'actionItems'],
+      builtIn: false,
+      version: 1,
+    });
+    expect(() => promptTemplateService.createTemplate({ ...template, name: ' ' })).toThrow('模板名称不能为空');
+    expect(() => promptTemplateService.createTemplate({ ...template, sections: [] })).toThrow('至少需要选择一个总结部分');
+  });
+
+  it('keeps the previous content as a version when the prompt changes', () => {
+    const template = createTemplate();
+
+    const renamed = promptTemplateService.updateTemplate(template.id, { name: '晨会' });
+    expect(renamed.version).toBe(1);
+
+    const updated = promptTemplateService.updateTemplate(template.id, { systemPrompt: '新的提示词' });
+    expect(updated.version).toBe(2);
+    expect(updated.history.map(version => version.systemPrompt)).toEqual(['总结「{{groupName}}」的站会']);
+
+    const restored = promptTemplateService.restoreVersion(template.id, 1);
+    expect(restored).toMatchObject({ version: 3, systemPrompt: '总结「{{groupName}}」的站会' });
+    expect(restored.history.map(version => version.version)).toEqual([1, 2]);
+  });
+
+  it('does not let built-in templates be changed', () => {
+    expect(() => promptTemplateService.updateTemplate('standard', { name: '改名' })).toThrow('内置模板不能修改或删除');
+    expect(() => promptTemplateService.deleteTemplate('action')).toThrow('内置模板不能修改或删除');
+  });
+
+  it('keeps custom templates across reloads and notifies subscribers', () => {
+    const received: PromptTemplate[][] = [];
+    const unsubscribe = promptTemplateService.subscribe(templates => received.push(templates));
+    const template = createTemplate();
+    unsubscribe();
+
+    promptTemplateService.reload();
+    const reloaded = promptTemplateService.getTemplate(template.id);
+    expect(reloaded.name).toBe('站会');
+    expect(reloaded.createdAt).toBeInstanceOf(Date);
+    expect(received).toHaveLength(1);
+    expect(received[0].map(item => item.id)).toContain(template.id);
+  });
+
+  it('imports an exported template as a new custom template', () => {
+    const file = promptTemplateService.exportTemplate('action');
+    const imported = promptTemplateService.importTemplate(file.content);
+
+    expect(file.fileName).toBe('prompt-template-行动导向.json');
+    expect(imported).toMatchObject({ name: '行动导向', builtIn: false, sections: ['actionItems', 'openQuestions', 'decisions'] });
+    expect(() => promptTemplateService.importTemplate('{}')).toThrow('不是提示词模板文件');
+    expect(() => promptTemplateService.importTemplate('not json')).toThrow('模板文件不是有效的JSON');
+  });
+});
@@ -0,0 +1,423 @@
+import type {
+  ExportFile,
+  PromptTemplate,
+  PromptTemplateContent,
+  PromptTemplateVersion,
+  SummarySection,
+} from '../types';
+import { isRecord } from '../utils/typeGuards';
+
+type Language = 'zh' | 'en';
+
+type TemplateInfo = Pick<PromptTemplate, 'name' | 'description'>;
+
+type TemplatesListener = (templates: PromptTemplate[]) => void;
+
+// 自定义模板在localStorage中的键
+const PROMPT_TEMPLATES_KEY = 'promptTemplates';
+
+// 分享的模板文件的格式标识，导入时据此识别
+export const PROMPT_TEMPLATE_FORMAT_ID = 'wechat-chat-summary-prompt-template';
+const PROMPT_TEMPLATE_FORMAT_VERSION = 1;
+
+export const DEFAULT_TEMPLATE_ID = 'standard';
+
+export const SUMMARY_SECTIONS: SummarySection[] = ['topics', 'decisions', 'actionItems', 'notableInfo', 'openQuestions'];
+
+// 模板中可以使用的变量，messages只能用在用户提示词中
+export const TEMPLATE_VARIABLES = ['groupName', 'timeRange', 'focusPoints', 'messages'] as const;
+
+const ROLE_PROMPTS: Record<Language, string> = {
+  zh: '你是一位专业的微信群聊总结助手。你的任务是分析微信群聊「{{groupName}}」的聊天记录，并生成一份结构化的总结。',
+  en: 'You are a professional WeChat group chat summarization assistant. Your task is to analyze the chat records of the WeChat group "{{groupName}}" and generate a structured summary.',
+};
+
+const DEFAULT_USER_PROMPTS: Record<Language, string> = {
+  zh: '以下是微信群聊「{{groupName}}」在{{timeRange}}期间的消息记录，请根据这些内容生成总结：\n\n{{messages}}',
+  en: 'Below are the messages of the WeChat group "{{groupName}}" from {{timeRange}}. Please summarize them:\n\n{{messages}}',
+};
+
+// 内置模板，提示词随总结语言切换
+const BUILT_IN_TEMPLATES: {
+  id: string;
+  name: string;
+  description: string;
+  sections: SummarySection[];
+  instructions: Record<Language, string>;
+}[] = [
+  {
+    id: 'standard',
+    name: '标准模板',
+    description: '包含主要讨论内容、决策和后续行动的综合总结',
+    sections: SUMMARY_SECTIONS,
+    instructions: {
+      zh: '请全面概括讨论内容、决策和后续行动。',
+      en: 'Cover the discussion, the decisions and the follow-up actions.',
+    },
+  },
+  {
+    id: 'concise',
+    name: '简洁模板',
+    description: '仅包含关键点和决策的精简总结',
+    sections: ['topics', 'decisions'],
+    instructions: {
+      zh: '只保留关键话题和决策，省略细节。',
+      en: 'Keep only the key topics and decisions, and leave out details.',
+    },
+  },
+  {
+    id: 'detailed',
+    name: '详细模板',
+    description: '包含全面细节和背景信息的详尽总结',
+    sections: SUMMARY_SECTIONS,
+    instructions: {
+      zh: '包含全面的细节和背景信息。',
+      en: 'Include thorough details and background information.',
+    },
+  },
+  {
+    id: 'action',
+    name: '行动导向',
+    description: '重点突出待办事项和后续步骤的总结',
+    sections: ['actionItems', 'openQuestions', 'decisions'],
+    instructions: {
+      zh: '以行动为导向：重点整理待办事项和后续步骤，尽量写明截止时间，并列出阻碍行动的未决问题。',
+      en: 'Be action-oriented: focus on action items and next steps, give deadlines where known, and list open questions that block progress.',
+    },
+  },
+  {
+    id: 'decision',
+    name: '决策记录',
+    description: '重点突出已做决策和结论的总结',
+    sections: ['decisions', 'openQuestions', 'topics'],
+    instructions: {
+      zh: '以决策记录为重点：完整记录已做出的决策和结论及其理由，并列出尚待决定的问题。',
+      en: 'Focus on the decision record: capture every decision and conclusion with its reasoning, and list questions still awaiting a decision.',
+    },
+  },
+];
+
+const toText = (value: unknown): string => typeof value === 'string' ? value : '';
+
+const toSections = (value: unknown): SummarySection[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is SummarySection => SUMMARY_SECTIONS.some(section => section === item));
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * 把localStorage中的模板版本转换回对象，格式不正确时返回null
+ */
+const reviveVersion = (value: unknown): PromptTemplateVersion | null => {
+  if (!isRecord(value)) return null;
+  const updatedAt = toDate(value.updatedAt);
+  if (typeof value.version !== 'number' || typeof value.systemPrompt !== 'string' || !updatedAt) return null;
+  return {
+    version: value.version,
+    systemPrompt: value.systemPrompt,
+    userPrompt: toText(value.userPrompt),
+    sections: toSections(value.sections),
+    updatedAt,
+  };
+};
+
+/**
+ * 把localStorage中的自定义模板转换回对象，格式不正确时返回null
+ */
+const reviveTemplate = (value: unknown): PromptTemplate | null => {
+  const current = reviveVersion(value);
+  if (!current || !isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  const createdAt = toDate(value.createdAt);
+  if (!createdAt) return null;
+  const history = Array.isArray(value.history) ? value.history.map(reviveVersion) : [];
+  return {
+    ...current,
+    id: value.id,
+    name: value.name,
+    description: toText(value.description),
+    builtIn: false,
+    createdAt,
+    history: history.filter((version): version is PromptTemplateVersion => version !== null),
+  };
+};
+
+/**
+ * 提示词模板库 - 内置模板加上用户创建的模板，每次修改内容都保留之前的版本，可以导出为文件分享
+ */
+class PromptTemplateService {
+  private templates: PromptTemplate[] | null = null;
+  private listeners = new Set<TemplatesListener>();
+
+  constructor() {
+    // 其他标签页修改模板时同步
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === PROMPT_TEMPLATES_KEY || event.key === null) {
+          this.reload();
+        }
+      });
+    }
+  }
+
+  /**
+   * 获取所有模板，内置模板在前
+   * @param language 内置模板提示词使用的语言
+   */
+  getTemplates(language: Language = 'zh'): PromptTemplate[] {
+    return [...this.getBuiltInTemplates(language), ...this.getCustomTemplates()];
+  }
+
+  /**
+   * 根据ID获取模板，模板不存在（如已被删除）时返回标准模板
+   */
+  getTemplate(id: string = DEFAULT_TEMPLATE_ID, language: Language = 'zh'): PromptTemplate {
+    const templates = this.getTemplates(language);
+    return templates.find(template => template.id === id)
+      ?? templates.find(template => template.id === DEFAULT_TEMPLATE_ID)!;
+  }
+
+  /**
+   * 创建自定义模板
+   */
+  createTemplate(info: TemplateInfo & PromptTemplateContent): PromptTemplate {
+    const now = new Date();
+    const template: PromptTemplate = {
+      id: `template_${now.getTime()}`,
+      ...this.validateInfo(info),
+      ...this.validateContent(info),
+      builtIn: false,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      history: [],
+    };
+    this.save([...this.getCustomTemplates(), template]);
+    return template;
+  }
+
+  /**
+   * 复制模板为新的自定义模板，用于在内置模板的基础上修改
+   */
+  duplicateTemplate(id: string, language: Language = 'zh'): PromptTemplate {
+    const source = this.getTemplate(id, language);
+    return this.createTemplate({
+      name: `${source.name}（副本）`,
+      description: source.description,
+      systemPrompt: source.systemPrompt,
+      userPrompt: source.userPrompt,
+      sections: source.sections,
+    });
+  }
+
+  /**
+   * 修改自定义模板，提示词或总结部分有变化时生成新版本，原来的内容保存到历史版本中
+   */
+  updateTemplate(id: string, changes: Partial<TemplateInfo & PromptTemplateContent>): PromptTemplate {
+    const template = this.getCustomTemplate(id);
+    const info = this.validateInfo({ ...template, ...changes });
+    const content = this.validateContent({ ...template, ...changes });
+
+    const contentChanged = content.systemPrompt !== template.systemPrompt
+      || content.userPrompt !== template.userPrompt
+      || content.sections.join() !== template.sections.join();
+
+    const updated: PromptTemplate = contentChanged
+      ? {
+        ...template,
+        ...info,
+        ...content,
+        version: template.version + 1,
+        updatedAt: new Date(),
+        history: [...template.history, this.toVersion(template)],
+      }
+      : { ...template, ...info };
+
+    this.save(this.getCustomTemplates().map(item => item.id === id ? updated : item));
+    return updated;
+  }
+
+  /**
+   * 恢复到之前的版本，恢复的内容作为新版本保存，不会丢失当前版本
+   */
+  restoreVersion(id: string, version: number): PromptTemplate {
+    const previous = this.getCustomTemplate(id).history.find(item => item.version === version);
+    if (!previous) {
+      throw new Error(`找不到版本${version}`);
+    }
+    const { systemPrompt, userPrompt, sections } = previous;
+    return this.updateTemplate(id, { systemPrompt, userPrompt, sections });
+  }
+
+  /**
+   * 删除自定义模板
+   */
+  deleteTemplate(id: string): void {
+    this.getCustomTemplate(id);
+    this.save(this.getCustomTemplates().filter(template => template.id !== id));
+  }
+
+  /**
+   * 将模板的当前版本导出为文件，用于分享给其他用户
+   */
+  exportTemplate(id: string, language: Language = 'zh'): ExportFile {
+    const { name, description, systemPrompt, userPrompt, sections } = this.getTemplate(id, language);
+    return {
+      fileName: `prompt-template-${name.replace(/[\\/:*?"<>|\s]+/g, '-')}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({
+        format: PROMPT_TEMPLATE_FORMAT_ID,
+        version: PROMPT_TEMPLATE_FORMAT_VERSION,
+        template: { name, description, systemPrompt, userPrompt, sections },
+      }, null, 2),
+    };
+  }
+
+  /**
+   * 导入分享的模板文件，作为新的自定义模板保存
+   */
+  importTemplate(content: string): PromptTemplate {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('模板文件不是有效的JSON');
+    }
+    if (!isRecord(data) || data.format !== PROMPT_TEMPLATE_FORMAT_ID || !isRecord(data.template)) {
+      throw new Error('不是提示词模板文件');
+    }
+    if (typeof data.version === 'number' && data.version > PROMPT_TEMPLATE_FORMAT_VERSION) {
+      throw new Error('模板文件的版本高于当前应用支持的版本，请先升级应用');
+    }
+    // 名称、提示词和总结部分的校验由createTemplate完成
+    const { name, description, systemPrompt, userPrompt, sections } = data.template;
+    return this.createTemplate({
+      name: toText(name),
+      description: toText(description),
+      systemPrompt: toText(systemPrompt),
+      userPrompt: toText(userPrompt),
+      sections: toSections(sections),
+    });
+  }
+
+  /**
+   * 从localStorage重新读取模板并通知订阅者，用于模板被外部修改（如恢复备份）之后
+   */
+  reload(): void {
+    this.templates = this.load();
+    this.notify();
+  }
+
+  /**
+   * 订阅模板变更，返回取消订阅的函数
+   */
+  subscribe(listener: TemplatesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getBuiltInTemplates(language: Language): PromptTemplate[] {
+    return BUILT_IN_TEMPLATES.map(({ instructions, ...template }) => ({
+      ...template,
+      systemPrompt: `${ROLE_PROMPTS[language]}\n${instructions[language]}`,
+      userPrompt: DEFAULT_USER_PROMPTS[language],
+      builtIn: true,
+      version: 1,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+      history: [],
+    }));
+  }
+
+  private getCustomTemplates(): PromptTemplate[] {
+    if (!this.templates) {
+      this.templates = this.load();
+    }
+    return this.templates;
+  }
+
+  /**
+   * 获取可以修改的自定义模板，内置模板只能复制后修改
+   */
+  private getCustomTemplate(id: string): PromptTemplate {
+    if (BUILT_IN_TEMPLATES.some(template => template.id === id)) {
+      throw new Error('内置模板不能修改或删除，请复制后再修改');
+    }
+    const template = this.getCustomTemplates().find(item => item.id === id);
+    if (!template) {
+      throw new Error(`找不到ID为${id}的模板`);
+    }
+    return template;
+  }
+
+  private validateInfo(info: Partial<TemplateInfo>): TemplateInfo {
+    const name = typeof info.name === 'string' ? info.name.trim() : '';
+    if (!name) {
+      throw new Error('模板名称不能为空');
+    }
+    return { name, description: typeof info.description === 'string' ? info.description.trim() : '' };
+  }
+
+  /**
+   * 校验模板内容，用户提示词为空时只包含聊天记录
+   */
+  private validateContent(content: Partial<PromptTemplateContent>): PromptTemplateContent {
+    const systemPrompt = typeof content.systemPrompt === 'string' ? content.systemPrompt.trim() : '';
+    if (!systemPrompt) {
+      throw new Error('系统提示词不能为空');
+    }
+    const userPrompt = typeof content.userPrompt === 'string' && content.userPrompt.trim()
+      ? content.userPrompt.trim()
+      : '{{messages}}';
+    const sections = Array.isArray(content.sections)
+      ? SUMMARY_SECTIONS.filter(section => content.sections!.includes(section))
+        .sort((a, b) => content.sections!.indexOf(a) - content.sections!.indexOf(b))
+      : [];
+    if (sections.length === 0) {
+      throw new Error('至少需要选择一个总结部分');
+    }
+    return { systemPrompt, userPrompt, sections };
+  }
+
+  private toVersion({ version, systemPrompt, userPrompt, sections, updatedAt }: PromptTemplate): PromptTemplateVersion {
+    return { version, systemPrompt, userPrompt, sections, updatedAt };
+  }
+
+  private save(templates: PromptTemplate[]): void {
+    localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(templates));
+    this.templates = templates;
+    this.notify();
+  }
+
+  private notify(): void {
+    const templates = this.getTemplates();
+    this.listeners.forEach(listener => listener(templates));
+  }
+
+  /**
+   * 读取自定义模板，JSON中的日期为字符串，需要转换回Date对象；格式不正确的模板和历史版本被忽略
+   */
+  private load(): PromptTemplate[] {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(PROMPT_TEMPLATES_KEY) || '[]');
+      if (!Array.isArray(stored)) return [];
+      return stored.flatMap(item => {
+        const template = reviveTemplate(item);
+        return template ? [template] : [];
+      });
+    } catch (error) {
+      console.error('读取提示词模板失败:', error);
+      return [];
+    }
+  }
+}
+
+// 导出服务实例
+const promptTemplateService = new PromptTemplateService();
+export default promptTemplateService;
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatGroup, ChatMessage, ChatSummary, GeneratedPoster, RetentionReport } from '../types';
+import retentionService from './retentionService';
+import { groupRepository, messageRepository, posterRepository, summaryRepository } from './storage';
+
+const now = new Date(2024, 5, 30, 12, 0);
+const daysAgo = (days: number): Date => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const createGroup = (messageCount: number): ChatGroup => ({
+  id: 'retention_group',
+  name: '保留期测试群',
+  members: [],
+  createdAt: daysAgo(100),
+  lastActiveAt: daysAgo(1),
+  messageCount,
+  isArchived: false,
+  settings: { autoSummary: false, summaryFrequency: 'daily', posterGeneration: false },
+});
+
+const createMessage = (id: string, days: number, isPinned?: boolean): ChatMessage => ({
+  id,
+  sender: '张三',
+  senderId: 'a',
+  content: id,
+  timestamp: daysAgo(days),
+  type: 'text',
+  groupId: 'retention_group',
+  isPinned,
+});
+
+const createSummary = (id: string, days: number, isPinned?: boolean): ChatSummary => ({
+  id,
+  title: id,
+  content: '',
+  groupId: 'retention_group',
+  groupName: '保留期测试群',
+  generatedAt: daysAgo(days),
+  timeRange: { start: daysAgo(days + 1), end: daysAgo(days) },
+  messageCount: 0,
+  wordCount: 0,
+  keyPoints: [],
+  topics: [],
+  participants: [],
+  status: 'completed',
+  isPinned,
+});
+
+const createPoster = (id: string, days: number): GeneratedPoster => ({
+  id,
+  summaryId: 'old_summary',
+  groupId: 'retention_group',
+  createdAt: daysAgo(days),
+  imageUrl: '',
+  templateId: 'template1',
+  status: 'completed',
+});
+
+describe('retentionService.purgeExpired', () => {
+  beforeEach(async () => {
+    await Promise.all([messageRepository.clear(), summaryRepository.clear(), posterRepository.clear()]);
+    await groupRepository.put(createGroup(3));
+    await messageRepository.putMany([
+      createMessage('old', 40),
+      createMessage('old_pinned', 40, true),
+      createMessage('recent', 5),
+    ]);
+    await summaryRepository.putMany([createSummary('old_summary', 45), createSummary('pinned_summary', 45, true)]);
+    await posterRepository.putMany([createPoster('old_poster', 35), createPoster('recent_poster', 2)]);
+  });
+
+  it('keeps everything until the user chooses a retention period', async () => {
+    expect(retentionService.getRetentionPeriod()).toBe('forever');
+
+    const report = await retentionService.purgeExpired({ now });
+
+    expect(report.cutoff).toBeNull();
+    expect(report.removed).toEqual({ messages: 0, summaries: 0, posters: 0 });
+    expect(await messageRepository.count()).toBe(3);
+  });
+
+  it('removes expired records except pinned ones and updates the message count', async () => {
+    localStorage.setItem('dataRetentionPeriod', '30');
+
+    const report = await retentionService.purgeExpired({ now });
+
+    expect(report.cutoff).toEqual(daysAgo(30));
+    expect(report.removed).toEqual({ messages: 1, summaries: 1, posters: 1 });
+    expect(report.keptPinned).toEqual({ messages: 1, summaries: 1, posters: 0 });
+    expect((await messageRepository.getAll()).map(message => message.id).sort()).toEqual(['old_pinned', 'recent']);
+    expect((await summaryRepository.getAll()).map(summary => summary.id)).toEqual(['pinned_summary']);
+    expect((await posterRepository.getAll()).map(poster => poster.id)).toEqual(['recent_poster']);
+    expect((await groupRepository.get('retention_group'))?.messageCount).toBe(2);
+  });
+
+  it('only counts the records to remove in a dry run', async () => {
+    const reports: RetentionReport[] = [];
+    const unsubscribe = retentionService.subscribe(report => reports.push(report));
+
+    const preview = await retentionService.purgeExpired({ period: '7', now, dryRun: true });
+    unsubscribe();
+
+    expect(preview.removed).toEqual({ messages: 1, summaries: 1, posters: 1 });
+    expect(preview.keptPinned).toEqual({ messages: 1, summaries: 1, posters: 0 });
+    expect(await messageRepository.count()).toBe(3);
+    expect(reports).toEqual([]);
+    expect(retentionService.getLastReport()).toBeNull();
+  });
+
+  it('saves the report of the last run and notifies subscribers', async () => {
+    const reports: RetentionReport[] = [];
+    const unsubscribe = retentionService.subscribe(report => reports.push(report));
+
+    const report = await retentionService.purgeExpired({ period: '90', now });
+    unsubscribe();
+
+    expect(reports).toEqual([report]);
+    expect(retentionService.getLastReport()).toEqual(report);
+  });
+});
@@ -0,0 +1,181 @@
+import type { RetentionPeriod, RetentionReport } from '../types';
+import { groupRepository, messageRepository, posterRepository, summaryRepository } from './storage';
+import type { Repository } from './storage';
+
+// 设置页保存数据保留期的localStorage键
+const RETENTION_PERIOD_KEY = 'dataRetentionPeriod';
+const LAST_REPORT_KEY = 'retentionLastReport';
+// 用户没有选择过保留期时永久保留，不会在不知情的情况下删除导入的历史记录
+const DEFAULT_PERIOD: RetentionPeriod = 'forever';
+// 定期清理的默认间隔：6小时
+const DEFAULT_INTERVAL = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ReportListener = (report: RetentionReport) => void;
+
+/**
+ * 数据保留服务 - 按设置中的数据保留期清理过期的消息、总结和海报
+ * 用户固定（isPinned）的内容不会被清理
+ */
+class RetentionService {
+  private timerId: number | null = null;
+  private listeners = new Set<ReportListener>();
+
+  /**
+   * 获取当前设置的数据保留期，没有设置过时为永久保留
+   */
+  getRetentionPeriod(): RetentionPeriod {
+    const stored = localStorage.getItem(RETENTION_PERIOD_KEY);
+    return stored === '7' || stored === '30' || stored === '90' || stored === 'forever'
+      ? stored
+      : DEFAULT_PERIOD;
+  }
+
+  /**
+   * 计算保留期的截止时间，早于该时间的数据视为过期
+   */
+  getCutoff(period: RetentionPeriod, now: Date = new Date()): Date | null {
+    if (period === 'forever') return null;
+    return new Date(now.getTime() - Number(period) * DAY_MS);
+  }
+
+  /**
+   * 清理过期数据并返回清理报告
+   * dryRun为true时只统计将被清理的数量，不实际删除，用于修改保留期前的确认
+   */
+  async purgeExpired(options: {
+    period?: RetentionPeriod;
+    now?: Date;
+    dryRun?: boolean;
+  } = {}): Promise<RetentionReport> {
+    const { period = this.getRetentionPeriod(), now = new Date(), dryRun = false } = options;
+    const cutoff = this.getCutoff(period, now);
+    const report: RetentionReport = {
+      runAt: now,
+      cutoff,
+      removed: { messages: 0, summaries: 0, posters: 0 },
+      keptPinned: { messages: 0, summaries: 0, posters: 0 },
+    };
+
+    if (cutoff) {
+      const messages = await this.purgeStore(messageRepository, 'timestamp', cutoff, dryRun);
+      const summaries = await this.purgeStore(summaryRepository, 'generatedAt', cutoff, dryRun);
+      const posters = await this.purgeStore(posterRepository, 'createdAt', cutoff, dryRun);
+
+      report.removed = {
+        messages: messages.removed.length,
+        summaries: summaries.removed.length,
+        posters: posters.removed.length,
+      };
+      report.keptPinned = {
+        messages: messages.keptPinned,
+        summaries: summaries.keptPinned,
+        posters: posters.keptPinned,
+      };
+
+      if (!dryRun) {
+        await this.updateGroupMessageCounts(messages.removed.map(message => message.groupId));
+      }
+    }
+
+    if (!dryRun) {
+      localStorage.setItem(LAST_REPORT_KEY, JSON.stringify(report));
+      this.listeners.forEach(listener => listener(report));
+    }
+
+    return report;
+  }
+
+  /**
+   * 获取最近一次清理的报告
+   */
+  getLastReport(): RetentionReport | null {
+    try {
+      const stored = localStorage.getItem(LAST_REPORT_KEY);
+      if (!stored) return null;
+      const report = JSON.parse(stored);
+      return {
+        ...report,
+        runAt: new Date(report.runAt),
+        cutoff: report.cutoff ? new Date(report.cutoff) : null,
+      };
+    } catch (error) {
+      console.error('读取清理报告失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 订阅清理报告，返回取消订阅的函数
+   */
+  subscribe(listener: ReportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 启动定期清理，启动时立即执行一次
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL): void {
+    if (this.timerId !== null) return;
+
+    const run = () => {
+      this.purgeExpired().catch(error => console.error('清理过期数据失败:', error));
+    };
+    run();
+    this.timerId = window.setInterval(run, intervalMs);
+  }
+
+  /**
+   * 停止定期清理
+   */
+  stop(): void {
+    if (this.timerId === null) return;
+    window.clearInterval(this.timerId);
+    this.timerId = null;
+  }
+
+  /**
+   * 查找并删除单个对象存储中的过期记录，固定的记录保留
+   */
+  private async purgeStore<T extends { id: string; isPinned?: boolean }>(
+    repository: Repository<T>,
+    indexName: string,
+    cutoff: Date,
+    dryRun: boolean
+  ): Promise<{ removed: T[]; keptPinned: number }> {
+    const expired = await repository.getAllByIndex(indexName, IDBKeyRange.upperBound(cutoff, true));
+    const removed = expired.filter(record => !record.isPinned);
+
+    if (!dryRun) {
+      await repository.deleteMany(removed.map(record => record.id));
+    }
+
+    return { removed, keptPinned: expired.length - removed.length };
+  }
+
+  /**
+   * 删除消息后同步减少群聊的消息数
+   */
+  private async updateGroupMessageCounts(groupIds: string[]): Promise<void> {
+    const removedCounts = new Map<string, number>();
+    groupIds.forEach(groupId => {
+      removedCounts.set(groupId, (removedCounts.get(groupId) ?? 0) + 1);
+    });
+
+    for (const [groupId, removedCount] of removedCounts) {
+      const group = await groupRepository.get(groupId);
+      if (!group) continue;
+      await groupRepository.put({
+        ...group,
+        messageCount: Math.max(0, group.messageCount - removedCount),
+      });
+    }
+  }
+}
+
+// 导出服务实例
+const retentionService = new RetentionService();
+export default retentionService;
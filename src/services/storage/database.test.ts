@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DB_NAME, DB_VERSION, STORE_NAMES, openDatabase, requestToPromise, transactionToPromise } from './database';
+
+/**
+ * 按第一个版本的结构创建数据库，模拟升级前的旧数据
+ */
+const createVersionOneDatabase = (): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const messages = db.createObjectStore('messages', { keyPath: 'id' });
+      messages.createIndex('groupId', 'groupId');
+      messages.createIndex('groupId_timestamp', ['groupId', 'timestamp']);
+      db.createObjectStore('groups', { keyPath: 'id' });
+      db.createObjectStore('summaries', { keyPath: 'id' }).createIndex('groupId', 'groupId');
+      const posters = db.createObjectStore('posters', { keyPath: 'id' });
+      posters.createIndex('summaryId', 'summaryId');
+      posters.createIndex('groupId', 'groupId');
+      db.createObjectStore('scheduledTasks', { keyPath: 'id' });
+      messages.put({ id: 'm1', groupId: 'g1', timestamp: new Date(2024, 0, 15), content: 'hi' });
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+describe('openDatabase', () => {
+  it('upgrades an existing database to the latest version without losing data', async () => {
+    await createVersionOneDatabase();
+    const db = await openDatabase();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([...STORE_NAMES].sort());
+
+    const transaction = db.transaction(['messages', 'summaries'], 'readonly');
+    const messages = transaction.objectStore('messages');
+    expect([...messages.indexNames].sort()).toEqual(['groupId', 'groupId_timestamp', 'timestamp']);
+    expect([...transaction.objectStore('summaries').indexNames].sort()).toEqual(['cacheKey', 'generatedAt', 'groupId']);
+    expect(await requestToPromise(messages.get('m1'))).toMatchObject({ content: 'hi' });
+    await transactionToPromise(transaction);
+  });
+
+  it('shares one connection across callers', async () => {
+    expect(await openDatabase()).toBe(await openDatabase());
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * IndexedDB数据库定义 - 数据库名称、版本和各版本的结构升级
+ */
+
+export const DB_NAME = 'wechat-chat-summary';
+
+export type StoreName = 'messages' | 'groups' | 'summaries' | 'posters' | 'scheduledTasks' | 'usageRecords' | 'identityMappings';
+
+export const STORE_NAMES: StoreName[] = [
+  'messages',
+  'groups',
+  'summaries',
+  'posters',
+  'scheduledTasks',
+  'usageRecords',
+  'identityMappings',
+];
+
+/**
+ * 按版本顺序排列的结构升级，第N项把数据库从版本N升级到版本N+1
+ * 修改结构时只能追加新的升级步骤，不能修改已发布的步骤
+ */
+const migrations: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  db => {
+    const messages = db.createObjectStore('messages', { keyPath: 'id' });
+    messages.createIndex('groupId', 'groupId');
+    messages.createIndex('groupId_timestamp', ['groupId', 'timestamp']);
+
+    db.createObjectStore('groups', { keyPath: 'id' });
+
+    const summaries = db.createObjectStore('summaries', { keyPath: 'id' });
+    summaries.createIndex('groupId', 'groupId');
+
+    const posters = db.createObjectStore('posters', { keyPath: 'id' });
+    posters.createIndex('summaryId', 'summaryId');
+    posters.createIndex('groupId', 'groupId');
+
+    db.createObjectStore('scheduledTasks', { keyPath: 'id' });
+  },
+  // 按时间查询过期数据，用于数据保留期清理
+  (_db, transaction) => {
+    transaction.objectStore('messages').createIndex('timestamp', 'timestamp');
+    transaction.objectStore('summaries').createIndex('generatedAt', 'generatedAt');
+    transaction.objectStore('posters').createIndex('createdAt', 'createdAt');
+  },
+  // 按缓存键查找消息和选项都相同的总结
+  (_db, transaction) => {
+    transaction.objectStore('summaries').createIndex('cacheKey', 'cacheKey');
+  },
+  // 模型调用的用量记录，按时间统计花费
+  db => {
+    const usageRecords = db.createObjectStore('usageRecords', { keyPath: 'id' });
+    usageRecords.createIndex('createdAt', 'createdAt');
+  },
+  // 发送者身份的手动合并、拆分、改名和忽略的建议，每个群聊一条记录
+  db => {
+    db.createObjectStore('identityMappings', { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 将IndexedDB请求包装为Promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 等待事务完成，事务提交后数据才真正写入
+ */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('存储事务已中止'));
+  });
+};
+
+/**
+ * 打开数据库，整个应用共用同一个连接
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('当前浏览器不支持IndexedDB，无法保存数据'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他标签页升级数据库时关闭旧连接，下次访问时重新打开
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('打开本地数据库失败'));
+    };
+
+    request.onblocked = () => {
+      console.warn('数据库升级被其他标签页阻塞，请关闭其他标签页后重试');
+    };
+  });
+
+  return dbPromise;
+};
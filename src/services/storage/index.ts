@@ -0,0 +1,30 @@
+import type {
+  ChatGroup,
+  ChatMessage,
+  ChatSummary,
+  GeneratedPoster,
+  IdentityMapping,
+  ScheduledTask,
+  UsageRecord,
+} from '../../types';
+import { Repository } from './repository';
+
+export { Repository } from './repository';
+export {
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+  DB_NAME,
+  DB_VERSION,
+  STORE_NAMES,
+} from './database';
+export type { StoreName } from './database';
+
+// 各类数据的仓库实例，服务通过它们读写本地数据库
+export const messageRepository = new Repository<ChatMessage>('messages');
+export const groupRepository = new Repository<ChatGroup>('groups');
+export const summaryRepository = new Repository<ChatSummary>('summaries');
+export const posterRepository = new Repository<GeneratedPoster>('posters');
+export const taskRepository = new Repository<ScheduledTask>('scheduledTasks');
+export const usageRepository = new Repository<UsageRecord>('usageRecords');
+export const identityMappingRepository = new Repository<IdentityMapping>('identityMappings');
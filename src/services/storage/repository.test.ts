@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../../types';
+import { Repository } from './repository';
+
+const repository = new Repository<ChatMessage>('messages');
+
+const createMessage = (id: string, groupId: string, minute: number): ChatMessage => ({
+  id,
+  sender: '张三',
+  senderId: 'a',
+  content: id,
+  timestamp: new Date(2024, 0, 15, 10, minute),
+  type: 'text',
+  groupId,
+});
+
+describe('Repository', () => {
+  it('stores, updates and deletes records', async () => {
+    const message = createMessage('r1', 'repo_1', 0);
+    await repository.put(message);
+    expect(await repository.get('r1')).toEqual(message);
+
+    await repository.put({ ...message, content: '已修改' });
+    expect((await repository.get('r1'))?.content).toBe('已修改');
+
+    await repository.delete('r1');
+    expect(await repository.get('r1')).toBeNull();
+  });
+
+  it('writes and deletes many records in one call', async () => {
+    await repository.putMany([createMessage('r2', 'repo_2', 0), createMessage('r3', 'repo_2', 1)]);
+    expect(await repository.getAllByIndex('groupId', 'repo_2')).toHaveLength(2);
+
+    await repository.deleteMany(['r2', 'r3']);
+    expect(await repository.getAllByIndex('groupId', 'repo_2')).toEqual([]);
+  });
+
+  it('queries an index by key range in index order', async () => {
+    await repository.putMany([
+      createMessage('r6', 'repo_3', 2),
+      createMessage('r4', 'repo_3', 0),
+      createMessage('r5', 'repo_3', 1),
+      createMessage('r7', 'repo_4', 0),
+    ]);
+
+    const messages = await repository.getAllByIndex(
+      'groupId_timestamp',
+      IDBKeyRange.bound(['repo_3', new Date(2024, 0, 15, 10, 0)], ['repo_3', new Date(2024, 0, 15, 10, 1)])
+    );
+    expect(messages.map(message => message.id)).toEqual(['r4', 'r5']);
+  });
+
+  it('counts and clears the store', async () => {
+    await repository.putMany([createMessage('r8', 'repo_5', 0), createMessage('r9', 'repo_5', 1)]);
+    expect(await repository.count()).toBeGreaterThanOrEqual(2);
+
+    await repository.clear();
+    expect(await repository.count()).toBe(0);
+    expect(await repository.getAll()).toEqual([]);
+  });
+});
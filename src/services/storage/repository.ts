@@ -0,0 +1,112 @@
+import { openDatabase, requestToPromise, transactionToPromise } from './database';
+import type { StoreName } from './database';
+
+/**
+ * 对象仓库 - 对单个IndexedDB对象存储的类型化读写
+ */
+export class Repository<T extends { id: string }> {
+  private readonly storeName: StoreName;
+
+  constructor(storeName: StoreName) {
+    this.storeName = storeName;
+  }
+
+  /**
+   * 根据ID获取单条记录
+   */
+  async get(id: string): Promise<T | null> {
+    const store = await this.getStore('readonly');
+    const record = await requestToPromise<T | undefined>(store.get(id));
+    return record ?? null;
+  }
+
+  /**
+   * 获取所有记录
+   */
+  async getAll(): Promise<T[]> {
+    const store = await this.getStore('readonly');
+    return requestToPromise<T[]>(store.getAll());
+  }
+
+  /**
+   * 通过索引查询记录，query可以是单个键或键范围
+   */
+  async getAllByIndex(indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    const store = await this.getStore('readonly');
+    return requestToPromise<T[]>(store.index(indexName).getAll(query));
+  }
+
+  /**
+   * 统计记录数量
+   */
+  async count(): Promise<number> {
+    const store = await this.getStore('readonly');
+    return requestToPromise(store.count());
+  }
+
+  /**
+   * 新增或更新单条记录
+   */
+  async put(record: T): Promise<T> {
+    await this.putMany([record]);
+    return record;
+  }
+
+  /**
+   * 在同一个事务中新增或更新多条记录
+   */
+  async putMany(records: T[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.write(store => {
+      records.forEach(record => store.put(record));
+    });
+  }
+
+  /**
+   * 删除单条记录
+   */
+  async delete(id: string): Promise<void> {
+    await this.deleteMany([id]);
+  }
+
+  /**
+   * 在同一个事务中删除多条记录
+   */
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.write(store => {
+      ids.forEach(id => store.delete(id));
+    });
+  }
+
+  /**
+   * 清空所有记录
+   */
+  async clear(): Promise<void> {
+    await this.write(store => {
+      store.clear();
+    });
+  }
+
+  /**
+   * 用给定的记录替换全部内容
+   */
+  async replaceAll(records: T[]): Promise<void> {
+    await this.write(store => {
+      store.clear();
+      records.forEach(record => store.put(record));
+    });
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await openDatabase();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private async write(operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    operation(transaction.objectStore(this.storeName));
+    await transactionToPromise(transaction);
+  }
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatMessage, ChatGroup } from '../types';
+import summaryService from './summaryService';
+import wechatService from './wechatService';
+import identityService from './identityService';
+import { llmSettingsStore } from './llm';
+import { groupRepository } from './storage';
+import { createMessageId } from '../utils/messageIdentity';
+
+const start = new Date(2024, 0, 15, 9, 0);
+const end = new Date(2024, 0, 15, 18, 0);
+
+let group: ChatGroup;
+let messages: ChatMessage[];
+
+const createMessage = (senderId: string, sender: string, minute: number, content: string): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 10, minute);
+  return {
+    id: createMessageId(group.id, senderId, timestamp, content),
+    sender,
+    senderId,
+    content,
+    timestamp,
+    type: 'text',
+    groupId: group.id,
+  };
+};
+
+describe('summaryService.generateSummary', () => {
+  beforeEach(async () => {
+    llmSettingsStore.reload();
+    group = await wechatService.createGroup(`测试群${Math.random()}`);
+    messages = [
+      createMessage('a', '张三', 2, '明天十点开会'),
+      createMessage('b', '李四', 0, '早上好'),
+      createMessage('c', '张三（产品）', 1, '我来准备材料'),
+    ];
+    await wechatService.importMessages(group.id, messages);
+  });
+
+  describe('citations', () => {
+    it('resolves the cited message numbers to message ids in chronological order', async () => {
+      const summary = await summaryService.generateSummary(group.id, start, end);
+      const chronological = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+      expect(summary.citations?.map(citation => citation.messageId)).toEqual(chronological.map(message => message.id));
+      expect(summary.citations?.[0].text).toBe('李四: 早上好');
+      // 模拟服务的最后一条决策引用最后一条消息
+      expect(summary.structured?.sources?.decisions).toEqual([[chronological[2].id]]);
+    });
+
+    it('keeps an empty source list for items without supporting messages', async () => {
+      const summary = await summaryService.generateSummary(group.id, start, end);
+
+      expect(summary.structured?.notableInfo).toHaveLength(1);
+      expect(summary.structured?.sources?.notableInfo).toEqual([[]]);
+    });
+  });
+
+  describe('cache', () => {
+    it('returns the stored summary when the messages and options are unchanged', async () => {
+      const first = await summaryService.generateSummary(group.id, start, end);
+      const second = await summaryService.generateSummary(group.id, start, end);
+
+      expect(second.fromCache).toBe(true);
+      expect(second.id).toBe(first.id);
+    });
+
+    it('regenerates when the time range or group name in the prompt changes', async () => {
+      const { cacheKey } = await summaryService.generateSummary(group.id, start, end);
+      const later = await summaryService.generateSummary(group.id, start, new Date(2024, 0, 15, 20, 0));
+      await groupRepository.put({ ...group, name: `${group.name}（改名）` });
+      const renamed = await summaryService.generateSummary(group.id, start, end);
+
+      expect(later.fromCache).toBeUndefined();
+      expect(renamed.fromCache).toBeUndefined();
+      expect(new Set([cacheKey, later.cacheKey, renamed.cacheKey]).size).toBe(3);
+    });
+
+    it('ignores the cache when regenerating', async () => {
+      const first = await summaryService.generateSummary(group.id, start, end);
+      const second = await summaryService.generateSummary(group.id, start, end, { regenerate: true });
+
+      expect(second.fromCache).toBeUndefined();
+      expect(second.cacheKey).toBe(first.cacheKey);
+    });
+
+    it('changes the cache key when the options or messages change', async () => {
+      const { cacheKey } = await summaryService.generateSummary(group.id, start, end);
+      const english = await summaryService.generateSummary(group.id, start, end, { language: 'en' });
+      const focused = await summaryService.generateSummary(group.id, start, end, { focusPoints: ['会议'] });
+      await wechatService.importMessages(group.id, [createMessage('b', '李四', 3, '好的')]);
+      const more = await summaryService.generateSummary(group.id, start, end);
+
+      expect(new Set([cacheKey, english.cacheKey, focused.cacheKey, more.cacheKey]).size).toBe(4);
+    });
+
+    it('normalizes focus points so equivalent options share the cache', async () => {
+      await summaryService.generateSummary(group.id, start, end, { focusPoints: ['会议', '材料'] });
+      const reordered = await summaryService.generateSummary(group.id, start, end, { focusPoints: [' 材料 ', '会议', ''] });
+
+      expect(reordered.fromCache).toBe(true);
+    });
+
+    it('regenerates after sender identities are merged or renamed', async () => {
+      const original = await summaryService.generateSummary(group.id, start, end);
+
+      await identityService.mergeIdentities(group.id, ['a', 'c']);
+      const merged = await summaryService.generateSummary(group.id, start, end);
+      await identityService.renameIdentity(group.id, 'a', '张经理');
+      const renamed = await summaryService.generateSummary(group.id, start, end);
+
+      expect(merged.fromCache).toBeUndefined();
+      expect(renamed.fromCache).toBeUndefined();
+      expect(new Set([original.cacheKey, merged.cacheKey, renamed.cacheKey]).size).toBe(3);
+      expect(renamed.participants.map(participant => participant.name).sort()).toEqual(['张经理', '李四']);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('stops a request that is still waiting for the model and saves nothing', async () => {
+      const settings = llmSettingsStore.getSettings();
+      llmSettingsStore.updateSettings({
+        ...settings,
+        providers: { ...settings.providers, mock: { ...settings.providers.mock, model: 'mock-stall' } },
+      });
+      const controller = new AbortController();
+
+      const pending = summaryService.generateSummary(group.id, start, end, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await summaryService.getSummaryHistory(group.id)).toEqual([]);
+    });
+
+    it('does not save a summary stopped while it is streaming', async () => {
+      const controller = new AbortController();
+
+      const pending = summaryService.generateSummary(group.id, start, end, {
+        signal: controller.signal,
+        onToken: () => controller.abort(),
+      });
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await summaryService.getSummaryHistory(group.id)).toEqual([]);
+    });
+
+    it('stops generating the poster content', async () => {
+      const summary = await summaryService.generateSummary(group.id, start, end);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        summaryService.generatePosterContent(summary.id, { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+});
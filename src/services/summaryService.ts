@@ -1,28 +1,51 @@
 import { ChatMessage, ChatSummary } from '../types';
+import type { LLMCompletion, PromptContext, StructuredSummary, SummaryProgress, SummaryPromptOptions, SummarySection } from '../types';
 import deepseekService from './deepseekService';
+import { getActiveProvider, LLMContentError, LLMError } from './llm';
+import promptBuilder from './promptBuilder';
+import promptTemplateService from './promptTemplateService';
 import wechatService from './wechatService';
-import { formatMessageContent, formatSummaryTitle, extractKeywords } from '../utils/formatters';
-import { getStartOfDay, getEndOfDay } from '../utils/dateUtils';
+import identityService from './identityService';
+import { summaryRepository } from './storage';
+import { formatSummaryTitle, extractKeywords, truncateText } from '../utils/formatters';
+import { getStartOfDay, getEndOfDay, formatDate } from '../utils/dateUtils';
+import { estimateTokens } from '../utils/tokenUtils';
+import { hashString } from '../utils/hashUtils';
+import { chunkMessages } from '../utils/messageChunker';
+import { parsePartialSummary, parseStructuredSummary, renderSummaryMarkdown } from '../utils/structuredSummary';
+
+type SummarizeOptions = SummaryPromptOptions & {
+  maxTokens?: number;
+  temperature?: number;
+};
+
+type GenerationCallbacks = {
+  onToken?: (token: string, content: string) => void;
+  onProgress?: (progress: SummaryProgress) => void;
+  signal?: AbortSignal;
+  // 忽略缓存，即使消息和选项都没有变化也重新生成
+  regenerate?: boolean;
+};
+
+// 分块开头的时间范围说明和日期行预留的token数
+const CHUNK_HEADER_TOKENS = 200;
 
 /**
  * 聊天总结服务 - 处理微信消息并生成总结
+ * 生成的总结保存在本地数据库中，刷新页面后仍然保留
  */
 class SummaryService {
-  private summaryHistory: ChatSummary[] = [];
-  
   /**
    * 根据时间范围生成群聊总结
+   * 传入onToken时以流式方式生成，每收到一段内容就回调一次；总结在生成完成后才创建并保存
+   * 消息超出模型上下文时分段提取要点再合并，通过onProgress报告每一段的进度
+   * 消息和选项都与之前的某次总结相同时直接返回那次的总结（fromCache为true），有新消息时缓存自然失效
    */
   async generateSummary(
     groupId: string,
     startDate: Date,
     endDate: Date,
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      language?: 'zh' | 'en';
-      detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-    } = {}
+    options: SummarizeOptions & GenerationCallbacks = {}
   ): Promise<ChatSummary> {
     try {
       // 获取群聊信息
@@ -31,25 +54,52 @@ class SummaryService {
         throw new Error(`找不到ID为${groupId}的群聊`);
       }
       
-      // 获取指定时间范围内的消息
-      const messages = await wechatService.getMessagesByTimeRange(
+      // 获取指定时间范围内的消息，并将同一个人的不同名字合并为一个身份
+      const rawMessages = await wechatService.getMessagesByTimeRange(
         groupId,
         startDate,
         endDate
       );
+      // 按照发送时间排序，提示词中的消息编号和总结的引用都以这个顺序为准
+      const messages = [...await identityService.resolveMessages(groupId, rawMessages)].sort(
+        (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+      );
       
       if (messages.length === 0) {
         throw new Error('所选时间范围内没有消息');
       }
       
-      // 转换消息为文本格式
-      const formattedContent = this.formatMessagesToText(messages);
-      
+      const { onToken, onProgress, signal, regenerate = false, ...generationOptions } = options;
+      const summarizeOptions = {
+        ...generationOptions,
+        groupId: group.id,
+        context: { groupName: group.name, startDate, endDate },
+      };
+      const language = summarizeOptions.language ?? 'zh';
+      const template = promptTemplateService.getTemplate(summarizeOptions.template, language);
+
+      const cacheKey = this.getCacheKey(messages, generationOptions, summarizeOptions.context);
+      if (!regenerate) {
+        const cached = await this.findCachedSummary(group.id, cacheKey);
+        if (cached) return { ...cached, fromCache: true };
+      }
+
       // 调用Deepseek API生成总结
-      const summaryContent = await deepseekService.summarizeChat(
-        formattedContent,
-        options
+      const sections = template.sections;
+      const { content: output, reasoning } = await this.summarizeMessages(messages, summarizeOptions, {
+        // 模型以JSON输出，流式生成时渲染已生成的部分用于预览
+        onToken: onToken && ((token, content) => {
+          const preview = parsePartialSummary(content);
+          if (preview) onToken(token, renderSummaryMarkdown(preview, language, sections));
+        }),
+        onProgress,
+        signal,
+      });
+      const { structured, citations } = this.resolveCitations(
+        await this.parseSummaryOutput(output, summarizeOptions, signal),
+        messages
       );
+      const summaryContent = renderSummaryMarkdown(structured, language, sections);
       
       // 从消息中提取关键词
       const keywords = extractKeywords(messages);
@@ -68,18 +118,36 @@ class SummaryService {
         },
         messageCount: messages.length,
         wordCount: summaryContent.length,
-        keyPoints: this.extractKeyPoints(summaryContent),
+        keyPoints: this.getKeyPoints(structured, sections),
         topics: keywords,
         participants: this.getParticipantsStats(messages),
         status: 'completed',
+        structured,
+        promptTemplate: {
+          id: template.id,
+          name: template.name,
+          version: template.version,
+        },
+        cacheKey,
+        reasoning,
+        citations,
       };
       
+      // 在生成完成后才停止的也不保存，历史记录中不会出现用户已取消的总结
+      if (signal?.aborted) {
+        throw new DOMException('已停止生成总结', 'AbortError');
+      }
+
       // 保存到历史记录
-      this.saveSummary(summary);
+      await this.saveSummary(summary);
       
       return summary;
     } catch (error: any) {
+      // 用户停止生成不算失败
+      if (error?.name === 'AbortError') throw error;
       console.error('生成总结失败:', error);
+      // 模型服务的错误保留类型，界面据此区分失败原因
+      if (error instanceof LLMError) throw error;
       throw new Error(`生成总结失败: ${error.message}`);
     }
   }
@@ -89,12 +157,7 @@ class SummaryService {
    */
   async generateTodaySummary(
     groupId: string,
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      language?: 'zh' | 'en';
-      detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-    } = {}
+    options: SummarizeOptions & GenerationCallbacks = {}
   ): Promise<ChatSummary> {
     const today = new Date();
     return this.generateSummary(
@@ -110,12 +173,7 @@ class SummaryService {
    */
   async generateYesterdaySummary(
     groupId: string,
-    options: {
-      maxTokens?: number;
-      temperature?: number;
-      language?: 'zh' | 'en';
-      detailLevel?: 'brief' | 'detailed' | 'comprehensive';
-    } = {}
+    options: SummarizeOptions & GenerationCallbacks = {}
   ): Promise<ChatSummary> {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
@@ -132,144 +190,243 @@ class SummaryService {
    * 获取指定群聊的历史总结
    */
   async getSummaryHistory(groupId: string): Promise<ChatSummary[]> {
-    // 模拟API延迟
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 300 + 100));
-    
-    return this.summaryHistory
-      .filter(summary => summary.groupId === groupId)
-      .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+    const summaries = await summaryRepository.getAllByIndex('groupId', groupId);
+    return summaries.sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
   }
   
   /**
    * 获取指定ID的总结
    */
   async getSummaryById(summaryId: string): Promise<ChatSummary | null> {
-    // 模拟API延迟
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 300 + 100));
-    
-    const summary = this.summaryHistory.find(s => s.id === summaryId);
-    return summary || null;
+    return summaryRepository.get(summaryId);
   }
   
   /**
    * 删除指定总结
    */
   async deleteSummary(summaryId: string): Promise<boolean> {
-    // 模拟API延迟
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 300 + 100));
-    
-    const initialLength = this.summaryHistory.length;
-    this.summaryHistory = this.summaryHistory.filter(s => s.id !== summaryId);
+    const existing = await summaryRepository.get(summaryId);
+    if (!existing) return false;
     
-    return this.summaryHistory.length < initialLength;
+    await summaryRepository.delete(summaryId);
+    return true;
+  }
+  
+  /**
+   * 固定或取消固定总结，固定的总结不会被数据保留期清理
+   */
+  async setSummaryPinned(summaryId: string, isPinned: boolean): Promise<ChatSummary | null> {
+    const summary = await summaryRepository.get(summaryId);
+    if (!summary) return null;
+    return summaryRepository.put({ ...summary, isPinned });
   }
   
+  /**
+   * 计算总结的缓存键：消息ID、发送者身份、规范化后的选项和提示词上下文的哈希
+   * 提示词中会写入群聊名称和精确到分钟的时间范围，两者变化后缓存随之失效；模板内容修改后版本号变化，缓存随之失效
+   * messages为合并身份后的消息，合并身份或修改显示名后发送者变化，缓存随之失效
+   */
+  private getCacheKey(messages: ChatMessage[], options: SummarizeOptions, context: PromptContext): string {
+    const { provider, config, settings } = getActiveProvider();
+    const language = options.language ?? 'zh';
+    const template = promptTemplateService.getTemplate(options.template, language);
+    const messageIds = messages.map(message => message.id).sort();
+    const senders = [...new Set(messages.map(message => `${message.senderId}\t${message.sender}`))].sort();
+    const normalizedOptions = {
+      language,
+      detailLevel: options.detailLevel ?? 'comprehensive',
+      summaryLength: options.summaryLength ?? 'medium',
+      summaryStyle: options.summaryStyle ?? 'formal',
+      focusPoints: [...new Set((options.focusPoints ?? []).map(point => point.trim()).filter(Boolean))].sort(),
+      template: `${template.id}@${template.version}`,
+      includeParticipants: options.includeParticipants ?? true,
+      includeTimestamps: options.includeTimestamps ?? true,
+      provider: provider.id,
+      model: config.model || provider.defaultModels[0],
+      maxTokens: options.maxTokens ?? settings.maxTokens,
+      temperature: options.temperature ?? settings.temperature,
+      groupName: context.groupName,
+      timeRange: [context.startDate, context.endDate].map(date => formatDate(date, 'yyyy-MM-dd HH:mm')),
+    };
+
+    return [
+      messages.length,
+      hashString(messageIds.join('\n')),
+      hashString(senders.join('\n')),
+      hashString(JSON.stringify(normalizedOptions)),
+    ].join('_');
+  }
+
+  /**
+   * 查找缓存键相同的已完成总结，有多条时返回最新的一条
+   */
+  private async findCachedSummary(groupId: string, cacheKey: string): Promise<ChatSummary | null> {
+    const summaries = await summaryRepository.getAllByIndex('cacheKey', cacheKey);
+    const matches = summaries
+      .filter(summary => summary.groupId === groupId && summary.status === 'completed')
+      .sort((a, b) => b.generatedAt.getTime() - a.generatedAt.getTime());
+    return matches[0] ?? null;
+  }
+
   /**
    * 保存总结到历史记录
    */
-  private saveSummary(summary: ChatSummary): void {
-    // 检查是否已存在相同ID的总结，如果存在则更新
-    const existingIndex = this.summaryHistory.findIndex(s => s.id === summary.id);
-    
-    if (existingIndex >= 0) {
-      this.summaryHistory[existingIndex] = summary;
-    } else {
-      this.summaryHistory.push(summary);
-    }
-    
-    // 在实际应用中，这里应该调用API将总结保存到数据库
+  private async saveSummary(summary: ChatSummary): Promise<void> {
+    // 已存在相同ID的总结时直接覆盖
+    await summaryRepository.put(summary);
   }
   
   /**
-   * 将消息列表格式化为文本
+   * 调用Deepseek API总结消息
+   * 消息能放进一次请求时直接总结；否则按话题边界分块，逐块提取要点（map），再合并为最终总结（reduce）
+   * 返回的思考过程来自生成最终总结的那次请求
+   * @param messages 已按发送时间排序的消息，在提示词中按顺序从1开始编号
    */
-  private formatMessagesToText(messages: ChatMessage[]): string {
-    let formattedText = `以下是微信群聊消息记录，请根据这些内容生成总结：\n\n`;
-    
-    // 按照发送时间排序
-    const sortedMessages = [...messages].sort(
-      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  private async summarizeMessages(
+    messages: ChatMessage[],
+    options: SummarizeOptions & { context?: PromptContext; groupId?: string },
+    callbacks: GenerationCallbacks
+  ): Promise<LLMCompletion> {
+    const { onToken, onProgress, signal } = callbacks;
+
+    const budget = deepseekService.getInputTokenBudget(options);
+    const formattedContent = promptBuilder.formatMessages(messages, options);
+
+    if (estimateTokens(formattedContent) <= budget) {
+      return onToken
+        ? deepseekService.summarizeChatStream(formattedContent, { ...options, onToken, signal })
+        : deepseekService.summarizeChat(formattedContent, { ...options, signal });
+    }
+
+    // 分块时为每块开头的时间范围说明预留token；按最大的编号估算，宁可多预留
+    const chunks = chunkMessages(
+      messages,
+      budget - CHUNK_HEADER_TOKENS,
+      message => promptBuilder.formatMessageLine(message, options, messages.length)
     );
-    
-    // 格式化每条消息
-    sortedMessages.forEach((message, index) => {
-      const time = message.timestamp.toLocaleTimeString('zh-CN', {
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-      
-      formattedText += `${time} ${message.sender}: `;
-      
-      switch (message.type) {
-        case 'text':
-          formattedText += formatMessageContent(message.content);
-          break;
-        case 'image':
-          formattedText += '[图片]';
-          break;
-        case 'voice':
-          formattedText += '[语音]';
-          break;
-        case 'video':
-          formattedText += '[视频]';
-          break;
-        case 'file':
-          formattedText += `[文件] ${message.content}`;
-          break;
-        case 'location':
-          formattedText += '[位置]';
-          break;
-        case 'system':
-          formattedText += `[系统消息] ${message.content}`;
-          break;
-        default:
-          formattedText += message.content;
+    let partials: string[] = [];
+    let firstRef = 1;
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.({ phase: 'map', current: i + 1, total: chunks.length });
+      partials.push(await deepseekService.summarizeChunk(promptBuilder.formatChunk(chunks[i], options, firstRef), {
+        ...options,
+        chunkIndex: i + 1,
+        chunkCount: chunks.length,
+        signal,
+      }));
+      firstRef += chunks[i].length;
+    }
+
+    // 分段要点过多时先逐层合并，直到能放进一次请求
+    while (partials.length > 1 && estimateTokens(partials.join('\n\n')) > budget) {
+      const batches = this.batchPartials(partials, budget);
+      const merged: string[] = [];
+      for (let i = 0; i < batches.length; i++) {
+        onProgress?.({ phase: 'reduce', current: i + 1, total: batches.length });
+        merged.push(batches[i].length === 1
+          ? batches[i][0]
+          : (await deepseekService.mergeSummaries(batches[i], { ...options, isFinal: false, signal })).content);
       }
-      
-      formattedText += '\n';
+      partials = merged;
+    }
+
+    onProgress?.({ phase: 'reduce', current: 1, total: 1 });
+    return deepseekService.mergeSummaries(partials, { ...options, onToken, signal });
+  }
+
+  /**
+   * 将分段要点按token预算分批，每批至少两段，保证每一轮合并后数量减少
+   */
+  private batchPartials(partials: string[], budget: number): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let tokens = 0;
+
+    partials.forEach(partial => {
+      const partialTokens = estimateTokens(partial);
+      if (batch.length >= 2 && tokens + partialTokens > budget) {
+        batches.push(batch);
+        batch = [];
+        tokens = 0;
+      }
+      batch.push(partial);
+      tokens += partialTokens;
     });
-    
-    return formattedText;
+    if (batch.length > 0) batches.push(batch);
+
+    return batches;
   }
-  
+
   /**
-   * 从总结内容中提取关键点
+   * 总结的关键点：优先取决策，行动导向的模板优先取待办事项，都没有时取模板中第一个有内容的部分
    */
-  private extractKeyPoints(summaryContent: string): string[] {
-    const keyPoints: string[] = [];
-    
-    // 使用正则表达式匹配"重要决策和结论"部分的内容
-    const conclusionMatch = summaryContent.match(/## 重要决策和结论\s+([\s\S]*?)(?=\s+##|$)/);
-    if (conclusionMatch && conclusionMatch[1]) {
-      const conclusionText = conclusionMatch[1].trim();
-      
-      // 按行分割，去除空行
-      const lines = conclusionText.split('\n').filter(line => line.trim().length > 0);
-      
-      // 处理带有序号或无序号的点
-      lines.forEach(line => {
-        // 移除前导的数字和点或者无序列表符号
-        const cleanLine = line.trim().replace(/^(\d+\.|\*|-)\s*/, '');
-        if (cleanLine.length > 0) {
-          keyPoints.push(cleanLine);
-        }
-      });
-    }
-    
-    // 如果没有找到关键点，从整个内容中提取一些重要句子
-    if (keyPoints.length === 0) {
-      const sentences = summaryContent.split(/[.!?。！？]/);
-      const importantSentences = sentences
-        .filter(s => s.trim().length > 10)
-        .filter(s => !s.includes('##'))
-        .slice(0, 3);
-      
-      keyPoints.push(...importantSentences.map(s => s.trim()));
+  private getKeyPoints(summary: StructuredSummary, sections: SummarySection[]): string[] {
+    const order: SummarySection[] = sections[0] === 'actionItems'
+      ? sections
+      : ['decisions', ...sections.filter(section => section !== 'decisions')];
+    for (const section of order) {
+      const items = section === 'actionItems'
+        ? summary.actionItems.map(item => item.task)
+        : summary[section];
+      if (items.length > 0) return items;
     }
-    
-    return keyPoints;
+    return [];
+  }
+
+  /**
+   * 解析模型输出的结构化总结
+   * 本地无法修复时把错误发回模型重新输出一次，仍然无效则视为生成失败
+   */
+  private async parseSummaryOutput(
+    output: string,
+    options: SummarizeOptions & { context?: PromptContext; groupId?: string },
+    signal?: AbortSignal
+  ): Promise<StructuredSummary> {
+    const parsed = parseStructuredSummary(output);
+    if (parsed.summary) return parsed.summary;
+
+    console.warn('总结格式无效，请求模型修正:', parsed.errors);
+    const fixed = parseStructuredSummary(
+      await deepseekService.fixStructuredSummary(output, parsed.errors, { ...options, signal })
+    );
+    if (fixed.summary) return fixed.summary;
+
+    throw new LLMContentError(`模型返回的总结格式无效（${fixed.errors.join('；')}）`);
   }
   
+  /**
+   * 把模型引用的消息编号替换为消息ID，并整理出总结引用的消息
+   * 不存在的编号会被丢弃，没有剩下任何依据的条目在界面中标记为可能是臆造的内容
+   * @param messages 已按发送时间排序的消息，与提示词中的编号对应
+   */
+  private resolveCitations(
+    summary: StructuredSummary,
+    messages: ChatMessage[]
+  ): { structured: StructuredSummary; citations: ChatSummary['citations'] } {
+    const citedIds = new Set<string>();
+    const sources: NonNullable<StructuredSummary['sources']> = {};
+
+    Object.entries(summary.sources ?? {}).forEach(([section, items]) => {
+      sources[section as SummarySection] = items.map(refs => {
+        const ids = refs
+          .map(ref => messages[Number(ref) - 1]?.id)
+          .filter((id): id is string => Boolean(id));
+        ids.forEach(id => citedIds.add(id));
+        return [...new Set(ids)];
+      });
+    });
+
+    const citations = messages
+      .filter(message => citedIds.has(message.id))
+      .map(message => ({
+        messageId: message.id,
+        timestamp: message.timestamp,
+        text: truncateText(promptBuilder.formatMessageLine(message, { includeTimestamps: false }), 100),
+      }));
+
+    return { structured: { ...summary, sources }, citations };
+  }
+
   /**
    * 获取参与者统计信息
    */
@@ -299,13 +456,14 @@ class SummaryService {
   }
   
   /**
-   * 生成海报文案
+   * 生成海报文案，通过signal中止时抛出AbortError
    */
   async generatePosterContent(
     summaryId: string,
     options: {
       style?: 'formal' | 'casual' | 'creative';
       maxLength?: number;
+      signal?: AbortSignal;
     } = {}
   ): Promise<string> {
     try {
@@ -320,13 +478,17 @@ class SummaryService {
         summary.content,
         {
           style: options.style,
-          maxTokens: options.maxLength || 150
+          maxTokens: options.maxLength || 150,
+          groupId: summary.groupId,
+          signal: options.signal
         }
       );
       
       return posterContent;
     } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
       console.error('生成海报文案失败:', error);
+      if (error instanceof LLMError) throw error;
       throw new Error(`生成海报文案失败: ${error.message}`);
     }
   }
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { UsageRecord } from '../types';
+import usageService from './usageService';
+import { usageRepository } from './storage';
+
+const now = new Date(2024, 5, 15, 12, 0);
+
+const createRecord = (id: string, createdAt: Date, cost: number): UsageRecord => ({
+  id,
+  createdAt,
+  provider: 'deepseek',
+  model: 'deepseek-chat',
+  feature: 'summary',
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost,
+});
+
+describe('usageService', () => {
+  beforeEach(async () => {
+    await usageRepository.clear();
+    usageService.reload();
+  });
+
+  it('records usage with the cost at the current price', async () => {
+    const record = await usageService.recordUsage({
+      provider: 'deepseek',
+      model: 'deepseek-chat',
+      feature: 'summary',
+      groupId: 'group',
+      usage: { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 },
+    });
+
+    expect(record).toMatchObject({ model: 'deepseek-chat', groupId: 'group', totalTokens: 1_500_000, cost: 3.5 });
+    expect(await usageRepository.get(record.id)).toEqual(record);
+  });
+
+  it('costs nothing for models without a price', () => {
+    expect(usageService.calculateCost('llama3', { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 })).toBe(0);
+  });
+
+  it('sums the spend by day and by month, including periods without calls', async () => {
+    await usageRepository.putMany([
+      createRecord('today', new Date(2024, 5, 15, 9, 0), 0.5),
+      createRecord('today_later', new Date(2024, 5, 15, 11, 0), 0.25),
+      createRecord('yesterday', new Date(2024, 5, 14, 20, 0), 1),
+      createRecord('last_month', new Date(2024, 4, 20), 2),
+    ]);
+
+    expect(await usageService.getDailySpend(3, now)).toEqual([
+      { period: '2024-06-13', cost: 0, totalTokens: 0, calls: 0 },
+      { period: '2024-06-14', cost: 1, totalTokens: 150, calls: 1 },
+      { period: '2024-06-15', cost: 0.75, totalTokens: 300, calls: 2 },
+    ]);
+    expect(await usageService.getMonthlySpend(2, now)).toEqual([
+      { period: '2024-05', cost: 2, totalTokens: 150, calls: 1 },
+      { period: '2024-06', cost: 1.75, totalTokens: 450, calls: 3 },
+    ]);
+  });
+
+  it('warns at the alert threshold and reports an exceeded budget', async () => {
+    usageService.updateSettings({ ...usageService.getSettings(), dailyBudget: 1, monthlyBudget: 10 });
+    await usageRepository.put(createRecord('morning', new Date(2024, 5, 15, 9, 0), 0.8));
+
+    expect(await usageService.getBudgetStatus(now)).toEqual({
+      daily: { spent: 0.8, limit: 1 },
+      monthly: { spent: 0.8, limit: 10 },
+      level: 'warning',
+    });
+
+    await usageRepository.put(createRecord('noon', new Date(2024, 5, 15, 11, 0), 0.2));
+    expect((await usageService.getBudgetStatus(now)).level).toBe('exceeded');
+  });
+
+  it('ignores invalid stored settings', () => {
+    localStorage.setItem('usageSettings', JSON.stringify({
+      currency: '',
+      pricing: [{ model: 'custom', inputPrice: 1, outputPrice: 2 }, { model: 'broken', inputPrice: '1' }],
+      dailyBudget: -1,
+      monthlyBudget: 20,
+      alertThreshold: 2,
+    }));
+    usageService.reload();
+
+    expect(usageService.getSettings()).toEqual({
+      currency: '¥',
+      pricing: [{ model: 'custom', inputPrice: 1, outputPrice: 2 }],
+      dailyBudget: null,
+      monthlyBudget: 20,
+      alertThreshold: 0.8,
+    });
+  });
+});
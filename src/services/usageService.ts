@@ -0,0 +1,248 @@
+import type {
+  BudgetStatus,
+  BudgetUsage,
+  LLMProviderId,
+  LLMUsage,
+  ModelPricing,
+  UsageFeature,
+  UsageRecord,
+  UsageSettings,
+  UsageSpend,
+} from '../types';
+import { usageRepository } from './storage';
+import { formatDate, getStartOfDay } from '../utils/dateUtils';
+import { isRecord } from '../utils/typeGuards';
+
+type UsageListener = () => void;
+
+// 用量设置在localStorage中的键
+const USAGE_SETTINGS_KEY = 'usageSettings';
+
+// 默认价格（人民币/每百万token，输入按未命中缓存计），仅供参考，以服务商公布的价格为准
+const DEFAULT_PRICING: ModelPricing[] = [
+  { model: 'deepseek-chat', inputPrice: 2, outputPrice: 3 },
+  { model: 'deepseek-reasoner', inputPrice: 2, outputPrice: 3 },
+];
+
+const DEFAULT_SETTINGS: UsageSettings = {
+  currency: '¥',
+  pricing: DEFAULT_PRICING,
+  dailyBudget: null,
+  monthlyBudget: null,
+  alertThreshold: 0.8,
+};
+
+/**
+ * 用量账本服务 - 记录每次模型调用的token用量和花费，按天和按月统计，并根据预算判断是否超支
+ * 价格和预算保存在localStorage中，用量记录保存在本地数据库中
+ */
+class UsageService {
+  private settings: UsageSettings | null = null;
+  private listeners = new Set<UsageListener>();
+
+  constructor() {
+    // 其他标签页修改设置时同步
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === USAGE_SETTINGS_KEY || event.key === null) {
+          this.reload();
+        }
+      });
+    }
+  }
+
+  /**
+   * 获取价格和预算设置
+   */
+  getSettings(): UsageSettings {
+    if (!this.settings) {
+      this.settings = this.load();
+    }
+    return this.settings;
+  }
+
+  /**
+   * 保存价格和预算设置并通知订阅者
+   */
+  updateSettings(settings: UsageSettings): void {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+    this.settings = settings;
+    this.notify();
+  }
+
+  /**
+   * 从localStorage重新读取设置并通知订阅者，用于设置被外部修改（如恢复备份）之后
+   */
+  reload(): void {
+    this.settings = this.load();
+    this.notify();
+  }
+
+  /**
+   * 订阅设置变更和新的用量记录，返回取消订阅的函数
+   */
+  subscribe(listener: UsageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 按当前价格计算一次调用的花费，没有设置价格的模型（如本地模型）花费为0
+   */
+  calculateCost(model: string, usage: LLMUsage): number {
+    const pricing = this.getSettings().pricing.find(item => item.model === model);
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.inputPrice + usage.completionTokens * pricing.outputPrice) / 1_000_000;
+  }
+
+  /**
+   * 记录一次模型调用的用量
+   */
+  async recordUsage(entry: {
+    provider: LLMProviderId;
+    model: string;
+    feature: UsageFeature;
+    groupId?: string;
+    usage: LLMUsage;
+    isEstimated?: boolean;
+  }): Promise<UsageRecord> {
+    const { usage, ...rest } = entry;
+    const record: UsageRecord = {
+      ...rest,
+      ...usage,
+      id: `usage_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date(),
+      cost: this.calculateCost(entry.model, usage),
+    };
+
+    await usageRepository.put(record);
+    this.notify();
+    return record;
+  }
+
+  /**
+   * 获取时间范围内的用量记录，按时间排序
+   */
+  async getRecords(startDate: Date, endDate: Date): Promise<UsageRecord[]> {
+    const records = await usageRepository.getAllByIndex('createdAt', IDBKeyRange.bound(startDate, endDate));
+    return records.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * 最近若干天每天的花费，没有调用的日期花费为0
+   */
+  async getDailySpend(days: number = 30, now: Date = new Date()): Promise<UsageSpend[]> {
+    const start = getStartOfDay(now);
+    start.setDate(start.getDate() - days + 1);
+    const periods = Array.from({ length: days }, (_, index) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() + index);
+      return formatDate(date, 'yyyy-MM-dd');
+    });
+
+    return this.groupSpend(await this.getRecords(start, now), periods, 'yyyy-MM-dd');
+  }
+
+  /**
+   * 最近若干个月每月的花费，没有调用的月份花费为0
+   */
+  async getMonthlySpend(months: number = 12, now: Date = new Date()): Promise<UsageSpend[]> {
+    const start = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+    const periods = Array.from({ length: months }, (_, index) =>
+      formatDate(new Date(start.getFullYear(), start.getMonth() + index, 1), 'yyyy-MM')
+    );
+
+    return this.groupSpend(await this.getRecords(start, now), periods, 'yyyy-MM');
+  }
+
+  /**
+   * 今天和本月的花费与预算
+   * 任一项达到预算时为exceeded，达到提醒比例时为warning
+   */
+  async getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus> {
+    const { dailyBudget, monthlyBudget, alertThreshold } = this.getSettings();
+    const records = await this.getRecords(new Date(now.getFullYear(), now.getMonth(), 1), now);
+    const dayStart = getStartOfDay(now);
+
+    const daily: BudgetUsage = {
+      spent: records.filter(record => record.createdAt >= dayStart).reduce((sum, record) => sum + record.cost, 0),
+      limit: dailyBudget,
+    };
+    const monthly: BudgetUsage = {
+      spent: records.reduce((sum, record) => sum + record.cost, 0),
+      limit: monthlyBudget,
+    };
+
+    const budgets = [daily, monthly].filter(budget => budget.limit !== null);
+    const level = budgets.some(budget => budget.spent >= budget.limit!)
+      ? 'exceeded'
+      : budgets.some(budget => budget.spent >= budget.limit! * alertThreshold)
+        ? 'warning'
+        : 'ok';
+
+    return { daily, monthly, level };
+  }
+
+  /**
+   * 清空所有用量记录
+   */
+  async clearRecords(): Promise<void> {
+    await usageRepository.clear();
+    this.notify();
+  }
+
+  private groupSpend(records: UsageRecord[], periods: string[], periodFormat: string): UsageSpend[] {
+    const spend = new Map<string, UsageSpend>(
+      periods.map(period => [period, { period, cost: 0, totalTokens: 0, calls: 0 }])
+    );
+    records.forEach(record => {
+      const item = spend.get(formatDate(record.createdAt, periodFormat));
+      if (!item) return;
+      item.cost += record.cost;
+      item.totalTokens += record.totalTokens;
+      item.calls++;
+    });
+    return Array.from(spend.values());
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * 读取设置，无效的字段使用默认值
+   */
+  private load(): UsageSettings {
+    const settings: UsageSettings = { ...DEFAULT_SETTINGS, pricing: [...DEFAULT_PRICING] };
+    const isBudget = (value: unknown): value is number | null => value === null || (typeof value === 'number' && value >= 0);
+
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) || '{}');
+      if (!isRecord(stored)) return settings;
+      if (typeof stored.currency === 'string' && stored.currency) settings.currency = stored.currency;
+      if (Array.isArray(stored.pricing)) {
+        settings.pricing = stored.pricing.filter((item: unknown): item is ModelPricing =>
+          isRecord(item)
+          && typeof item.model === 'string'
+          && typeof item.inputPrice === 'number'
+          && typeof item.outputPrice === 'number'
+        );
+      }
+      if (isBudget(stored.dailyBudget)) settings.dailyBudget = stored.dailyBudget;
+      if (isBudget(stored.monthlyBudget)) settings.monthlyBudget = stored.monthlyBudget;
+      if (typeof stored.alertThreshold === 'number' && stored.alertThreshold > 0 && stored.alertThreshold <= 1) {
+        settings.alertThreshold = stored.alertThreshold;
+      }
+    } catch (error) {
+      console.error('读取用量设置失败:', error);
+    }
+
+    return settings;
+  }
+}
+
+// 导出服务实例
+const usageService = new UsageService();
+export default usageService;
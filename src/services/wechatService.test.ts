@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ChatGroup, ChatMessage } from '../types';
+import wechatService from './wechatService';
+import { createMessageId } from '../utils/messageIdentity';
+
+let group: ChatGroup;
+
+const createMessage = (senderId: string, sender: string, minute: number, content: string): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 10, minute);
+  return {
+    id: createMessageId('imported_group', senderId, timestamp, content),
+    sender,
+    senderId,
+    content,
+    timestamp,
+    type: 'text',
+    groupId: 'imported_group',
+  };
+};
+
+describe('wechatService.importMessages', () => {
+  beforeEach(async () => {
+    group = await wechatService.createGroup(`导入群${Math.random()}`);
+  });
+
+  it('stores imported messages in the target group and derives its members', async () => {
+    const result = await wechatService.importMessages(group.id, [
+      createMessage('a', '张三', 1, '我来准备材料'),
+      createMessage('b', '李四', 0, '早上好'),
+      { ...createMessage('system', '系统消息', 2, '张三加入了群聊'), type: 'system' },
+    ]);
+
+    expect(result.added).toHaveLength(3);
+    expect(result.added.every(message => message.groupId === group.id)).toBe(true);
+
+    const stored = await wechatService.getMessagesByTimeRange(group.id, new Date(2024, 0, 15), new Date(2024, 0, 15));
+    expect(stored.map(message => message.content)).toEqual(['早上好', '我来准备材料', '张三加入了群聊']);
+
+    const updated = await wechatService.getGroupById(group.id);
+    expect(updated?.messageCount).toBe(3);
+    expect(updated?.lastActiveAt).toEqual(new Date(2024, 0, 15, 10, 2));
+    expect(updated?.members.map(({ userId, name, joinedAt }) => ({ userId, name, joinedAt }))).toEqual([
+      { userId: 'a', name: '张三', joinedAt: new Date(2024, 0, 15, 10, 1) },
+      { userId: 'b', name: '李四', joinedAt: new Date(2024, 0, 15, 10, 0) },
+    ]);
+  });
+
+  it('skips messages that were already imported', async () => {
+    const messages = [createMessage('a', '张三', 0, '早上好'), createMessage('b', '李四', 1, '收到')];
+    await wechatService.importMessages(group.id, messages);
+    const result = await wechatService.importMessages(group.id, [...messages, createMessage('a', '张三', 2, '开会')]);
+
+    expect(result.added.map(message => message.content)).toEqual(['开会']);
+    expect(result.duplicates).toHaveLength(2);
+    expect((await wechatService.getGroupById(group.id))?.messageCount).toBe(3);
+    expect(await wechatService.getGroupStats(group.id)).toMatchObject({ totalMessages: 3, activeUsers: 2 });
+  });
+
+  it('replaces edited messages only when conflicts are included', async () => {
+    await wechatService.importMessages(group.id, [createMessage('a', '张三', 0, '明天十点开会')]);
+    const edited = [createMessage('a', '张三', 0, '明天十一点开会')];
+
+    const skipped = await wechatService.importMessages(group.id, edited);
+    expect(skipped.conflicts).toHaveLength(1);
+    expect((await wechatService.getGroupMessages(group.id)).map(message => message.content)).toEqual(['明天十点开会']);
+
+    const replaced = await wechatService.importMessages(group.id, edited, { includeConflicts: true });
+    expect(replaced.added).toHaveLength(1);
+    expect((await wechatService.getGroupMessages(group.id)).map(message => message.content)).toEqual(['明天十一点开会']);
+    expect((await wechatService.getGroupById(group.id))?.messageCount).toBe(1);
+  });
+
+  it('makes imported messages searchable', async () => {
+    await wechatService.importMessages(group.id, [createMessage('a', '张三', 0, 'Release Notes'), createMessage('b', '李四', 1, '收到')]);
+
+    expect((await wechatService.searchMessages(group.id, 'release')).map(message => message.sender)).toEqual(['张三']);
+  });
+
+  it('rejects an unknown group', async () => {
+    await expect(wechatService.importMessages('missing', [])).rejects.toThrow('群聊不存在');
+  });
+});
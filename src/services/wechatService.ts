@@ -1,47 +1,50 @@
 import { ChatMessage, ChatGroup, User } from '../types';
+import type { ImportMergeResult } from '../types';
 import { formatMessageContent, formatChatMessage } from '../utils/formatters';
 import { getStartOfDay, getEndOfDay } from '../utils/dateUtils';
+import { assignToGroup, createMessageId, mergeMessages } from '../utils/messageIdentity';
+import { groupRepository, messageRepository } from './storage';
+
+// 查询全部消息时使用的时间范围
+const MIN_TIME = -8.64e15;
+const MAX_TIME = 8.64e15;
 
 /**
  * 微信消息服务 - 模拟微信API行为，用于获取和处理群聊消息
+ * 群聊和消息保存在本地数据库中，首次使用时写入模拟数据
  */
 class WeChatService {
   // 模拟数据存储
-  private groups: ChatGroup[];
-  private messages: ChatMessage[];
   private users: User[];
+  private seedPromise: Promise<void> | null = null;
   
   constructor() {
     // 初始化模拟数据
-    this.groups = this.initMockGroups();
     this.users = this.initMockUsers();
-    this.messages = this.initMockMessages();
   }
 
   /**
    * 获取所有群聊列表
    */
   async getGroups(): Promise<ChatGroup[]> {
-    // 模拟API延迟
-    await this.mockApiDelay();
-    return [...this.groups];
+    await this.ensureSeeded();
+    return groupRepository.getAll();
   }
 
   /**
    * 获取指定群聊信息
    */
   async getGroupById(groupId: string): Promise<ChatGroup | null> {
-    await this.mockApiDelay();
-    const group = this.groups.find(g => g.id === groupId);
-    return group || null;
+    await this.ensureSeeded();
+    return groupRepository.get(groupId);
   }
 
   /**
    * 获取指定群聊的所有消息
    */
   async getGroupMessages(groupId: string): Promise<ChatMessage[]> {
-    await this.mockApiDelay();
-    return this.messages.filter(m => m.groupId === groupId);
+    await this.ensureSeeded();
+    return this.queryMessages(groupId, new Date(MIN_TIME), new Date(MAX_TIME));
   }
 
   /**
@@ -52,17 +55,13 @@ class WeChatService {
     startDate: Date, 
     endDate: Date
   ): Promise<ChatMessage[]> {
-    await this.mockApiDelay();
+    await this.ensureSeeded();
     
     // 确保开始和结束时间是当天的开始和结束
     const start = getStartOfDay(startDate);
     const end = getEndOfDay(endDate);
     
-    return this.messages.filter(message => 
-      message.groupId === groupId &&
-      message.timestamp >= start &&
-      message.timestamp <= end
-    );
+    return this.queryMessages(groupId, start, end);
   }
 
   /**
@@ -86,31 +85,23 @@ class WeChatService {
    * 获取本周消息
    */
   async getThisWeekMessages(groupId: string): Promise<ChatMessage[]> {
-    await this.mockApiDelay();
-    
     const today = new Date();
     const dayOfWeek = today.getDay();
     const startOfWeek = new Date(today);
     startOfWeek.setDate(today.getDate() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1)); // 从周一开始
     
-    return this.messages.filter(message => 
-      message.groupId === groupId &&
-      message.timestamp >= getStartOfDay(startOfWeek) &&
-      message.timestamp <= getEndOfDay(today)
-    );
+    return this.getMessagesByTimeRange(groupId, startOfWeek, today);
   }
 
   /**
    * 按关键词搜索消息
    */
   async searchMessages(groupId: string, keyword: string): Promise<ChatMessage[]> {
-    await this.mockApiDelay();
-    
     if (!keyword.trim()) return [];
     
     const lowerKeyword = keyword.toLowerCase();
-    return this.messages.filter(message => 
-      message.groupId === groupId &&
+    const messages = await this.getGroupMessages(groupId);
+    return messages.filter(message => 
       message.content.toLowerCase().includes(lowerKeyword)
     );
   }
@@ -119,30 +110,107 @@ class WeChatService {
    * 获取指定用户在群聊中的消息
    */
   async getUserMessages(groupId: string, userId: string): Promise<ChatMessage[]> {
-    await this.mockApiDelay();
-    
-    return this.messages.filter(message => 
-      message.groupId === groupId &&
-      message.senderId === userId
-    );
+    const messages = await this.getGroupMessages(groupId);
+    return messages.filter(message => message.senderId === userId);
   }
 
   /**
    * 模拟发送消息
    */
   async sendMessage(message: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<ChatMessage> {
-    await this.mockApiDelay();
+    await this.ensureSeeded();
     
+    const timestamp = new Date();
     const newMessage: ChatMessage = {
       ...message,
-      id: `msg_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
-      timestamp: new Date(),
+      id: createMessageId(message.groupId, message.senderId, timestamp, message.content),
+      timestamp,
     };
     
-    this.messages.push(newMessage);
+    await messageRepository.put(newMessage);
     return newMessage;
   }
 
+  /**
+   * 固定或取消固定消息，固定的消息不会被数据保留期清理
+   */
+  async setMessagePinned(messageId: string, isPinned: boolean): Promise<ChatMessage | null> {
+    const message = await messageRepository.get(messageId);
+    if (!message) return null;
+    return messageRepository.put({ ...message, isPinned });
+  }
+
+  /**
+   * 创建群聊，用于承载导入的聊天记录
+   */
+  async createGroup(name: string, description?: string): Promise<ChatGroup> {
+    await this.ensureSeeded();
+
+    const now = new Date();
+    const group: ChatGroup = {
+      id: `group_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      name: name.trim() || '导入的群聊',
+      description,
+      members: [],
+      createdAt: now,
+      lastActiveAt: now,
+      messageCount: 0,
+      isArchived: false,
+      settings: {
+        autoSummary: false,
+        summaryFrequency: 'daily',
+        posterGeneration: false,
+      }
+    };
+
+    return groupRepository.put(group);
+  }
+
+  /**
+   * 将导入的消息写入群聊
+   * 已存在的消息会被跳过；冲突的消息默认不写入，includeConflicts为true时替换已有的同一条消息。
+   * 写入后根据发送者补充群成员，并更新消息数和最后活跃时间。
+   */
+  async importMessages(
+    groupId: string,
+    messages: ChatMessage[],
+    options: { includeConflicts?: boolean } = {}
+  ): Promise<ImportMergeResult> {
+    const group = await this.getGroupById(groupId);
+    if (!group) {
+      throw new Error('群聊不存在');
+    }
+
+    const existing = await this.getGroupMessages(groupId);
+    const result = mergeMessages(existing, assignToGroup(messages, groupId));
+    const imported = options.includeConflicts ? [...result.added, ...result.conflicts] : result.added;
+
+    if (imported.length > 0) {
+      if (options.includeConflicts && result.replaced.length > 0) {
+        await messageRepository.deleteMany(result.replaced.map(message => message.id));
+      }
+      await messageRepository.putMany(imported);
+
+      this.syncGroupMembers(group, imported);
+      // 冲突的消息替换已有的消息，不增加消息数
+      group.messageCount += result.added.length;
+
+      // 新建的群聊以导入记录中最后一条消息的时间作为最后活跃时间
+      const latest = imported.reduce(
+        (max, message) => (message.timestamp > max ? message.timestamp : max),
+        imported[0].timestamp
+      );
+      if (existing.length === 0 || latest > group.lastActiveAt) {
+        group.lastActiveAt = latest;
+      }
+      await groupRepository.put(group);
+    }
+
+    return options.includeConflicts
+      ? { added: imported, duplicates: result.duplicates, conflicts: [], replaced: result.replaced }
+      : result;
+  }
+
   /**
    * 获取群聊消息统计
    */
@@ -151,15 +219,12 @@ class WeChatService {
     activeUsers: number;
     lastActiveTime: Date;
   }> {
-    await this.mockApiDelay();
-    
-    const groupMessages = this.messages.filter(m => m.groupId === groupId);
+    const groupMessages = await this.getGroupMessages(groupId);
     const uniqueUsers = new Set(groupMessages.map(m => m.senderId));
     
-    // 获取最后活跃时间
-    const timestamps = groupMessages.map(m => m.timestamp);
-    const lastActiveTime = timestamps.length > 0 
-      ? new Date(Math.max(...timestamps.map(t => t.getTime())))
+    // 消息按时间排序，最后一条即最后活跃时间
+    const lastActiveTime = groupMessages.length > 0
+      ? groupMessages[groupMessages.length - 1].timestamp
       : new Date();
     
     return {
@@ -170,11 +235,55 @@ class WeChatService {
   }
 
   /**
-   * 模拟API延迟
+   * 通过群聊和时间的联合索引查询消息，结果按时间排序
+   */
+  private queryMessages(groupId: string, start: Date, end: Date): Promise<ChatMessage[]> {
+    return messageRepository.getAllByIndex(
+      'groupId_timestamp',
+      IDBKeyRange.bound([groupId, start], [groupId, end])
+    );
+  }
+
+  /**
+   * 本地数据库为空时写入模拟群聊和消息，只执行一次
    */
-  private async mockApiDelay(minMs = 100, maxMs = 500): Promise<void> {
-    const delay = Math.floor(Math.random() * (maxMs - minMs)) + minMs;
-    return new Promise(resolve => setTimeout(resolve, delay));
+  private ensureSeeded(): Promise<void> {
+    if (!this.seedPromise) {
+      this.seedPromise = (async () => {
+        if (await groupRepository.count() > 0) return;
+        await groupRepository.putMany(this.initMockGroups());
+        await messageRepository.putMany(this.initMockMessages());
+      })().catch(error => {
+        this.seedPromise = null;
+        throw error;
+      });
+    }
+    return this.seedPromise;
+  }
+
+  /**
+   * 根据消息发送者补充群成员，加入时间取该成员最早的一条消息
+   */
+  private syncGroupMembers(group: ChatGroup, messages: ChatMessage[]): void {
+    const memberIndex = new Map(group.members.map(member => [member.userId, member]));
+
+    messages.forEach(message => {
+      if (message.type === 'system' || message.senderId === 'system') return;
+
+      const member = memberIndex.get(message.senderId);
+      if (!member) {
+        const newMember: ChatGroup['members'][number] = {
+          userId: message.senderId,
+          name: message.sender,
+          role: 'member',
+          joinedAt: message.timestamp,
+        };
+        group.members.push(newMember);
+        memberIndex.set(message.senderId, newMember);
+      } else if (message.timestamp < member.joinedAt) {
+        member.joinedAt = message.timestamp;
+      }
+    });
   }
 
   /**
@@ -458,7 +567,7 @@ class WeChatService {
     timestamp: Date = new Date()
   ): ChatMessage {
     return {
-      id: `msg_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      id: createMessageId(groupId, senderId, timestamp, content),
       groupId,
       senderId,
       sender,
@@ -0,0 +1,39 @@
+import 'fake-indexeddb/auto';
+import { beforeEach } from 'vitest';
+
+/**
+ * 测试在Node中运行，没有localStorage，使用内存中的实现
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+globalThis.localStorage = new MemoryStorage();
+
+beforeEach(() => {
+  localStorage.clear();
+});
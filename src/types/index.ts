@@ -11,6 +11,104 @@ export interface ChatMessage {
   mentions?: string[];
   isRead?: boolean;
   groupId: string;
+  // 固定的消息不会被数据保留期清理
+  isPinned?: boolean;
+}
+
+// Chat Import Types
+export type ChatImportFormat = 'wechat-text' | 'csv' | 'html' | 'json';
+
+export type ImportField = 'sender' | 'timestamp' | 'content' | 'type';
+
+// 表格类格式中各字段对应的列名
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportParseOptions {
+  groupId?: string;
+  // 只有时间没有日期的消息所使用的起始日期，默认为今天
+  referenceDate?: Date;
+  columnMapping?: ImportColumnMapping;
+}
+
+export interface ImportParseError {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  messages: ChatMessage[];
+  errors: ImportParseError[];
+}
+
+// 增量解析器，用于分块读取的大文件
+export interface ImportStreamParser {
+  write: (chunk: string) => void;
+  // 取出并清空目前已解析出的消息，便于分批传递
+  takeMessages: () => ChatMessage[];
+  // 结束解析，返回尚未取出的消息和全部错误
+  end: () => ImportParseResult;
+}
+
+export interface ChatImporter {
+  id: ChatImportFormat;
+  name: string;
+  extensions: string[];
+  // 根据文件开头的内容片段判断是否为该格式
+  sniff: (sample: string) => boolean;
+  parse: (content: string, options?: ImportParseOptions) => ImportParseResult;
+  // 表格类格式提供表头和默认列映射，用于导入预览中的列映射
+  getHeaders?: (sample: string) => string[];
+  detectColumnMapping?: (headers: string[]) => ImportColumnMapping;
+  // 支持增量解析的格式提供流式解析器，否则需要读入完整内容后再解析
+  createStreamParser?: (options?: ImportParseOptions) => ImportStreamParser;
+}
+
+// 导入到已有群聊时的合并结果
+export interface ImportMergeResult {
+  added: ChatMessage[];
+  duplicates: ChatMessage[];
+  // 同一发送者同一时间已有内容不同的消息（如导入后被编辑或撤回）
+  conflicts: ChatMessage[];
+  // 与冲突消息对应的已有消息，导入冲突消息时被替换
+  replaced: ChatMessage[];
+}
+
+// Sender Identity Types
+// 同一个人在群昵称、备注名、微信号之间的对应关系，按群聊分别维护
+export interface SenderIdentity {
+  // 合并后统一使用的senderId
+  id: string;
+  groupId: string;
+  displayName: string;
+  // 出现过的所有显示名
+  aliases: string[];
+  // 归入该身份的原始senderId及其使用过的名字
+  sources: {
+    senderId: string;
+    names: string[];
+    messageCount: number;
+  }[];
+  messageCount: number;
+}
+
+// 一个群聊中对发送者身份的手动调整，保存在本地数据库中，id为群聊ID
+export interface IdentityMapping {
+  id: string;
+  // 原始senderId -> 合并后的senderId
+  links: Record<string, string>;
+  // 合并后的senderId -> 手动指定的显示名
+  displayNames: Record<string, string>;
+  // 已忽略的合并建议，每项为排序后用|连接的身份ID
+  dismissedSuggestions: string[];
+  updatedAt: Date;
+}
+
+export interface IdentityMergeSuggestion {
+  identityIds: string[];
+  names: string[];
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
 }
 
 // Chat Summary Types
@@ -35,6 +133,97 @@ export interface ChatSummary {
     messageCount: number;
   }[];
   status: 'generating' | 'completed' | 'failed';
+  isPinned?: boolean;
+  // 模型返回的结构化总结，content是由它渲染的Markdown；较早生成的总结没有这个字段
+  structured?: StructuredSummary;
+  // 生成时使用的提示词模板及其版本
+  promptTemplate?: {
+    id: string;
+    name: string;
+    version: number;
+  };
+  // 由消息ID和总结选项计算的缓存键，消息和选项都相同时直接使用这条总结
+  cacheKey?: string;
+  // 仅在生成总结时返回缓存的总结时为true，不保存到数据库
+  fromCache?: boolean;
+  // 推理模型生成总结时的思考过程，只在总结页面查看，不用于海报和导出
+  reasoning?: string;
+  // 总结引用的原始消息，按时间排序，界面中作为脚注显示
+  citations?: SummaryCitation[];
+}
+
+// 总结条目引用的一条原始消息
+export interface SummaryCitation {
+  messageId: string;
+  timestamp: Date;
+  // 消息在提示词中的文本（不含时间），如“张三: 明天开会”
+  text: string;
+}
+
+export interface SummaryActionItem {
+  task: string;
+  owner?: string;
+  due?: string;
+}
+
+export interface StructuredSummary {
+  topics: string[];
+  decisions: string[];
+  actionItems: SummaryActionItem[];
+  notableInfo: string[];
+  openQuestions: string[];
+  // 各部分每个条目依据的消息，与条目一一对应；模型输出时为消息编号，保存前替换为消息ID
+  // 空数组表示没有找到依据，可能是模型臆造的内容；较早生成的总结没有这个字段
+  sources?: Partial<Record<SummarySection, string[][]>>;
+}
+
+export type SummarySection = 'topics' | 'decisions' | 'actionItems' | 'notableInfo' | 'openQuestions';
+
+// 影响提示词和消息格式的总结选项
+export interface SummaryPromptOptions {
+  language?: 'zh' | 'en';
+  detailLevel?: 'brief' | 'detailed' | 'comprehensive';
+  summaryLength?: 'short' | 'medium' | 'long';
+  summaryStyle?: 'formal' | 'casual' | 'creative';
+  focusPoints?: string[];
+  // 提示词模板库中模板的ID
+  template?: string;
+  includeParticipants?: boolean;
+  includeTimestamps?: boolean;
+}
+
+// Prompt Template Types
+// 模板中可以使用{{groupName}}、{{timeRange}}、{{focusPoints}}变量，用户提示词用{{messages}}表示聊天记录的位置
+export interface PromptTemplateContent {
+  systemPrompt: string;
+  userPrompt: string;
+  // 输出的总结部分及其顺序
+  sections: SummarySection[];
+}
+
+export interface PromptTemplateVersion extends PromptTemplateContent {
+  version: number;
+  updatedAt: Date;
+}
+
+export interface PromptTemplate extends PromptTemplateContent {
+  id: string;
+  name: string;
+  description: string;
+  // 内置模板随应用提供，不能修改或删除
+  builtIn: boolean;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+  // 之前的版本，按版本号从旧到新排列
+  history: PromptTemplateVersion[];
+}
+
+// 渲染模板变量所需的信息，由生成总结的服务提供
+export interface PromptContext {
+  groupName: string;
+  startDate: Date;
+  endDate: Date;
 }
 
 // User Types
@@ -122,6 +311,8 @@ export interface DeepseekResponse {
     message: {
       role: string;
       content: string;
+      // 推理模型（如deepseek-reasoner）在回答之前的思考过程，与content分开返回
+      reasoning_content?: string | null;
     };
     finish_reason: string;
   }[];
@@ -132,6 +323,183 @@ export interface DeepseekResponse {
   };
 }
 
+// 流式响应中每个事件的数据，delta为本次新增的内容
+export interface DeepseekStreamChunk {
+  id: string;
+  model: string;
+  object: string;
+  created: number;
+  choices: {
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      reasoning_content?: string | null;
+    };
+    finish_reason: string | null;
+  }[];
+  // 请求时设置了stream_options.include_usage时，最后一个事件包含整次请求的用量
+  usage?: DeepseekResponse['usage'] | null;
+}
+
+// Deepseek余额接口的响应，金额为字符串
+export interface DeepseekBalanceResponse {
+  is_available: boolean;
+  balance_infos?: {
+    currency: string;
+    total_balance: string;
+    granted_balance: string;
+    topped_up_balance: string;
+  }[];
+}
+
+// Deepseek账户余额，每种货币一项
+export interface DeepseekBalance {
+  isAvailable: boolean;
+  balances: {
+    currency: string;
+    total: number;
+    granted: number;
+    toppedUp: number;
+  }[];
+}
+
+// 长聊天记录分段总结的进度，map为逐段提取要点，reduce为合并分段要点
+export interface SummaryProgress {
+  phase: 'map' | 'reduce';
+  current: number;
+  total: number;
+}
+
+// LLM Provider Types
+export type LLMProviderId = 'deepseek' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  // 推理模型的思考过程，不属于回答内容
+  reasoning?: string;
+  // 服务没有返回用量时为undefined
+  usage?: LLMUsage;
+}
+
+// 单个服务商的连接配置
+export interface LLMProviderConfig {
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  // 每个服务商分别保存配置，切换服务商时不会丢失
+  providers: Record<LLMProviderId, LLMProviderConfig>;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  description: string;
+  defaultApiUrl: string;
+  // 无法从服务端获取模型列表时可选的模型
+  defaultModels: string[];
+  requiresApiKey: boolean;
+  // 上下文窗口的token数，用于判断是否需要分段总结
+  contextWindow: number;
+  listModels(config: LLMProviderConfig): Promise<string[]>;
+  complete(request: LLMCompletionRequest, config: LLMProviderConfig, signal?: AbortSignal): Promise<LLMCompletion>;
+  completeStream(
+    request: LLMCompletionRequest,
+    config: LLMProviderConfig,
+    onToken: (token: string, content: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion>;
+}
+
+// 模型服务调用失败的原因，界面据此给出不同的提示
+export type LLMErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rateLimit'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'content'
+  | 'request'
+  | 'circuitOpen';
+
+// Usage Ledger Types
+export type UsageFeature = 'summary' | 'poster';
+
+// 一次模型调用的用量和花费
+export interface UsageRecord extends LLMUsage {
+  id: string;
+  createdAt: Date;
+  provider: LLMProviderId;
+  model: string;
+  feature: UsageFeature;
+  groupId?: string;
+  // 按记录时的价格计算，之后修改价格不影响已有记录
+  cost: number;
+  // 服务没有返回用量，按内容长度估算
+  isEstimated?: boolean;
+}
+
+// 模型的价格，单位为每百万token
+export interface ModelPricing {
+  model: string;
+  inputPrice: number;
+  outputPrice: number;
+}
+
+export interface UsageSettings {
+  currency: string;
+  pricing: ModelPricing[];
+  // 为null时不限制
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+  // 花费达到预算的这个比例时提醒，0到1之间
+  alertThreshold: number;
+}
+
+export interface BudgetUsage {
+  spent: number;
+  limit: number | null;
+}
+
+export interface BudgetStatus {
+  daily: BudgetUsage;
+  monthly: BudgetUsage;
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+// 一天或一个月的花费汇总，period为yyyy-MM-dd或yyyy-MM
+export interface UsageSpend {
+  period: string;
+  cost: number;
+  totalTokens: number;
+  calls: number;
+}
+
 // Poster Generation Types
 export interface PosterTemplate {
   id: string;
@@ -172,6 +540,74 @@ export interface GeneratedPoster {
   imageUrl: string;
   templateId: string;
   status: 'generating' | 'completed' | 'failed';
+  isPinned?: boolean;
+}
+
+// Data Export Types
+export type ExportFormat = 'json' | 'csv' | 'txt';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 不指定时导出所有群聊
+  groupIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+// Backup Types
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface BackupStores {
+  messages: ChatMessage[];
+  groups: ChatGroup[];
+  summaries: ChatSummary[];
+  posters: GeneratedPoster[];
+  scheduledTasks: ScheduledTask[];
+  usageRecords: UsageRecord[];
+  identityMappings: IdentityMapping[];
+}
+
+export interface BackupArchive {
+  format: string;
+  version: number;
+  createdAt: Date;
+  stores: BackupStores;
+  // localStorage中的设置，键为localStorage键名
+  settings: Record<string, string>;
+}
+
+export interface BackupRestoreResult {
+  mode: BackupRestoreMode;
+  // 备份文件原始的版本号，低于当前版本时已自动迁移
+  sourceVersion: number;
+  restored: Record<keyof BackupStores, number>;
+  // 格式不正确而跳过的记录数
+  skipped: Record<keyof BackupStores, number>;
+  settings: number;
+}
+
+// Data Retention Types
+export type RetentionPeriod = '7' | '30' | '90' | 'forever';
+
+export interface RetentionCounts {
+  messages: number;
+  summaries: number;
+  posters: number;
+}
+
+export interface RetentionReport {
+  runAt: Date;
+  // 早于该时间的数据会被清理，永久保留时为null
+  cutoff: Date | null;
+  removed: RetentionCounts;
+  // 已过期但因固定而保留的数量
+  keptPinned: RetentionCounts;
 }
 
 // Schedule Types
@@ -179,7 +615,7 @@ export interface ScheduledTask {
   id: string;
   type: 'summary' | 'poster';
   groupId: string;
-  frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
+  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
   customCron?: string;
   nextRunTime: Date;
   lastRunTime?: Date;
@@ -0,0 +1,14 @@
+/**
+ * 计算字符串的FNV-1a 32位哈希值，返回8位十六进制字符串
+ * 用于生成稳定的ID（如发送者ID），不适用于安全场景
+ */
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../types';
+import { chunkMessages } from './messageChunker';
+
+const createMessage = (id: string, timestamp: Date, content = '1234567'): ChatMessage => ({
+  id,
+  sender: '张三',
+  senderId: 'a',
+  content,
+  timestamp,
+  type: 'text',
+  groupId: 'group_1',
+});
+
+// 7个字符约2个token，加上换行每条消息计3个token
+const format = (message: ChatMessage) => message.content;
+const ids = (chunks: ChatMessage[][]) => chunks.map(chunk => chunk.map(message => message.id));
+
+describe('chunkMessages', () => {
+  it('keeps messages in one chunk when they fit the budget', () => {
+    const messages = [0, 1, 2].map(minute => createMessage(`m${minute}`, new Date(2024, 0, 15, 10, minute)));
+
+    expect(ids(chunkMessages(messages, 9, format))).toEqual([['m0', 'm1', 'm2']]);
+    expect(chunkMessages([], 9, format)).toEqual([]);
+  });
+
+  it('splits at topic gaps and day boundaries before splitting a conversation', () => {
+    const messages = [
+      createMessage('a1', new Date(2024, 0, 15, 10, 0)),
+      createMessage('a2', new Date(2024, 0, 15, 10, 1)),
+      // 一小时无人发言，视为新话题
+      createMessage('b1', new Date(2024, 0, 15, 11, 1)),
+      createMessage('b2', new Date(2024, 0, 15, 11, 2)),
+      createMessage('c1', new Date(2024, 0, 16, 11, 3)),
+    ];
+
+    expect(ids(chunkMessages(messages, 6, format))).toEqual([['a1', 'a2'], ['b1', 'b2'], ['c1']]);
+    // 相邻的小片段合并到预算以内
+    expect(ids(chunkMessages(messages, 12, format))).toEqual([['a1', 'a2', 'b1', 'b2'], ['c1']]);
+  });
+
+  it('splits an oversized conversation at its longest pause', () => {
+    const messages = [
+      createMessage('m1', new Date(2024, 0, 15, 10, 0)),
+      createMessage('m2', new Date(2024, 0, 15, 10, 1)),
+      createMessage('m3', new Date(2024, 0, 15, 10, 20)),
+      createMessage('m4', new Date(2024, 0, 15, 10, 21)),
+    ];
+
+    expect(ids(chunkMessages(messages, 9, format))).toEqual([['m1', 'm2'], ['m3', 'm4']]);
+  });
+
+  it('puts a message larger than the budget in a chunk of its own', () => {
+    const messages = [
+      createMessage('small', new Date(2024, 0, 15, 10, 0)),
+      createMessage('large', new Date(2024, 0, 15, 10, 1), 'x'.repeat(100)),
+      createMessage('last', new Date(2024, 0, 15, 10, 2)),
+    ];
+
+    expect(ids(chunkMessages(messages, 10, format))).toEqual([['small'], ['large'], ['last']]);
+  });
+
+  it('treats a budget below one token as one message per chunk', () => {
+    const messages = [0, 1].map(minute => createMessage(`m${minute}`, new Date(2024, 0, 15, 10, minute)));
+
+    expect(ids(chunkMessages(messages, -500, format))).toEqual([['m0'], ['m1']]);
+  });
+});
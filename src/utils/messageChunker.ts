@@ -0,0 +1,109 @@
+import type { ChatMessage } from '../types';
+import { estimateTokens } from './tokenUtils';
+
+// 两条消息间隔超过30分钟视为话题切换
+const TOPIC_GAP_MS = 30 * 60 * 1000;
+
+interface Segment {
+  messages: ChatMessage[];
+  tokens: number;
+}
+
+const isSameDay = (a: Date, b: Date): boolean => {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+};
+
+/**
+ * 在间隔最长的位置把片段一分为二，直到每个片段都不超过预算
+ * 单条消息超过预算时单独成为一个片段
+ */
+const splitOversized = (segment: Segment, maxTokens: number, countTokens: (message: ChatMessage) => number): Segment[] => {
+  if (segment.tokens <= maxTokens || segment.messages.length <= 1) return [segment];
+
+  let splitIndex = 1;
+  let longestGap = -1;
+  for (let i = 1; i < segment.messages.length; i++) {
+    const gap = segment.messages[i].timestamp.getTime() - segment.messages[i - 1].timestamp.getTime();
+    if (gap > longestGap) {
+      longestGap = gap;
+      splitIndex = i;
+    }
+  }
+
+  // 消息间隔都相同时从中间切分，避免每次只切下一条消息
+  if (longestGap === 0) {
+    splitIndex = Math.floor(segment.messages.length / 2);
+  }
+
+  const toSegment = (messages: ChatMessage[]): Segment => ({
+    messages,
+    tokens: messages.reduce((sum, message) => sum + countTokens(message), 0),
+  });
+
+  return [
+    ...splitOversized(toSegment(segment.messages.slice(0, splitIndex)), maxTokens, countTokens),
+    ...splitOversized(toSegment(segment.messages.slice(splitIndex)), maxTokens, countTokens),
+  ];
+};
+
+/**
+ * 将消息按时间顺序切分为多个分块，每个分块的估算token数不超过maxTokens
+ * 优先在跨天和长时间无人发言（话题切换）的位置切分，相邻的小片段会合并到同一个分块
+ * @param messages 已按时间排序的消息
+ * @param maxTokens 每个分块的token预算，小于1时按1计算，即每条消息单独成块
+ * @param formatMessage 消息在提示词中的文本，用于估算token数
+ */
+export const chunkMessages = (
+  messages: ChatMessage[],
+  maxTokens: number,
+  formatMessage: (message: ChatMessage) => string
+): ChatMessage[][] => {
+  if (messages.length === 0) return [];
+  const tokenBudget = Math.max(1, maxTokens);
+
+  const tokenCounts = new Map<ChatMessage, number>();
+  const countTokens = (message: ChatMessage): number => {
+    let count = tokenCounts.get(message);
+    if (count === undefined) {
+      // 每条消息额外计一个token的换行
+      count = estimateTokens(formatMessage(message)) + 1;
+      tokenCounts.set(message, count);
+    }
+    return count;
+  };
+
+  // 按话题边界切分为片段
+  const segments: Segment[] = [];
+  let current: Segment = { messages: [], tokens: 0 };
+  messages.forEach((message, index) => {
+    const previous = messages[index - 1];
+    const isBoundary = previous && (
+      message.timestamp.getTime() - previous.timestamp.getTime() >= TOPIC_GAP_MS ||
+      !isSameDay(message.timestamp, previous.timestamp)
+    );
+    if (isBoundary) {
+      segments.push(current);
+      current = { messages: [], tokens: 0 };
+    }
+    current.messages.push(message);
+    current.tokens += countTokens(message);
+  });
+  segments.push(current);
+
+  // 超出预算的片段继续切分，再把相邻的片段合并到预算以内
+  const chunks: ChatMessage[][] = [];
+  let chunk: Segment = { messages: [], tokens: 0 };
+  segments
+    .flatMap(segment => splitOversized(segment, tokenBudget, countTokens))
+    .forEach(segment => {
+      if (chunk.messages.length > 0 && chunk.tokens + segment.tokens > tokenBudget) {
+        chunks.push(chunk.messages);
+        chunk = { messages: [], tokens: 0 };
+      }
+      chunk.messages.push(...segment.messages);
+      chunk.tokens += segment.tokens;
+    });
+  if (chunk.messages.length > 0) chunks.push(chunk.messages);
+
+  return chunks;
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../types';
+import { assignToGroup, createMessageId, createMessageIdFactory, mergeMessages } from './messageIdentity';
+
+const GROUP_ID = 'group_1';
+
+const createMessage = (senderId: string, minute: number, content: string, type: ChatMessage['type'] = 'text'): ChatMessage => {
+  const timestamp = new Date(2024, 0, 15, 9, minute);
+  return {
+    id: createMessageId(GROUP_ID, senderId, timestamp, content),
+    sender: senderId,
+    senderId,
+    content,
+    timestamp,
+    type,
+    groupId: GROUP_ID,
+  };
+};
+
+describe('createMessageId', () => {
+  it('gives the same message the same id', () => {
+    const timestamp = new Date(2024, 0, 15, 9, 30);
+    expect(createMessageId(GROUP_ID, 'a', timestamp, '好的')).toBe(createMessageId(GROUP_ID, 'a', new Date(timestamp), '好的'));
+  });
+
+  it('distinguishes group, sender, time and content', () => {
+    const timestamp = new Date(2024, 0, 15, 9, 30);
+    const id = createMessageId(GROUP_ID, 'a', timestamp, '好的');
+    expect(createMessageId('group_2', 'a', timestamp, '好的')).not.toBe(id);
+    expect(createMessageId(GROUP_ID, 'b', timestamp, '好的')).not.toBe(id);
+    expect(createMessageId(GROUP_ID, 'a', new Date(2024, 0, 15, 9, 31), '好的')).not.toBe(id);
+    expect(createMessageId(GROUP_ID, 'a', timestamp, '收到')).not.toBe(id);
+  });
+});
+
+describe('createMessageIdFactory', () => {
+  it('numbers repeated messages in the order they appear', () => {
+    const timestamp = new Date(2024, 0, 15, 9, 30);
+    const first = createMessageIdFactory(GROUP_ID);
+    const second = createMessageIdFactory(GROUP_ID);
+    const ids = [first('a', timestamp, '好的'), first('a', timestamp, '好的')];
+
+    expect(ids[1]).toBe(`${ids[0]}_2`);
+    expect([second('a', timestamp, '好的'), second('a', timestamp, '好的')]).toEqual(ids);
+  });
+});
+
+describe('assignToGroup', () => {
+  it('regenerates ids for messages parsed without the target group', () => {
+    const message = createMessage('a', 0, 'hi');
+    const [assigned] = assignToGroup([message], 'group_2');
+
+    expect(assigned.groupId).toBe('group_2');
+    expect(assigned.id).toBe(createMessageId('group_2', 'a', message.timestamp, 'hi'));
+  });
+
+  it('keeps messages already in the group unchanged', () => {
+    const messages = [createMessage('a', 0, 'hi')];
+    expect(assignToGroup(messages, GROUP_ID)).toBe(messages);
+  });
+});
+
+describe('mergeMessages', () => {
+  it('adds messages that are not stored yet', () => {
+    const stored = createMessage('a', 0, '早上好');
+    const incoming = createMessage('b', 1, '早');
+
+    expect(mergeMessages([stored], [incoming])).toEqual({ added: [incoming], duplicates: [], conflicts: [], replaced: [] });
+  });
+
+  it('treats a message stored with the same id and content as a duplicate', () => {
+    const stored = createMessage('a', 0, '早上好');
+
+    expect(mergeMessages([stored], [{ ...stored }])).toEqual({ added: [], duplicates: [stored], conflicts: [], replaced: [] });
+  });
+
+  it('adds different messages from the same sender in the same minute', () => {
+    const stored = createMessage('a', 0, '第一条');
+    const incoming = createMessage('a', 0, '第二条');
+
+    expect(mergeMessages([stored], [{ ...stored }, incoming])).toEqual({
+      added: [incoming],
+      duplicates: [stored],
+      conflicts: [],
+      replaced: [],
+    });
+  });
+
+  it('reports a stored message that was edited after the import as a conflict', () => {
+    const stored = createMessage('a', 0, '原来的内容');
+    const edited = createMessage('a', 0, '修改后的内容');
+
+    expect(stored.id).not.toBe(edited.id);
+    expect(mergeMessages([stored], [edited])).toEqual({ added: [], duplicates: [], conflicts: [edited], replaced: [stored] });
+  });
+
+  it('pairs conflicts with stored messages one to one', () => {
+    const stored = createMessage('a', 0, '原来的内容');
+    const edited = createMessage('a', 0, '修改后的内容');
+    const extra = createMessage('a', 0, '又一条');
+
+    expect(mergeMessages([stored], [edited, extra])).toEqual({
+      added: [extra],
+      duplicates: [],
+      conflicts: [edited],
+      replaced: [stored],
+    });
+  });
+
+  it('does not match messages from another sender or time', () => {
+    const stored = createMessage('a', 0, '原来的内容');
+    const otherSender = createMessage('b', 0, '修改后的内容');
+    const otherTime = createMessage('a', 1, '修改后的内容');
+
+    expect(mergeMessages([stored], [otherSender, otherTime]).added).toEqual([otherSender, otherTime]);
+  });
+
+  it('treats an id repeated within the import as a duplicate', () => {
+    const incoming = createMessage('a', 0, 'hi');
+
+    expect(mergeMessages([], [incoming, { ...incoming }])).toEqual({
+      added: [incoming],
+      duplicates: [incoming],
+      conflicts: [],
+      replaced: [],
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import type { ChatMessage, ImportMergeResult } from '../types';
+import { hashString } from './hashUtils';
+
+/**
+ * 消息的发送身份键：群聊 + 发送者 + 发送时间
+ */
+const getSenderTimeKey = (groupId: string, senderId: string, timestamp: Date): string => {
+  return `${hashString(`${groupId}\u0000${senderId}`)}_${timestamp.getTime().toString(36)}`;
+};
+
+/**
+ * 根据群聊、发送者、发送时间和内容哈希生成内容寻址的消息ID
+ * 同一条消息在多次导入中得到相同的ID
+ */
+export const createMessageId = (
+  groupId: string,
+  senderId: string,
+  timestamp: Date,
+  content: string
+): string => {
+  return `msg_${getSenderTimeKey(groupId, senderId, timestamp)}_${hashString(content)}`;
+};
+
+/**
+ * 创建一次导入中使用的消息ID生成器
+ * 同一发送者在同一时间发送的相同内容（如一分钟内连发两次“好的”）按出现顺序追加序号，
+ * 重复导入同一文件时序号不变，因此仍能正确去重
+ */
+export const createMessageIdFactory = (groupId: string) => {
+  const occurrences = new Map<string, number>();
+
+  return (senderId: string, timestamp: Date, content: string): string => {
+    const baseId = createMessageId(groupId, senderId, timestamp, content);
+    const count = (occurrences.get(baseId) ?? 0) + 1;
+    occurrences.set(baseId, count);
+    return count === 1 ? baseId : `${baseId}_${count}`;
+  };
+};
+
+/**
+ * 将消息归入指定群聊，群聊不同时按新群聊重新生成消息ID
+ * 解析时尚未确定目标群聊（如导入后新建群聊）的消息需要先经过这一步再合并
+ */
+export const assignToGroup = (messages: ChatMessage[], groupId: string): ChatMessage[] => {
+  if (messages.every(message => message.groupId === groupId)) return messages;
+
+  const nextMessageId = createMessageIdFactory(groupId);
+  return messages.map(message => ({
+    ...message,
+    id: nextMessageId(message.senderId, message.timestamp, message.content),
+    groupId,
+  }));
+};
+
+/**
+ * 将导入的消息与群聊中已有的消息合并
+ * - 已存在相同ID且内容相同的消息视为重复
+ * - 同一群聊、同一发送者、同一时间已有导入中没有的消息时，视为冲突（已保存的消息在导入后被编辑或撤回），
+ *   与这些已有消息按顺序一一对应，对应的已有消息记入replaced
+ * - 其余为新增消息；时间只精确到分钟，同一发送者同一分钟内内容不同且已有消息都在导入中的是不同的消息
+ */
+export const mergeMessages = (existing: ChatMessage[], incoming: ChatMessage[]): ImportMergeResult => {
+  const existingById = new Map(existing.map(message => [message.id, message]));
+  const incomingIds = new Set(incoming.map(message => message.id));
+
+  // 导入中找不到的已有消息，按发送身份键分组
+  const unmatchedByKey = new Map<string, ChatMessage[]>();
+  existing.forEach(message => {
+    if (incomingIds.has(message.id)) return;
+    const key = getSenderTimeKey(message.groupId, message.senderId, message.timestamp);
+    const unmatched = unmatchedByKey.get(key);
+    if (unmatched) {
+      unmatched.push(message);
+    } else {
+      unmatchedByKey.set(key, [message]);
+    }
+  });
+
+  const result: ImportMergeResult = { added: [], duplicates: [], conflicts: [], replaced: [] };
+  const seenIds = new Set<string>();
+
+  incoming.forEach(message => {
+    if (seenIds.has(message.id)) {
+      result.duplicates.push(message);
+      return;
+    }
+    seenIds.add(message.id);
+
+    const stored = existingById.get(message.id);
+    if (stored) {
+      if (stored.content === message.content && stored.type === message.type) {
+        result.duplicates.push(message);
+      } else {
+        result.conflicts.push(message);
+        result.replaced.push(stored);
+      }
+      return;
+    }
+
+    const key = getSenderTimeKey(message.groupId, message.senderId, message.timestamp);
+    const replaced = unmatchedByKey.get(key)?.shift();
+    if (replaced) {
+      result.conflicts.push(message);
+      result.replaced.push(replaced);
+    } else {
+      result.added.push(message);
+    }
+  });
+
+  return result;
+};
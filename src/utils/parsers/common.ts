@@ -0,0 +1,107 @@
+import type { ChatMessage } from '../../types';
+import { hashString } from '../hashUtils';
+
+const MESSAGE_TYPES: ChatMessage['type'][] = ['text', 'image', 'voice', 'video', 'file', 'location', 'system'];
+
+// 微信数据库中的消息类型编号（WeChatMsg/留痕等工具导出的Type字段）
+const WECHAT_TYPE_CODES: Record<number, ChatMessage['type']> = {
+  1: 'text',
+  3: 'image',
+  34: 'voice',
+  43: 'video',
+  47: 'image',
+  48: 'location',
+  49: 'file',
+  10000: 'system',
+  10002: 'system',
+};
+
+const MEDIA_PLACEHOLDERS: { regex: RegExp; type: ChatMessage['type'] }[] = [
+  { regex: /^\[(图片|Photo)\]$/, type: 'image' },
+  { regex: /^\[(动画表情|Sticker)\]$/, type: 'image' },
+  { regex: /^\[(语音|Voice)\]/, type: 'voice' },
+  { regex: /^\[(视频|Video)\]$/, type: 'video' },
+  { regex: /^\[(位置|Location)\]/, type: 'location' },
+  { regex: /^\[(文件|File)\]/, type: 'file' },
+];
+
+/**
+ * 根据发送者昵称生成稳定的发送者ID，同一昵称在多次导入中得到相同ID
+ */
+export const getStableSenderId = (sender: string): string => {
+  return `wx_${hashString(sender.trim())}`;
+};
+
+/**
+ * 根据消息内容推断消息类型
+ */
+export const detectMessageType = (content: string): ChatMessage['type'] => {
+  const trimmed = content.trim();
+  const placeholder = MEDIA_PLACEHOLDERS.find(item => item.regex.test(trimmed));
+  return placeholder ? placeholder.type : 'text';
+};
+
+/**
+ * 将导出文件中的类型字段（类型名称或微信类型编号）转换为消息类型
+ */
+export const normalizeMessageType = (value: unknown, content = ''): ChatMessage['type'] => {
+  if (typeof value === 'string' && MESSAGE_TYPES.includes(value.trim() as ChatMessage['type'])) {
+    return value.trim() as ChatMessage['type'];
+  }
+
+  const code = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  if (!isNaN(code) && WECHAT_TYPE_CODES[code]) {
+    return WECHAT_TYPE_CODES[code];
+  }
+
+  return detectMessageType(content);
+};
+
+/**
+ * 解析导出文件中的时间字段，支持Unix时间戳（秒或毫秒）和常见日期字符串
+ * 无法解析时返回null
+ */
+export const parseTimestampValue = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{9,13}$/.test(value.trim()))) {
+    const num = Number(value);
+    // 小于1e12的视为秒级时间戳
+    const date = new Date(num < 1e12 ? num * 1000 : num);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  const match = trimmed.match(
+    /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[\sT]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/
+  );
+  if (match) {
+    const [year, month, day, hours, minutes, seconds] = match
+      .slice(1, 7)
+      .map(part => (part ? parseInt(part, 10) : 0));
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    return isNaN(date.getTime()) || date.getDate() !== day ? null : date;
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * 取对象中第一个存在且非空的字段值
+ */
+export const pickField = (record: Record<string, unknown>, keys: string[]): unknown => {
+  for (const key of keys) {
+    const value = record[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvStreamParser, detectCsvColumnMapping, getCsvHeaders, parseCsvExport, parseCsvRows } from './csvParser';
+
+describe('parseCsvRows', () => {
+  it('handles quoted fields, escaped quotes and line breaks inside fields', () => {
+    const rows = parseCsvRows('a,b\r\n"x, y","say ""hi""\nagain"\n\nlast,row');
+
+    expect(rows).toEqual([
+      { fields: ['a', 'b'], line: 1 },
+      { fields: ['x, y', 'say "hi"\nagain'], line: 2 },
+      { fields: ['last', 'row'], line: 5 },
+    ]);
+  });
+});
+
+describe('getCsvHeaders', () => {
+  it('reads the first line without the byte order mark', () => {
+    expect(getCsvHeaders('\uFEFFNickName, StrTime ,StrContent\n张三,2024-01-15 09:30,hi')).toEqual(['NickName', 'StrTime', 'StrContent']);
+  });
+});
+
+describe('detectCsvColumnMapping', () => {
+  it('maps known column names to fields', () => {
+    expect(detectCsvColumnMapping(['发送人', '发送时间', '消息内容', '其他'])).toEqual({
+      sender: '发送人',
+      timestamp: '发送时间',
+      content: '消息内容',
+    });
+  });
+});
+
+describe('parseCsvExport', () => {
+  it('parses WeChatMsg exports with wxid senders and type codes', () => {
+    const { messages, errors } = parseCsvExport([
+      'Sender,NickName,StrTime,StrContent,Type,IsSender',
+      'wxid_a,张三,2024-01-15 09:30:00,早上好,1,0',
+      'wxid_b,,2024-01-15 09:31:00,[图片],3,1',
+      ',,2024-01-15 09:32:00,李四加入了群聊,10000,0',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(messages.map(({ sender, senderId, type }) => ({ sender, senderId, type }))).toEqual([
+      { sender: '张三', senderId: 'wxid_a', type: 'text' },
+      { sender: '我', senderId: 'wxid_b', type: 'image' },
+      { sender: '系统消息', senderId: 'system', type: 'system' },
+    ]);
+    expect(messages[0].timestamp).toEqual(new Date(2024, 0, 15, 9, 30));
+  });
+
+  it('uses the column mapping chosen by the user', () => {
+    const { messages } = parseCsvExport('who,when,what\n张三,1705282200,hi', {
+      columnMapping: { sender: 'who', timestamp: 'when', content: 'what' },
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ sender: '张三', content: 'hi', timestamp: new Date(1705282200 * 1000) });
+  });
+
+  it('reports rows with invalid times or missing senders', () => {
+    const { messages, errors } = parseCsvExport('sender,time,content\n张三,yesterday-ish,hi\n,2024-01-15 09:30,hi');
+
+    expect(messages).toEqual([]);
+    expect(errors.map(({ line, reason }) => ({ line, reason }))).toEqual([
+      { line: 2, reason: '无法识别的时间' },
+      { line: 3, reason: '缺少发送者' },
+    ]);
+  });
+
+  it('keeps the parsed messages when only some rows fail', () => {
+    const { messages, errors } = parseCsvExport('sender,time,content\n张三,2024-01-15 09:30,hi\n李四,,hello');
+
+    expect(messages.map(message => message.content)).toEqual(['hi']);
+    expect(errors).toEqual([{ line: 3, text: '李四,,hello', reason: '无法识别的时间' }]);
+  });
+
+  it('reports a header without the required columns', () => {
+    const { errors } = parseCsvExport('a,b\n1,2');
+    expect(errors).toEqual([{ line: 1, text: 'a,b', reason: '表头中缺少发送者、时间或内容列' }]);
+  });
+});
+
+describe('createCsvStreamParser', () => {
+  it('produces the same messages regardless of how the text is split', () => {
+    const content = 'sender,time,content\r\n张三,2024-01-15 09:30,"早上好,\n各位"\r\n李四,2024-01-15 09:31,收到\r\n';
+    const parser = createCsvStreamParser();
+    for (let i = 0; i < content.length; i += 5) {
+      parser.write(content.slice(i, i + 5));
+    }
+    const streamed = [...parser.takeMessages(), ...parser.end().messages];
+
+    expect(streamed).toEqual(parseCsvExport(content).messages);
+    expect(streamed.map(message => message.content)).toEqual(['早上好,\n各位', '收到']);
+  });
+});
@@ -0,0 +1,263 @@
+import type {
+  ChatImporter,
+  ChatMessage,
+  ImportColumnMapping,
+  ImportField,
+  ImportParseError,
+  ImportParseOptions,
+  ImportParseResult,
+  ImportStreamParser,
+} from '../../types';
+import { createMessageIdFactory } from '../messageIdentity';
+import { getStableSenderId, normalizeMessageType, parseTimestampValue, pickField } from './common';
+
+// 各字段可能使用的列名，兼容WeChatMsg/留痕导出以及常见的中英文表头
+const COLUMN_ALIASES = {
+  sender: ['NickName', 'Remark', 'sender', 'nickname', 'name', '发送者', '发送人', '昵称'],
+  // WeChatMsg导出中Sender列为发送者的wxid
+  senderId: ['Sender', 'senderId', 'wxid', '微信号'],
+  timestamp: ['StrTime', 'CreateTime', 'timestamp', 'time', 'date', '时间', '发送时间'],
+  content: ['StrContent', 'content', 'message', 'text', '内容', '消息内容'],
+  type: ['Type', 'type', '类型', '消息类型'],
+};
+
+interface CsvRow {
+  fields: string[];
+  line: number;
+}
+
+/**
+ * 创建按RFC 4180规则增量解析CSV的读取器，支持带引号的字段、字段内换行和转义的双引号
+ * 每解析出一行就回调一次，附带该行在原文件中的起始行号
+ */
+export const createCsvRowReader = (onRow: (row: CsvRow) => void) => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // 引号内遇到的双引号需要看下一个字符才能确定是转义还是结束
+  let quotePending = false;
+  // \r之后紧跟的\n属于同一个换行
+  let skipLineFeed = false;
+  let line = 1;
+  let rowStartLine = 1;
+  let isFirstChunk = true;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      onRow({ fields, line: rowStartLine });
+    }
+    fields = [];
+    field = '';
+    line++;
+    rowStartLine = line;
+  };
+
+  const write = (chunk: string) => {
+    const text = isFirstChunk ? chunk.replace(/^\uFEFF/, '') : chunk;
+    isFirstChunk = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        skipLineFeed = char === '\r';
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (field !== '' || fields.length > 0) {
+      endRow();
+    }
+  };
+
+  return { write, end };
+};
+
+/**
+ * 解析CSV文本，返回每行的字段数组以及该行在原文件中的起始行号
+ */
+export const parseCsvRows = (content: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  const reader = createCsvRowReader(row => rows.push(row));
+  reader.write(content);
+  reader.end();
+  return rows;
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['sender', 'timestamp', 'content'];
+
+/**
+ * 判断CSV表头中是否包含发送者、时间和内容列
+ */
+const hasRequiredColumns = (headers: string[]): boolean => {
+  const trimmed = headers.map(header => header.trim());
+  return REQUIRED_FIELDS.every(field => COLUMN_ALIASES[field].some(alias => trimmed.includes(alias)));
+};
+
+/**
+ * 获取CSV文件的表头
+ */
+export const getCsvHeaders = (content: string): string[] => {
+  const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/)[0] ?? '';
+  return (parseCsvRows(firstLine)[0]?.fields ?? []).map(header => header.trim());
+};
+
+/**
+ * 根据列名别名推断各字段对应的列
+ */
+export const detectCsvColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {};
+  (Object.keys(COLUMN_ALIASES) as (keyof typeof COLUMN_ALIASES)[]).forEach(field => {
+    if (field === 'senderId') return;
+    const column = COLUMN_ALIASES[field].find(alias => headers.includes(alias));
+    if (column) mapping[field] = column;
+  });
+  return mapping;
+};
+
+/**
+ * 读取字段值，指定了列映射时只使用映射的列，否则按别名查找
+ */
+const readField = (
+  record: Record<string, string>,
+  field: ImportField,
+  columnMapping?: ImportColumnMapping
+): unknown => {
+  const column = columnMapping?.[field];
+  if (column) return record[column] || undefined;
+  return pickField(record, COLUMN_ALIASES[field]);
+};
+
+/**
+ * 创建CSV聊天记录的增量解析器，第一行为表头
+ */
+export const createCsvStreamParser = (options: ImportParseOptions = {}): ImportStreamParser => {
+  const { groupId = 'imported_group', columnMapping } = options;
+  let messages: ChatMessage[] = [];
+  const errors: ImportParseError[] = [];
+  const hasMapping = !!columnMapping && REQUIRED_FIELDS.every(field => !!columnMapping[field]);
+  let headers: string[] | null = null;
+  let headerInvalid = false;
+  const nextMessageId = createMessageIdFactory(groupId);
+
+  const handleRow = ({ fields, line }: CsvRow) => {
+    if (!headers) {
+      headers = fields.map(header => header.trim());
+      if (!hasMapping && !hasRequiredColumns(headers)) {
+        headerInvalid = true;
+        errors.push({ line, text: fields.join(','), reason: '表头中缺少发送者、时间或内容列' });
+      }
+      return;
+    }
+    if (headerInvalid) return;
+
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = fields[index] ?? '';
+    });
+
+    // WeChatMsg导出中自己发送的消息（IsSender为1）可能没有昵称
+    const sender = String(readField(record, 'sender', columnMapping) ?? (record.IsSender === '1' ? '我' : '')).trim();
+    const body = String(readField(record, 'content', columnMapping) ?? '');
+    const timestamp = parseTimestampValue(readField(record, 'timestamp', columnMapping));
+    const type = normalizeMessageType(readField(record, 'type', columnMapping), body);
+
+    if (!timestamp) {
+      errors.push({ line, text: fields.join(','), reason: '无法识别的时间' });
+      return;
+    }
+    if (!sender && type !== 'system') {
+      errors.push({ line, text: fields.join(','), reason: '缺少发送者' });
+      return;
+    }
+
+    const rawSenderId = pickField(record, COLUMN_ALIASES.senderId);
+    const senderId = type === 'system'
+      ? 'system'
+      : rawSenderId ? String(rawSenderId).trim() : getStableSenderId(sender);
+    messages.push({
+      id: nextMessageId(senderId, timestamp, body),
+      sender: sender || '系统消息',
+      senderId,
+      content: body,
+      timestamp,
+      type,
+      groupId,
+    });
+  };
+
+  const reader = createCsvRowReader(handleRow);
+
+  return {
+    write: reader.write,
+    takeMessages: () => {
+      const taken = messages;
+      messages = [];
+      return taken;
+    },
+    end: () => {
+      reader.end();
+      return { messages, errors };
+    },
+  };
+};
+
+/**
+ * 解析CSV格式的聊天记录
+ */
+export const parseCsvExport = (
+  content: string,
+  options: ImportParseOptions = {}
+): ImportParseResult => {
+  const parser = createCsvStreamParser(options);
+  parser.write(content);
+  return parser.end();
+};
+
+export const csvImporter: ChatImporter = {
+  id: 'csv',
+  name: 'CSV表格（WeChatMsg/留痕等）',
+  extensions: ['.csv'],
+  sniff: sample => {
+    const headers = getCsvHeaders(sample);
+    return headers.length > 1 && hasRequiredColumns(headers);
+  },
+  parse: parseCsvExport,
+  getHeaders: getCsvHeaders,
+  detectColumnMapping: detectCsvColumnMapping,
+  createStreamParser: createCsvStreamParser,
+};
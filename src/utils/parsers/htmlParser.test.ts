@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToPlainText, parseHtmlExport } from './htmlParser';
+
+describe('htmlToPlainText', () => {
+  it('turns block elements into lines and images into placeholders', () => {
+    const text = htmlToPlainText('<html><head><title>x</title></head><body><div>张三 2024-01-15 09:30:00</div><p>看<img src="a.png"></p><!-- note --><script>alert(1)</script></body></html>');
+
+    expect(text.split('\n').filter(Boolean)).toEqual(['张三 2024-01-15 09:30:00', '看[图片]']);
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(htmlToPlainText('&lt;a&gt; &amp; &quot;b&quot; &#39;c&#39; &#x1F600; &unknown;')).toBe('<a> & "b" \'c\' 😀 &unknown;');
+  });
+
+  it('replaces code points outside Unicode or in the surrogate range', () => {
+    expect(htmlToPlainText('&#x110000;&#xD800;&#0;')).toBe('\uFFFD\uFFFD\uFFFD');
+  });
+});
+
+describe('parseHtmlExport', () => {
+  it('parses the text of the page as a WeChat text export', () => {
+    const { messages, errors } = parseHtmlExport('<div>张三 2024-01-15 09:30:00</div><div>早上好&nbsp;</div><div>李四 2024-01-15 09:31:00</div><div>收到</div>');
+
+    expect(errors).toEqual([]);
+    expect(messages.map(message => [message.sender, message.content])).toEqual([['张三', '早上好'], ['李四', '收到']]);
+  });
+});
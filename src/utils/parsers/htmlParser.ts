@@ -0,0 +1,73 @@
+import type { ChatImporter, ImportParseOptions, ImportParseResult } from '../../types';
+import { parseWeChatTextExport } from './wechatTextParser';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// 无效的数字实体按HTML规范替换为U+FFFD
+const REPLACEMENT_CHARACTER = '\uFFFD';
+
+/**
+ * 解码HTML实体，超出Unicode范围、为0或代理区的数字实体替换为U+FFFD
+ */
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (isNaN(code)) return match;
+      const isValid = code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return isValid ? String.fromCodePoint(code) : REPLACEMENT_CHARACTER;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+};
+
+/**
+ * 将HTML导出转换为按行排列的纯文本
+ * 块级元素和换行标签转换为换行，图片转换为[图片]占位符。
+ * 不依赖DOMParser，因此也可以在Web Worker中使用。
+ */
+export const htmlToPlainText = (html: string): string => {
+  const text = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<img[^>]*>/gi, '[图片]')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|section|article|header|footer)>/gi, '\n')
+    .replace(/<(p|div|li|tr|h[1-6]|section|article)[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split(/\r?\n/)
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+};
+
+/**
+ * 解析HTML格式的聊天记录
+ * 先转换为纯文本再按微信电脑版文本格式解析，错误报告中的行号对应转换后的文本。
+ */
+export const parseHtmlExport = (
+  content: string,
+  options: ImportParseOptions = {}
+): ImportParseResult => {
+  return parseWeChatTextExport(htmlToPlainText(content), options);
+};
+
+export const htmlImporter: ChatImporter = {
+  id: 'html',
+  name: 'HTML网页',
+  extensions: ['.html', '.htm'],
+  sniff: sample => /^\s*(<!doctype html|<html|<body|<div)/i.test(sample.replace(/^\uFEFF/, '')),
+  parse: parseHtmlExport,
+};
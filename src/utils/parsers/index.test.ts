@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamParser, detectImporter, getImporter } from './index';
+
+describe('detectImporter', () => {
+  it('recognizes each format by its content', () => {
+    expect(detectImporter('[{"sender":"张三"}]').id).toBe('json');
+    expect(detectImporter('<!DOCTYPE html><html></html>').id).toBe('html');
+    expect(detectImporter('NickName,StrTime,StrContent\n').id).toBe('csv');
+    expect(detectImporter('张三 2024-01-15 09:30:12\n早上好').id).toBe('wechat-text');
+  });
+
+  it('does not mistake single-line text messages for JSON', () => {
+    expect(detectImporter('[10:30] 张三: 早上好').id).toBe('wechat-text');
+  });
+
+  it('falls back to the file extension and then to WeChat text', () => {
+    expect(detectImporter('???', 'chat.csv').id).toBe('csv');
+    expect(detectImporter('???').id).toBe('wechat-text');
+  });
+});
+
+describe('createStreamParser', () => {
+  it('buffers formats without incremental parsing until the end', () => {
+    const parser = createStreamParser(getImporter('json')!);
+    parser.write('[{"sender":"张三","timestamp":"2024-01-15 09:30",');
+    parser.write('"content":"hi"}]');
+
+    expect(parser.takeMessages()).toEqual([]);
+    expect(parser.end().messages.map(message => message.content)).toEqual(['hi']);
+  });
+});
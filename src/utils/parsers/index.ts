@@ -0,0 +1,88 @@
+import type { ChatImporter, ChatImportFormat, ImportParseOptions, ImportStreamParser } from '../../types';
+import { csvImporter } from './csvParser';
+import { htmlImporter } from './htmlParser';
+import { jsonImporter } from './jsonParser';
+import { wechatTextImporter } from './wechatTextParser';
+
+// 内容嗅探只读取文件开头的这部分内容
+export const SNIFF_SAMPLE_SIZE = 4096;
+
+// 按嗅探优先级排列，格式特征越明确的越靠前
+const importers: ChatImporter[] = [jsonImporter, htmlImporter, csvImporter, wechatTextImporter];
+
+/**
+ * 注册新的导入格式，已存在相同ID的格式会被替换
+ */
+export const registerImporter = (importer: ChatImporter): void => {
+  const existingIndex = importers.findIndex(item => item.id === importer.id);
+  if (existingIndex >= 0) {
+    importers[existingIndex] = importer;
+  } else {
+    // 纯文本格式作为兜底，新格式插入到它之前
+    importers.splice(importers.length - 1, 0, importer);
+  }
+};
+
+/**
+ * 获取所有已注册的导入格式
+ */
+export const getImporters = (): ChatImporter[] => {
+  return [...importers];
+};
+
+/**
+ * 根据ID获取导入格式
+ */
+export const getImporter = (id: ChatImportFormat): ChatImporter | undefined => {
+  return importers.find(importer => importer.id === id);
+};
+
+/**
+ * 自动识别聊天记录的格式
+ * 优先根据内容嗅探，内容无法识别时根据文件扩展名判断，最后回退到微信电脑版文本格式
+ */
+export const detectImporter = (content: string, fileName?: string): ChatImporter => {
+  const sample = content.slice(0, SNIFF_SAMPLE_SIZE);
+
+  const sniffed = importers.find(importer => importer.sniff(sample));
+  if (sniffed) return sniffed;
+
+  if (fileName) {
+    const lowerName = fileName.toLowerCase();
+    const byExtension = importers.find(importer =>
+      importer.extensions.some(extension => lowerName.endsWith(extension))
+    );
+    if (byExtension) return byExtension;
+  }
+
+  return wechatTextImporter;
+};
+
+/**
+ * 获取文件选择框可接受的扩展名列表
+ */
+export const getAcceptedExtensions = (): string => {
+  return Array.from(new Set(importers.flatMap(importer => importer.extensions))).join(',');
+};
+
+/**
+ * 创建导入格式的增量解析器
+ * 不支持增量解析的格式（如JSON）先缓存全部内容，结束时再一次性解析
+ */
+export const createStreamParser = (
+  importer: ChatImporter,
+  options: ImportParseOptions = {}
+): ImportStreamParser => {
+  if (importer.createStreamParser) {
+    return importer.createStreamParser(options);
+  }
+
+  const chunks: string[] = [];
+  return {
+    write: chunk => {
+      chunks.push(chunk);
+    },
+    takeMessages: () => [],
+    end: () => importer.parse(chunks.join(''), options),
+  };
+};
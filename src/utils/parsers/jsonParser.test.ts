@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonExport } from './jsonParser';
+import { getStableSenderId } from './common';
+
+describe('parseJsonExport', () => {
+  it('reads messages from a top-level array or a messages field', () => {
+    const record = { sender: '张三', timestamp: '2024-01-15 09:30', content: '早上好' };
+    const fromArray = parseJsonExport(JSON.stringify([record])).messages;
+    const fromObject = parseJsonExport(JSON.stringify({ messages: [record] })).messages;
+
+    expect(fromArray).toEqual(fromObject);
+    expect(fromArray[0]).toMatchObject({
+      sender: '张三',
+      senderId: getStableSenderId('张三'),
+      content: '早上好',
+      timestamp: new Date(2024, 0, 15, 9, 30),
+      type: 'text',
+    });
+  });
+
+  it('accepts WeChatMsg field names and timestamps in seconds', () => {
+    const { messages } = parseJsonExport(JSON.stringify([
+      { NickName: '张三', Sender: 'wxid_a', CreateTime: 1705282200, StrContent: '[语音]', Type: 34 },
+    ]));
+
+    expect(messages[0]).toMatchObject({ senderId: 'wxid_a', type: 'voice', timestamp: new Date(1705282200 * 1000) });
+  });
+
+  it('reports invalid records by their position in the array', () => {
+    const { messages, errors } = parseJsonExport(JSON.stringify([
+      'text',
+      { sender: '张三', timestamp: 'not a date', content: 'hi' },
+      { timestamp: '2024-01-15 09:30', content: 'hi' },
+    ]));
+
+    expect(messages).toEqual([]);
+    expect(errors.map(({ line, reason }) => ({ line, reason }))).toEqual([
+      { line: 1, reason: '消息不是对象' },
+      { line: 2, reason: '无法识别的时间' },
+      { line: 3, reason: '缺少发送者' },
+    ]);
+  });
+
+  it('reports malformed JSON and missing message arrays', () => {
+    expect(parseJsonExport('{"messages": [').errors[0].reason).toMatch(/^JSON格式错误/);
+    expect(parseJsonExport('{"foo": 1}').errors[0].reason).toBe('找不到消息数组');
+  });
+});
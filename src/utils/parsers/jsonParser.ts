@@ -0,0 +1,105 @@
+import type { ChatImporter, ChatMessage, ImportParseError, ImportParseOptions, ImportParseResult } from '../../types';
+import { createMessageIdFactory } from '../messageIdentity';
+import { getStableSenderId, normalizeMessageType, parseTimestampValue, pickField } from './common';
+
+const FIELD_ALIASES = {
+  sender: ['sender', 'NickName', 'nickname', 'Remark', 'name', 'senderName'],
+  senderId: ['senderId', 'Sender', 'wxid', 'talkerId'],
+  timestamp: ['timestamp', 'StrTime', 'CreateTime', 'createTime', 'time', 'date'],
+  content: ['content', 'StrContent', 'message', 'text'],
+  type: ['type', 'Type', 'msgType'],
+};
+
+/**
+ * 从JSON数据中取出消息数组，支持顶层数组或带messages/data字段的对象
+ */
+const extractRecords = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const container = data as Record<string, unknown>;
+    for (const key of ['messages', 'data', 'records']) {
+      if (Array.isArray(container[key])) return container[key] as unknown[];
+    }
+  }
+  return null;
+};
+
+/**
+ * 解析JSON格式的聊天记录
+ * JSON没有行的概念，错误报告中的line为消息在数组中的序号（从1开始）。
+ */
+export const parseJsonExport = (
+  content: string,
+  options: ImportParseOptions = {}
+): ImportParseResult => {
+  const { groupId = 'imported_group' } = options;
+  const messages: ChatMessage[] = [];
+  const errors: ImportParseError[] = [];
+  const nextMessageId = createMessageIdFactory(groupId);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    errors.push({
+      line: 1,
+      text: content.slice(0, 100),
+      reason: `JSON格式错误: ${error instanceof Error ? error.message : '未知错误'}`,
+    });
+    return { messages, errors };
+  }
+
+  const records = extractRecords(data);
+  if (!records) {
+    errors.push({ line: 1, text: content.slice(0, 100), reason: '找不到消息数组' });
+    return { messages, errors };
+  }
+
+  records.forEach((item, index) => {
+    const line = index + 1;
+    if (!item || typeof item !== 'object') {
+      errors.push({ line, text: JSON.stringify(item), reason: '消息不是对象' });
+      return;
+    }
+
+    const record = item as Record<string, unknown>;
+    const sender = String(pickField(record, FIELD_ALIASES.sender) ?? '').trim();
+    const body = String(pickField(record, FIELD_ALIASES.content) ?? '');
+    const timestamp = parseTimestampValue(pickField(record, FIELD_ALIASES.timestamp));
+    const type = normalizeMessageType(pickField(record, FIELD_ALIASES.type), body);
+
+    if (!timestamp) {
+      errors.push({ line, text: JSON.stringify(item), reason: '无法识别的时间' });
+      return;
+    }
+    if (!sender && type !== 'system') {
+      errors.push({ line, text: JSON.stringify(item), reason: '缺少发送者' });
+      return;
+    }
+
+    const rawSenderId = pickField(record, FIELD_ALIASES.senderId);
+    const senderId = type === 'system'
+      ? 'system'
+      : rawSenderId ? String(rawSenderId) : getStableSenderId(sender);
+    messages.push({
+      id: nextMessageId(senderId, timestamp, body),
+      sender: sender || '系统消息',
+      senderId,
+      content: body,
+      timestamp,
+      type,
+      groupId,
+    });
+  });
+
+  return { messages, errors };
+};
+
+export const jsonImporter: ChatImporter = {
+  id: 'json',
+  name: 'JSON数据',
+  extensions: ['.json'],
+  // 以[开头的也可能是“[10:30] 张三: ...”格式的文本，因此要求数组的第一个元素是对象
+  sniff: sample => /^\s*(\{|\[\s*[{\]])/.test(sample.replace(/^\uFEFF/, '')),
+  parse: parseJsonExport,
+};
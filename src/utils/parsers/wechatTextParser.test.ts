@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { createWeChatTextStreamParser, isWeChatTextExport, parseWeChatTextExport } from './wechatTextParser';
+import { getStableSenderId } from './common';
+
+const referenceDate = new Date(2024, 0, 15);
+
+describe('parseWeChatTextExport', () => {
+  it('parses PC and Mac message headers with multi-line bodies', () => {
+    const { messages, errors } = parseWeChatTextExport([
+      '张三 2024-01-15 09:30:12',
+      '早上好',
+      '今天开会',
+      '',
+      '2024-01-15 09:31:00 李四:',
+      '[图片]',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(messages.map(({ sender, content, type }) => ({ sender, content, type }))).toEqual([
+      { sender: '张三', content: '早上好\n今天开会', type: 'text' },
+      { sender: '李四', content: '[图片]', type: 'image' },
+    ]);
+    expect(messages[0].timestamp).toEqual(new Date(2024, 0, 15, 9, 30, 12));
+    expect(messages[0].senderId).toBe(getStableSenderId('张三'));
+  });
+
+  it('keeps body lines that end in a date and time inside the message', () => {
+    const { messages, errors } = parseWeChatTextExport([
+      '张三 2024-01-15 09:30:12',
+      '下次见面时间：',
+      '李四 2024-01-16 10:00',
+      '地点待定',
+      '',
+      '李四 2024-01-15 09:31:00',
+      '好',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(messages.map(message => [message.sender, message.content])).toEqual([
+      ['张三', '下次见面时间：\n李四 2024-01-16 10:00\n地点待定'],
+      ['李四', '好'],
+    ]);
+  });
+
+  it('starts a new message at a header that follows an empty header', () => {
+    const { messages, errors } = parseWeChatTextExport('张三 2024-01-15 09:30:00\n李四 2024-01-15 09:31:00\n收到');
+
+    expect(messages.map(message => message.sender)).toEqual(['李四']);
+    expect(errors.map(error => error.reason)).toEqual(['消息头之后没有消息内容']);
+  });
+
+  it('skips comment lines between messages', () => {
+    const { messages, errors } = parseWeChatTextExport(
+      '# 群聊：产品讨论群\n\n张三 2024-01-15 09:30:12\n早上好\n\n# 总结：今日讨论\n#\n# #标签 不是消息\n\n李四 2024-01-15 09:31:00\n# 正文中的井号\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(messages.map(message => message.content)).toEqual(['早上好', '# 正文中的井号']);
+  });
+
+  it('resolves time-only headers from date dividers and rolls over midnight', () => {
+    const { messages } = parseWeChatTextExport([
+      '—————  2024-01-15  —————',
+      '张三 23:59',
+      '晚安',
+      '',
+      '李四 00:01',
+      '晚安',
+    ].join('\n'), { referenceDate });
+
+    expect(messages.map(message => message.timestamp)).toEqual([
+      new Date(2024, 0, 15, 23, 59),
+      new Date(2024, 0, 16, 0, 1),
+    ]);
+  });
+
+  it('parses single-line messages', () => {
+    const { messages } = parseWeChatTextExport('[2024-01-15 10:00] 张三: 收到\n[10:05] 李四：好的', { referenceDate });
+
+    expect(messages.map(message => [message.sender, message.content])).toEqual([['张三', '收到'], ['李四', '好的']]);
+    expect(messages[1].timestamp).toEqual(new Date(2024, 0, 15, 10, 5));
+  });
+
+  it('records system messages at the time of the previous message', () => {
+    const { messages } = parseWeChatTextExport('张三 2024-01-15 09:30:00\n你好\n\n李四撤回了一条消息');
+
+    expect(messages[1]).toMatchObject({ type: 'system', senderId: 'system', timestamp: new Date(2024, 0, 15, 9, 30) });
+  });
+
+  it('reports headers without bodies and invalid dates with line numbers', () => {
+    const { messages, errors } = parseWeChatTextExport([
+      '张三 2024-01-15 09:30:00',
+      '',
+      '李四 2024-02-30 09:31:00',
+      '内容',
+    ].join('\n'));
+
+    expect(messages).toEqual([]);
+    expect(errors.map(({ line, reason }) => ({ line, reason }))).toEqual([
+      { line: 1, reason: '消息头之后没有消息内容' },
+      { line: 3, reason: '无法识别的日期或时间' },
+      { line: 4, reason: '不属于任何消息' },
+    ]);
+  });
+
+  it('gives repeated identical messages distinct ids that stay stable across imports', () => {
+    const content = '[2024-01-15 10:00] 张三: 好的\n[2024-01-15 10:00] 张三: 好的';
+    const first = parseWeChatTextExport(content, { groupId: 'g' }).messages.map(message => message.id);
+    const second = parseWeChatTextExport(content, { groupId: 'g' }).messages.map(message => message.id);
+
+    expect(new Set(first).size).toBe(2);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('createWeChatTextStreamParser', () => {
+  it('produces the same messages regardless of how the text is split', () => {
+    const content = '\uFEFF张三 2024-01-15 09:30:12\r\n早上好\r\n\r\n李四 2024-01-15 09:31:00\r\n收到\r\n';
+    const parser = createWeChatTextStreamParser();
+    for (let i = 0; i < content.length; i += 7) {
+      parser.write(content.slice(i, i + 7));
+    }
+    const streamed = [...parser.takeMessages(), ...parser.end().messages];
+
+    expect(streamed).toEqual(parseWeChatTextExport(content).messages);
+    expect(streamed.map(message => message.content)).toEqual(['早上好', '收到']);
+  });
+});
+
+describe('isWeChatTextExport', () => {
+  it('recognizes exported message headers', () => {
+    expect(isWeChatTextExport('张三 2024-01-15 09:30:12\n早上好')).toBe(true);
+    expect(isWeChatTextExport('just some notes')).toBe(false);
+  });
+});
@@ -0,0 +1,315 @@
+import type {
+  ChatImporter,
+  ChatMessage,
+  ImportParseError,
+  ImportParseOptions,
+  ImportParseResult,
+  ImportStreamParser,
+} from '../../types';
+import { createMessageIdFactory } from '../messageIdentity';
+import { detectMessageType, getStableSenderId } from './common';
+
+const DATE_PATTERN = '(\\d{4})[-/.年](\\d{1,2})[-/.月](\\d{1,2})日?';
+const TIME_PATTERN = '(\\d{1,2}):(\\d{2})(?::(\\d{2}))?';
+
+// PC版导出：张三 2024-01-15 09:30:12
+const PC_HEADER_REGEX = new RegExp(`^(.+?)\\s+${DATE_PATTERN}\\s+${TIME_PATTERN}\\s*$`);
+// Mac版导出：2024-01-15 09:30:12 张三
+const MAC_HEADER_REGEX = new RegExp(`^${DATE_PATTERN}\\s+${TIME_PATTERN}\\s+(.+?)[:：]?\\s*$`);
+// 只有时间的消息头：张三 09:30，日期取自前面的日期分隔行
+const TIME_ONLY_HEADER_REGEX = new RegExp(`^(.+?)\\s+${TIME_PATTERN}\\s*$`);
+// 日期分隔行：—————  2024-01-15  —————
+const DATE_DIVIDER_REGEX = new RegExp(`^[\\s\\-—=_]*${DATE_PATTERN}[\\s\\-—=_]*$`);
+// 单行格式：[09:30] 张三: 消息内容 或 [2024-01-15 09:30] 张三: 消息内容
+const INLINE_REGEX = new RegExp(`^\\[(?:${DATE_PATTERN}\\s+)?${TIME_PATTERN}\\]\\s*(.+?)[:：]\\s*(.*)$`);
+
+const SYSTEM_MESSAGE_REGEX = /(撤回了一条消息|加入了群聊|移出了群聊|退出了群聊|修改群名为|拍了拍|成为新群主|以上是打招呼的内容)/;
+
+interface PendingMessage {
+  line: number;
+  header: string;
+  sender: string;
+  timestamp: Date;
+  body: string[];
+}
+
+/**
+ * 构建日期对象，日期不合法时返回null
+ */
+const buildDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date | null => {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (
+    isNaN(date.getTime()) ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    hours > 23 ||
+    minutes > 59 ||
+    seconds > 59
+  ) {
+    return null;
+  }
+  return date;
+};
+
+const toNumbers = (values: (string | undefined)[]): number[] => {
+  return values.map(value => (value ? parseInt(value, 10) : 0));
+};
+
+/**
+ * 判断文本是否为微信电脑版（PC/Mac）导出的聊天记录
+ */
+export const isWeChatTextExport = (content: string): boolean => {
+  const lines = content.split(/\r?\n/).slice(0, 50);
+  return lines.some(line => PC_HEADER_REGEX.test(line.trim()) || MAC_HEADER_REGEX.test(line.trim()));
+};
+
+/**
+ * 创建微信电脑版导出文本的增量解析器，内容可以按任意位置分块写入
+ *
+ * 支持的消息头格式：
+ * - PC版：`张三 2024-01-15 09:30:12`，消息正文在下一行起，可跨多行
+ * - Mac版：`2024-01-15 09:30:12 张三`
+ * - 日期分隔行加只有时间的消息头：`—— 2024-01-15 ——` 之后的 `张三 09:30`
+ * - 单行格式：`[09:30] 张三: 消息内容`
+ *
+ * 空行之后以 `#` 开头的行是注释（如本应用TXT导出中的群聊标题和总结），直接跳过。
+ * 只有时间的消息在时间倒退时视为跨过午夜，日期自动加一天。
+ */
+export const createWeChatTextStreamParser = (options: ImportParseOptions = {}): ImportStreamParser => {
+  const { groupId = 'imported_group', referenceDate = new Date() } = options;
+  let messages: ChatMessage[] = [];
+  const errors: ImportParseError[] = [];
+  const nextMessageId = createMessageIdFactory(groupId);
+  let lineCount = 0;
+  let remainder = '';
+  let isFirstChunk = true;
+
+  let pending: PendingMessage | null = null;
+  let currentDay = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+  let lastTimestamp: Date | null = null;
+  let previousLineBlank = true;
+
+  const pushMessage = (
+    sender: string,
+    timestamp: Date,
+    body: string,
+    type: ChatMessage['type'] = detectMessageType(body)
+  ) => {
+    const trimmedSender = sender.trim();
+    const senderId = type === 'system' ? 'system' : getStableSenderId(trimmedSender);
+    messages.push({
+      id: nextMessageId(senderId, timestamp, body),
+      sender: trimmedSender,
+      senderId,
+      content: body,
+      timestamp,
+      type,
+      groupId,
+    });
+  };
+
+  const flushPending = () => {
+    if (!pending) return;
+
+    // 去除正文末尾的空行
+    while (pending.body.length > 0 && pending.body[pending.body.length - 1].trim() === '') {
+      pending.body.pop();
+    }
+
+    if (pending.body.length === 0) {
+      errors.push({
+        line: pending.line,
+        text: pending.header,
+        reason: '消息头之后没有消息内容',
+      });
+    } else {
+      pushMessage(pending.sender, pending.timestamp, pending.body.join('\n'));
+    }
+    pending = null;
+  };
+
+  // 只有时间时根据当前日期推算完整时间，时间倒退则视为跨过午夜
+  const resolveTime = (hours: number, minutes: number, seconds: number): Date | null => {
+    let timestamp = buildDate(
+      currentDay.getFullYear(),
+      currentDay.getMonth() + 1,
+      currentDay.getDate(),
+      hours,
+      minutes,
+      seconds
+    );
+    if (timestamp && lastTimestamp && timestamp < lastTimestamp) {
+      currentDay = new Date(currentDay.getFullYear(), currentDay.getMonth(), currentDay.getDate() + 1);
+      timestamp = buildDate(
+        currentDay.getFullYear(),
+        currentDay.getMonth() + 1,
+        currentDay.getDate(),
+        hours,
+        minutes,
+        seconds
+      );
+    }
+    return timestamp;
+  };
+
+  const startMessage = (lineNumber: number, rawLine: string, sender: string, timestamp: Date | null) => {
+    flushPending();
+    if (!timestamp) {
+      errors.push({ line: lineNumber, text: rawLine, reason: '无法识别的日期或时间' });
+      return;
+    }
+    currentDay = new Date(timestamp.getFullYear(), timestamp.getMonth(), timestamp.getDate());
+    lastTimestamp = timestamp;
+    pending = { line: lineNumber, header: rawLine, sender, timestamp, body: [] };
+  };
+
+  const consumeLine = (rawLine: string) => {
+    const lineNumber = ++lineCount;
+    const line = rawLine.trim();
+    const isBlank = line.length === 0;
+
+    if (isBlank) {
+      // 正文开头的空行忽略，正文中间的空行保留
+      if (pending && pending.body.length > 0) pending.body.push('');
+      previousLineBlank = true;
+      return;
+    }
+
+    // 消息头只出现在空行之后或消息头紧接着的位置，正文中以日期时间结尾的行（如“李四 2024-01-16 10:00”）仍属于正文
+    const canStartMessage = previousLineBlank || !pending || pending.body.length === 0;
+    // 注释行同样只出现在空行之后，但消息头之后的第一行总是正文，即使以#开头
+    const isComment = line.startsWith('#') && (!pending || (previousLineBlank && pending.body.length > 0));
+    previousLineBlank = false;
+
+    if (isComment) {
+      flushPending();
+      previousLineBlank = true;
+      return;
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(DATE_DIVIDER_REGEX))) {
+      flushPending();
+      const [year, month, day] = toNumbers(match.slice(1, 4));
+      const date = buildDate(year, month, day);
+      if (date) {
+        currentDay = date;
+        lastTimestamp = null;
+      } else {
+        errors.push({ line: lineNumber, text: rawLine, reason: '无法识别的日期' });
+      }
+      previousLineBlank = true;
+      return;
+    }
+
+    if ((match = line.match(INLINE_REGEX))) {
+      flushPending();
+      const [year, month, day, hours, minutes, seconds] = toNumbers(match.slice(1, 7));
+      const timestamp = match[1]
+        ? buildDate(year, month, day, hours, minutes, seconds)
+        : resolveTime(hours, minutes, seconds);
+      if (!timestamp) {
+        errors.push({ line: lineNumber, text: rawLine, reason: '无法识别的日期或时间' });
+        return;
+      }
+      currentDay = new Date(timestamp.getFullYear(), timestamp.getMonth(), timestamp.getDate());
+      lastTimestamp = timestamp;
+      pushMessage(match[7], timestamp, match[8]);
+      previousLineBlank = true;
+      return;
+    }
+
+    if (canStartMessage && (match = line.match(PC_HEADER_REGEX))) {
+      const [year, month, day, hours, minutes, seconds] = toNumbers(match.slice(2, 8));
+      startMessage(lineNumber, rawLine, match[1], buildDate(year, month, day, hours, minutes, seconds));
+      return;
+    }
+
+    if (canStartMessage && (match = line.match(MAC_HEADER_REGEX))) {
+      const [year, month, day, hours, minutes, seconds] = toNumbers(match.slice(1, 7));
+      startMessage(lineNumber, rawLine, match[7], buildDate(year, month, day, hours, minutes, seconds));
+      return;
+    }
+
+    if (canStartMessage && (match = line.match(TIME_ONLY_HEADER_REGEX))) {
+      const [hours, minutes, seconds] = toNumbers(match.slice(2, 5));
+      startMessage(lineNumber, rawLine, match[1], resolveTime(hours, minutes, seconds));
+      return;
+    }
+
+    // 独立成段的系统消息（撤回、入群等）没有消息头
+    if (canStartMessage && SYSTEM_MESSAGE_REGEX.test(line)) {
+      flushPending();
+      if (lastTimestamp) {
+        pushMessage('系统消息', lastTimestamp, line, 'system');
+      } else {
+        errors.push({ line: lineNumber, text: rawLine, reason: '系统消息之前没有可参考的时间' });
+      }
+      previousLineBlank = true;
+      return;
+    }
+
+    if (pending) {
+      pending.body.push(rawLine.replace(/\s+$/, ''));
+      return;
+    }
+
+    errors.push({ line: lineNumber, text: rawLine, reason: '不属于任何消息' });
+  };
+
+  return {
+    write: (chunk: string) => {
+      let text = remainder + chunk;
+      if (isFirstChunk) {
+        text = text.replace(/^\uFEFF/, '');
+        isFirstChunk = false;
+      }
+      // 最后一段可能是不完整的行，留到下一块再处理
+      const lines = text.split('\n');
+      remainder = lines.pop() ?? '';
+      lines.forEach(line => consumeLine(line.replace(/\r$/, '')));
+    },
+    takeMessages: () => {
+      const taken = messages;
+      messages = [];
+      return taken;
+    },
+    end: () => {
+      if (remainder) {
+        consumeLine(remainder.replace(/\r$/, ''));
+        remainder = '';
+      }
+      flushPending();
+      return { messages, errors };
+    },
+  };
+};
+
+/**
+ * 解析微信电脑版导出的文本聊天记录，消息头格式见createWeChatTextStreamParser
+ */
+export const parseWeChatTextExport = (
+  content: string,
+  options: ImportParseOptions = {}
+): ImportParseResult => {
+  const parser = createWeChatTextStreamParser(options);
+  parser.write(content);
+  return parser.end();
+};
+
+export const wechatTextImporter: ChatImporter = {
+  id: 'wechat-text',
+  name: '微信电脑版文本',
+  extensions: ['.txt'],
+  sniff: isWeChatTextExport,
+  parse: parseWeChatTextExport,
+  createStreamParser: createWeChatTextStreamParser,
+};
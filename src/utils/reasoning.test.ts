@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { splitReasoning } from './reasoning';
+
+describe('splitReasoning', () => {
+  it('separates the reasoning in the leading think tag from the answer', () => {
+    expect(splitReasoning('\n<think>\n先列出话题\n</think>\n\n- 周会改到周三')).toEqual({
+      content: '- 周会改到周三',
+      reasoning: '先列出话题',
+    });
+  });
+
+  it('keeps an answer without a think tag unchanged', () => {
+    expect(splitReasoning('  - 周会改到周三 <think>不是思考</think>')).toEqual({
+      content: '  - 周会改到周三 <think>不是思考</think>',
+    });
+  });
+
+  it('treats an unclosed tag as reasoning that is still streaming', () => {
+    expect(splitReasoning('<think>先列出')).toEqual({ content: '', reasoning: '先列出' });
+  });
+
+  it('hides a partially received opening tag', () => {
+    expect(splitReasoning('<thi')).toEqual({ content: '' });
+    expect(splitReasoning('<table>')).toEqual({ content: '<table>' });
+  });
+
+  it('omits empty reasoning', () => {
+    expect(splitReasoning('<think>\n\n</think>回答')).toEqual({ content: '回答', reasoning: undefined });
+  });
+});
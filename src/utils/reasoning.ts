@@ -0,0 +1,23 @@
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+/**
+ * 把回答开头<think>标签中的思考过程与回答分开
+ * 本地运行的推理模型（如Ollama中的deepseek-r1）把思考过程放在回答内容里；标签未闭合时全部视为思考过程
+ */
+export const splitReasoning = (text: string): { content: string; reasoning?: string } => {
+  const trimmed = text.trimStart();
+
+  if (!trimmed.startsWith(THINK_OPEN)) {
+    // 流式输出时开头可能只收到了标签的一部分
+    const isPartialTag = trimmed !== '' && THINK_OPEN.startsWith(trimmed);
+    return { content: isPartialTag ? '' : text };
+  }
+
+  const closeIndex = trimmed.indexOf(THINK_CLOSE);
+  const reasoning = trimmed.slice(THINK_OPEN.length, closeIndex === -1 ? undefined : closeIndex).trim();
+  return {
+    content: closeIndex === -1 ? '' : trimmed.slice(closeIndex + THINK_CLOSE.length).trimStart(),
+    reasoning: reasoning || undefined,
+  };
+};
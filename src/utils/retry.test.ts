@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getBackoffDelay, sleep, withRetry } from './retry';
+
+class RetryableError extends Error {}
+
+const failTimes = (count: number, error: Error = new RetryableError('failed')) => {
+  let calls = 0;
+  return vi.fn(async () => {
+    calls++;
+    if (calls <= count) throw error;
+    return calls;
+  });
+};
+
+const fastRetry = {
+  baseDelayMs: 1,
+  maxDelayMs: 1,
+  shouldRetry: (error: unknown) => error instanceof RetryableError,
+};
+
+describe('getBackoffDelay', () => {
+  it('doubles the cap on each attempt and stays between half and the full cap', () => {
+    expect(getBackoffDelay(0, 1000, 20000, () => 0)).toBe(500);
+    expect(getBackoffDelay(0, 1000, 20000, () => 1)).toBe(1000);
+    expect(getBackoffDelay(3, 1000, 20000, () => 1)).toBe(8000);
+  });
+
+  it('never exceeds the maximum delay', () => {
+    expect(getBackoffDelay(10, 1000, 20000, () => 1)).toBe(20000);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const promise = sleep(10000, controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    await expect(sleep(10000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors until the operation succeeds', async () => {
+    const operation = failTimes(2);
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { ...fastRetry, onRetry })).resolves.toBe(3);
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const operation = failTimes(10);
+
+    await expect(withRetry(operation, { ...fastRetry, maxRetries: 2 })).rejects.toBeInstanceOf(RetryableError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows the error instead of retrying when the signal is already aborted', async () => {
+    const operation = failTimes(10);
+
+    await expect(withRetry(operation, { ...fastRetry, signal: AbortSignal.abort() })).rejects.toBeInstanceOf(RetryableError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry errors rejected by shouldRetry', async () => {
+    const operation = failTimes(1, new Error('fatal'));
+
+    await expect(withRetry(operation, fastRetry)).rejects.toThrow('fatal');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least as long as the server asks', async () => {
+    const onRetry = vi.fn();
+
+    await withRetry(failTimes(1), { ...fastRetry, getRetryAfter: () => 30, onRetry });
+    expect(onRetry).toHaveBeenCalledWith(expect.any(RetryableError), 1, 30);
+  });
+
+  it('does not retry when the server asks to wait longer than maxRetryAfterMs', async () => {
+    const operation = failTimes(1);
+
+    await expect(withRetry(operation, { ...fastRetry, getRetryAfter: () => 120000 })).rejects.toBeInstanceOf(RetryableError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying when the signal is aborted while waiting', async () => {
+    const controller = new AbortController();
+    const operation = failTimes(10);
+    const promise = withRetry(operation, {
+      ...fastRetry,
+      baseDelayMs: 10000,
+      maxDelayMs: 10000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
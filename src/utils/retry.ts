@@ -0,0 +1,85 @@
+export interface RetryOptions {
+  // 首次失败后最多重试的次数
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // 服务端要求等待的时间超过这个值时不再重试
+  maxRetryAfterMs?: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown) => boolean;
+  // 服务端要求的等待时间，如Retry-After
+  getRetryAfter?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * 指数退避的等待时间，在上限的一半到上限之间随机取值，避免多个请求同时重试
+ * @param attempt 已重试的次数，从0开始
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number => {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(cap / 2 + random() * cap / 2);
+};
+
+/**
+ * 等待指定时间，signal中止时抛出AbortError
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('已中止', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('已中止', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * 执行操作，失败且shouldRetry返回true时按指数退避重试
+ * 服务端要求的等待时间长于退避时间时以服务端为准，超过maxRetryAfterMs则直接抛出错误
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const {
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 20000,
+    maxRetryAfterMs = 60000,
+    signal,
+    shouldRetry,
+    getRetryAfter = () => undefined,
+    onRetry,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const retryAfter = getRetryAfter(error);
+      if (
+        attempt >= maxRetries
+        || signal?.aborted
+        || !shouldRetry(error)
+        || (retryAfter !== undefined && retryAfter > maxRetryAfterMs)
+      ) {
+        throw error;
+      }
+
+      const delay = Math.max(getBackoffDelay(attempt, baseDelayMs, maxDelayMs), retryAfter ?? 0);
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
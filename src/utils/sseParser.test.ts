@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createSseParser } from './sseParser';
+
+const parse = (chunks: string[], end = true): string[] => {
+  const events: string[] = [];
+  const parser = createSseParser(data => events.push(data));
+  chunks.forEach(chunk => parser.write(chunk));
+  if (end) parser.end();
+  return events;
+};
+
+describe('createSseParser', () => {
+  it('dispatches the data of each event', () => {
+    expect(parse(['data: {"a":1}\n\ndata: [DONE]\n\n'])).toEqual(['{"a":1}', '[DONE]']);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    expect(parse(['data: first\ndata: second\n\n'])).toEqual(['first\nsecond']);
+  });
+
+  it('ignores comments and fields other than data', () => {
+    expect(parse([': keep-alive\n\nevent: message\nid: 1\ndata: x\n\n'])).toEqual(['x']);
+  });
+
+  it('reassembles events split across chunks', () => {
+    expect(parse(['da', 'ta: hel', 'lo\n', '\ndata: world\n\n'])).toEqual(['hello', 'world']);
+  });
+
+  it('treats \\r\\n split between chunks as one line break', () => {
+    expect(parse(['data: a\r', '\n\r\n'])).toEqual(['a']);
+  });
+
+  it('keeps only the first space after the colon', () => {
+    expect(parse(['data:  padded\ndata:tight\n\n'])).toEqual([' padded\ntight']);
+  });
+
+  it('waits for the blank line before dispatching', () => {
+    expect(parse(['data: partial\n'], false)).toEqual([]);
+  });
+
+  it('dispatches an unterminated event when the stream ends', () => {
+    expect(parse(['data: last'])).toEqual(['last']);
+  });
+});
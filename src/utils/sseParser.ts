@@ -0,0 +1,46 @@
+/**
+ * 创建服务器推送事件（SSE）解析器
+ * 文本可以分多次写入，每解析出一个完整事件就回调一次其data字段，多行data以换行连接
+ */
+export const createSseParser = (onData: (data: string) => void) => {
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) onData(dataLines.join('\n'));
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    // 空行表示一个事件结束
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // 以冒号开头的是注释（如保活心跳），忽略
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    const value = colonIndex === -1 ? '' : line.slice(colonIndex + 1).replace(/^ /, '');
+    if (field === 'data') dataLines.push(value);
+  };
+
+  return {
+    write(chunk: string): void {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop() ?? '';
+      // 以\r结尾时\n可能在下一块中，留到下一次处理
+      if (buffer === '' && chunk.endsWith('\r')) {
+        buffer = lines.pop() + '\r';
+      }
+      lines.forEach(processLine);
+    },
+    end(): void {
+      if (buffer) processLine(buffer.replace(/\r$/, ''));
+      buffer = '';
+      dispatch();
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { StructuredSummary } from '../types';
+import {
+  parsePartialSummary,
+  parseStructuredSummary,
+  renderSummaryMarkdown,
+  splitRenderedSummary,
+  validateStructuredSummary,
+} from './structuredSummary';
+
+const summary: StructuredSummary = {
+  topics: ['发布计划', '测试安排'],
+  decisions: ['周五发布'],
+  actionItems: [{ task: '准备发布说明', owner: '张三', due: '周四' }, { task: '回归测试' }],
+  notableInfo: [],
+  openQuestions: ['是否需要灰度'],
+};
+
+describe('validateStructuredSummary', () => {
+  it('records the cited message numbers of each item', () => {
+    const { summary: result, errors } = validateStructuredSummary({
+      topics: [{ text: '发布计划', sources: [1, 3] }, '测试安排'],
+      actionItems: [{ task: '准备发布说明', sources: [2] }, '回归测试'],
+    });
+
+    expect(errors).toEqual([]);
+    expect(result?.sources).toEqual({
+      topics: [['1', '3'], []],
+      decisions: [],
+      actionItems: [['2'], []],
+      notableInfo: [],
+      openQuestions: [],
+    });
+  });
+
+  it('accepts bracketed numbers and drops references that are not numbers', () => {
+    const { summary: result } = validateStructuredSummary({
+      topics: [{ text: '发布计划', sources: ['[4]', ' 5 ', 'abc', null] }],
+    });
+
+    expect(result?.sources?.topics).toEqual([['4', '5']]);
+  });
+
+  it('reports items without text', () => {
+    const { summary: result, errors } = validateStructuredSummary({ topics: [{ sources: [1] }] });
+
+    expect(result).toBeNull();
+    expect(errors).toEqual(['topics[0]必须是字符串或包含字符串text的对象']);
+  });
+
+  it('rejects a summary without any content', () => {
+    expect(validateStructuredSummary({ topics: [] }).errors).toEqual(['总结内容为空']);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateStructuredSummary([]).errors).toEqual(['输出不是JSON对象']);
+  });
+});
+
+describe('parseStructuredSummary', () => {
+  it('extracts the JSON object from surrounding text', () => {
+    const { summary: result } = parseStructuredSummary('总结如下：\n```json\n{"topics":["发布计划"]}\n```');
+    expect(result?.topics).toEqual(['发布计划']);
+  });
+
+  it('removes trailing commas without touching string values', () => {
+    const { summary: result } = parseStructuredSummary('```json\n{"topics":["写法是 \\"a\\",} 还是 [1,]", "发布计划",],}\n```');
+    expect(result?.topics).toEqual(['写法是 "a",} 还是 [1,]', '发布计划']);
+  });
+
+  it('reports JSON that cannot be repaired', () => {
+    const { summary: result, errors } = parseStructuredSummary('not json');
+    expect(result).toBeNull();
+    expect(errors[0]).toMatch(/^JSON格式错误/);
+  });
+});
+
+describe('parsePartialSummary', () => {
+  it('parses an unfinished stream of JSON', () => {
+    expect(parsePartialSummary('{"topics": ["发布计划", "测试')?.topics).toEqual(['发布计划', '测试']);
+  });
+
+  it('keeps commas inside unfinished string values', () => {
+    expect(parsePartialSummary('{"topics": ["a,}", "b,]')?.topics).toEqual(['a,}', 'b,]']);
+  });
+
+  it('returns null before the JSON starts', () => {
+    expect(parsePartialSummary('好的，')).toBeNull();
+  });
+});
+
+describe('splitRenderedSummary', () => {
+  it('splits rendered markdown back into sections with items in the same order', () => {
+    const parts = splitRenderedSummary(renderSummaryMarkdown(summary));
+
+    expect(parts?.map(part => part.section)).toEqual(['topics', 'decisions', 'actionItems', 'openQuestions']);
+    expect(parts?.[0].items).toEqual(summary.topics);
+    expect(parts?.[2].items).toEqual(['准备发布说明（负责人：张三，截止：周四）', '回归测试']);
+  });
+
+  it('recognizes English section titles', () => {
+    const parts = splitRenderedSummary(renderSummaryMarkdown(summary, 'en', ['decisions']));
+    expect(parts).toEqual([{ section: 'decisions', title: 'Important Decisions and Conclusions', items: ['周五发布'] }]);
+  });
+
+  it('returns null when a title is not a summary section', () => {
+    expect(splitRenderedSummary('## 其他\n- 内容')).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+import type { StructuredSummary, SummaryActionItem, SummarySection } from '../types';
+
+type StringSection = 'topics' | 'decisions' | 'notableInfo' | 'openQuestions';
+
+const DEFAULT_SECTIONS: SummarySection[] = ['topics', 'decisions', 'actionItems', 'notableInfo', 'openQuestions'];
+
+// Markdown中各部分的标题
+export const SECTION_TITLES: Record<'zh' | 'en', Record<SummarySection, string>> = {
+  zh: {
+    topics: '主要讨论内容',
+    decisions: '重要决策和结论',
+    actionItems: '待办事项和后续行动',
+    notableInfo: '值得注意的信息',
+    openQuestions: '待解决的问题',
+  },
+  en: {
+    topics: 'Main Discussion Topics',
+    decisions: 'Important Decisions and Conclusions',
+    actionItems: 'Action Items and Follow-ups',
+    notableInfo: 'Notable Information',
+    openQuestions: 'Open Questions',
+  },
+};
+
+/**
+ * 删除对象和数组末尾多余的逗号，字符串中的内容保持不变
+ */
+const removeTrailingCommas = (json: string): string => {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      let next = i + 1;
+      while (next < json.length && /\s/.test(json[next])) next++;
+      if (json[next] === '}' || json[next] === ']') continue;
+    }
+    result += char;
+  }
+  return result;
+};
+
+/**
+ * 从模型输出中取出JSON对象的文本
+ * 去掉代码块标记和对象前后的说明文字，并删除对象和数组末尾多余的逗号
+ */
+export const extractJsonText = (text: string): string => {
+  const start = text.indexOf('{');
+  if (start === -1) return text.trim();
+  const end = text.lastIndexOf('}');
+  const json = end > start ? text.slice(start, end + 1) : text.slice(start);
+  return removeTrailingCommas(json);
+};
+
+/**
+ * 补全被截断的JSON文本：闭合未结束的字符串、数组和对象，text应以{开头
+ * 用于流式生成过程中预览尚未生成完的总结
+ */
+export const closeJsonText = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  let end = text.length;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      // 最外层已经闭合，忽略之后的内容
+      if (stack.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+  }
+
+  let closed = text.slice(0, end);
+  if (inString) closed += escaped ? '\\"' : '"';
+  // 去掉对象末尾还没有值的键，以及末尾多余的逗号
+  if (stack[stack.length - 1] === '}') {
+    closed = closed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '$1');
+  }
+  closed = closed.replace(/,\s*$/, '');
+  return closed + stack.reverse().join('');
+};
+
+/**
+ * 校验结构化总结，返回校验通过的总结或错误列表
+ * 缺少的部分视为空数组；只给出文本的待办事项转换为{ task }
+ * 条目可以是文本，也可以是带sources（依据的消息编号）的对象，编号记录在summary.sources中
+ */
+export const validateStructuredSummary = (
+  value: unknown
+): { summary: StructuredSummary | null; errors: string[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { summary: null, errors: ['输出不是JSON对象'] };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const sources: NonNullable<StructuredSummary['sources']> = {};
+
+  // 只保留数字编号，模型有时会写成"[3]"
+  const readSources = (item: unknown): string[] => {
+    const refs = item && typeof item === 'object' ? (item as Record<string, unknown>).sources : undefined;
+    if (!Array.isArray(refs)) return [];
+    return refs
+      .map(ref => String(ref).replace(/^\[|\]$/g, '').trim())
+      .filter(ref => /^\d+$/.test(ref));
+  };
+
+  const readStrings = (key: StringSection): string[] => {
+    const section = data[key] ?? [];
+    if (!Array.isArray(section)) {
+      errors.push(`${key}必须是数组`);
+      return [];
+    }
+    const items: string[] = [];
+    const itemSources: string[][] = [];
+    section.forEach((item, index) => {
+      const text = typeof item === 'string' ? item : item?.text;
+      if (typeof text !== 'string') {
+        errors.push(`${key}[${index}]必须是字符串或包含字符串text的对象`);
+        return;
+      }
+      if (!text.trim()) return;
+      items.push(text.trim());
+      itemSources.push(readSources(item));
+    });
+    sources[key] = itemSources;
+    return items;
+  };
+
+  const readActionItems = (): SummaryActionItem[] => {
+    const section = data.actionItems ?? [];
+    if (!Array.isArray(section)) {
+      errors.push('actionItems必须是数组');
+      return [];
+    }
+    const actionItems: SummaryActionItem[] = [];
+    const itemSources: string[][] = [];
+    section.forEach((item, index) => {
+      if (typeof item === 'string') {
+        if (item.trim()) {
+          actionItems.push({ task: item.trim() });
+          itemSources.push([]);
+        }
+        return;
+      }
+      if (!item || typeof item !== 'object' || typeof item.task !== 'string') {
+        errors.push(`actionItems[${index}]必须包含字符串task`);
+        return;
+      }
+      const actionItem: SummaryActionItem = { task: item.task.trim() };
+      if (typeof item.owner === 'string' && item.owner.trim()) actionItem.owner = item.owner.trim();
+      if (typeof item.due === 'string' && item.due.trim()) actionItem.due = item.due.trim();
+      if (actionItem.task) {
+        actionItems.push(actionItem);
+        itemSources.push(readSources(item));
+      }
+    });
+    sources.actionItems = itemSources;
+    return actionItems;
+  };
+
+  const summary: StructuredSummary = {
+    topics: readStrings('topics'),
+    decisions: readStrings('decisions'),
+    actionItems: readActionItems(),
+    notableInfo: readStrings('notableInfo'),
+    openQuestions: readStrings('openQuestions'),
+    sources,
+  };
+
+  if (errors.length === 0 && DEFAULT_SECTIONS.every(section => summary[section].length === 0)) {
+    errors.push('总结内容为空');
+  }
+
+  return errors.length > 0 ? { summary: null, errors } : { summary, errors };
+};
+
+/**
+ * 解析模型输出的结构化总结，JSON格式有误时先尝试在本地修复
+ */
+export const parseStructuredSummary = (
+  text: string
+): { summary: StructuredSummary | null; errors: string[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    try {
+      value = JSON.parse(extractJsonText(text));
+    } catch (error) {
+      return { summary: null, errors: [`JSON格式错误：${error instanceof Error ? error.message : String(error)}`] };
+    }
+  }
+  return validateStructuredSummary(value);
+};
+
+/**
+ * 解析流式生成中尚未完成的结构化总结，无法解析时返回null
+ */
+export const parsePartialSummary = (text: string): StructuredSummary | null => {
+  try {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+    const json = removeTrailingCommas(closeJsonText(text.slice(start)));
+    return validateStructuredSummary(JSON.parse(json)).summary;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 将结构化总结按sections的顺序渲染为Markdown，没有内容的部分不输出
+ */
+export const renderSummaryMarkdown = (
+  summary: StructuredSummary,
+  language: 'zh' | 'en' = 'zh',
+  sections: SummarySection[] = DEFAULT_SECTIONS
+): string => {
+  const titles = SECTION_TITLES[language];
+
+  const formatActionItem = ({ task, owner, due }: SummaryActionItem): string => {
+    const details = language === 'zh'
+      ? [owner && `负责人：${owner}`, due && `截止：${due}`].filter(Boolean).join('，')
+      : [owner && `owner: ${owner}`, due && `due: ${due}`].filter(Boolean).join(', ');
+    if (!details) return task;
+    return language === 'zh' ? `${task}（${details}）` : `${task} (${details})`;
+  };
+
+  return sections
+    .map(key => [key, key === 'actionItems' ? summary.actionItems.map(formatActionItem) : summary[key]] as const)
+    .filter(([, items]) => items.length > 0)
+    .map(([key, items]) => `## ${titles[key]}\n${items.map(item => `- ${item}`).join('\n')}`)
+    .join('\n\n');
+};
+
+/**
+ * 把renderSummaryMarkdown渲染的Markdown拆回各部分的标题和条目，条目顺序与结构化总结一致
+ * 用于把引用对应到显示的条目；标题无法识别（如内容被编辑过）时返回null
+ */
+export const splitRenderedSummary = (
+  content: string
+): { section: SummarySection; title: string; items: string[] }[] | null => {
+  const blocks = content.split(/^## /m).filter(block => block.trim());
+  const parts = blocks.map(block => {
+    const [title, ...lines] = block.split('\n');
+    const section = DEFAULT_SECTIONS.find(key =>
+      SECTION_TITLES.zh[key] === title.trim() || SECTION_TITLES.en[key] === title.trim()
+    );
+    const items = lines.filter(line => line.startsWith('- ')).map(line => line.slice(2));
+    return section ? { section, title: title.trim(), items } : null;
+  });
+  return parts.length > 0 && parts.every(Boolean)
+    ? parts as { section: SummarySection; title: string; items: string[] }[]
+    : null;
+};
@@ -0,0 +1,15 @@
+// 中日韩文字、全角标点：每个字符大约对应一个token
+const CJK_REGEX = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+// 其他文字（英文、数字、符号）大约每4个字符对应一个token
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * 估算文本的token数量
+ * 不依赖具体模型的分词器，估算值略偏大，用于判断提示词是否超出上下文窗口
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjkCount = text.match(CJK_REGEX)?.length ?? 0;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / CHARS_PER_TOKEN);
+};
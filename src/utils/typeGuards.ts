@@ -0,0 +1,6 @@
+/**
+ * 判断值是否为普通对象（不包括null和数组），用于校验解析出的JSON
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,85 @@
+import type {
+  ChatImportFormat,
+  ChatMessage,
+  ImportColumnMapping,
+  ImportParseError,
+  ImportParseOptions,
+} from '../types';
+import { createStreamParser, detectImporter, getImporter, SNIFF_SAMPLE_SIZE } from '../utils/parsers';
+
+/**
+ * 聊天记录导入Worker - 在后台线程中分块读取并解析大文件，避免阻塞页面
+ * 注意：Worker中只能使用内置的导入格式，主线程通过registerImporter注册的格式在这里不可见
+ */
+
+export interface ImportWorkerRequest {
+  file: File;
+  format: ChatImportFormat | 'auto';
+  options?: ImportParseOptions;
+}
+
+export type ImportWorkerResponse =
+  | { type: 'detected'; format: ChatImportFormat; headers: string[]; columnMapping: ImportColumnMapping }
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'messages'; messages: ChatMessage[] }
+  | { type: 'done'; errors: ImportParseError[] }
+  | { type: 'error'; message: string };
+
+// 进度消息的最小发送间隔（毫秒）
+const PROGRESS_INTERVAL = 100;
+
+const post = (response: ImportWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const importFile = async ({ file, format, options = {} }: ImportWorkerRequest) => {
+  const sample = await file.slice(0, SNIFF_SAMPLE_SIZE).text();
+  const importer = (format !== 'auto' && getImporter(format)) || detectImporter(sample, file.name);
+
+  // 表格类格式在未指定列映射时使用自动推断的映射
+  const headers = importer.getHeaders ? importer.getHeaders(sample) : [];
+  const columnMapping = options.columnMapping
+    ?? (importer.detectColumnMapping ? importer.detectColumnMapping(headers) : {});
+  post({ type: 'detected', format: importer.id, headers, columnMapping });
+
+  const parser = createStreamParser(importer, { ...options, columnMapping });
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  let loaded = 0;
+  let lastProgressAt = 0;
+
+  post({ type: 'progress', loaded: 0, total: file.size });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    loaded += value.byteLength;
+    parser.write(decoder.decode(value, { stream: true }));
+
+    const messages = parser.takeMessages();
+    if (messages.length > 0) {
+      post({ type: 'messages', messages });
+    }
+
+    const now = Date.now();
+    if (now - lastProgressAt >= PROGRESS_INTERVAL) {
+      lastProgressAt = now;
+      post({ type: 'progress', loaded, total: file.size });
+    }
+  }
+
+  parser.write(decoder.decode());
+  const { messages, errors } = parser.end();
+  if (messages.length > 0) {
+    post({ type: 'messages', messages });
+  }
+  post({ type: 'progress', loaded: file.size, total: file.size });
+  post({ type: 'done', errors });
+};
+
+self.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  importFile(event.data).catch((error: unknown) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : '文件解析失败' });
+  });
+};
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config'
+
+// https://vitest.dev/config/
+export default defineConfig({
+  test: {
+    environment: 'node',
+    // In-memory localStorage and IndexedDB for the services under test
+    setupFiles: ['./src/setupTests.ts'],
+    // Tests never reach a real model service
+    env: {
+      VITE_LLM_PROVIDER: 'mock',
+    },
+  },
+})